@@ -300,6 +300,7 @@ declare module 'fuse-native' {
         public static EL3RST: number;
         public static ELNRNG: number;
         public static EUNATCH: number;
+        public static EOPNOTSUPP: number;
 
     }
 }
\ No newline at end of file
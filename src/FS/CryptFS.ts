@@ -2,29 +2,318 @@ import Fuse, {StatFs} from 'fuse-native';
 import {constants} from 'node:fs';
 import {stat, chmod, chown, truncate, utimes} from 'node:fs/promises';
 import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {FallocateUtils} from '../Utils/FallocateUtils.js';
 import {ErrorUtils} from '../Utils/ErrorUtils.js';
 import {VirtualFSEntry} from './VirtualFSEntry.js';
 import * as crypto from 'crypto';
+import * as zlib from 'zlib';
 import * as fs from 'fs/promises';
-import {Stats} from 'fs';
+import {Dirent, Stats} from 'fs';
 import * as tpath from 'path';
+import {Readable, Writable} from 'node:stream';
 import {VirtualFSHandler} from './VirtualFSHandler.js';
+import {CryptVault} from '../Key/CryptVault.js';
+import {VirtualFSLogger, VirtualFSLoggerLevel} from './VirtualFS.js';
+
+/**
+ * Padding of the on-disk file length, see CryptFSOptions.padding
+ */
+type CryptFSPadding = 'none'|'block'|'pow2'|'random';
+
+/**
+ * Codec compressing each block before it is sealed, see CryptFSOptions.compression
+ */
+type CryptFSCompression = 'none'|'deflate'|'brotli';
 
 interface CryptFSOptions {
     baseDir: string;
     encryptionKey: Buffer;
+
+    /**
+     * Plaintext block size of new files, stored in their header
+     * (default CryptFS.DEFAULT_BLOCK_SIZE).
+     */
+    blockSize?: number;
+
+    /**
+     * Block size of files written before format version 7, which do not
+     * record it (default: blockSize).
+     */
+    legacyBlockSize?: number;
+
+    /**
+     * What readdir does with entries whose name cannot be decrypted
+     * (foreign files, another key, a lost long name sidecar): 'hide' them,
+     * 'escape' them as `njsfscrypt.raw.<on-disk name>` so they can be
+     * stat'ed, renamed and removed through the mount, or 'fail' the listing
+     * with EIO (default 'hide').
+     */
+    undecodableNames?: 'hide'|'escape'|'fail';
+
+    /**
+     * Metadata privacy: keep permissions, ownership and timestamps in an
+     * encrypted record next to each entry and leave neutral values on the
+     * on-disk inode (default false).
+     */
+    metadataPrivacy?: boolean;
+
+    /**
+     * Padding of new files, so the storage does not show exact plaintext
+     * sizes: 'block' rounds up to whole blocks, 'pow2' pads the file to the
+     * next power of two, 'random' appends a random amount of up to one
+     * block (default 'none'). The policy is stored in each file's header.
+     */
+    padding?: CryptFSPadding;
+
+    /**
+     * Compression of new files: every block is compressed with raw
+     * 'deflate' or 'brotli' before it is sealed and stored with its own
+     * length, found through an encrypted block table at the end of the file
+     * (default 'none'). The codec is stored in each file's header.
+     */
+    compression?: CryptFSCompression;
+
+    /**
+     * Leave the blocks a truncate or a write past the end skips as holes in
+     * the backing file instead of sealing zeros into them (default false).
+     * Only for new, uncompressed files; holes always read back as zeros.
+     * Holes carry no tag, so a zeroed block inside such a file is not
+     * detected as tampering.
+     */
+    sparse?: boolean;
+}
+
+/**
+ * Parsed header of one encrypted file
+ */
+interface CryptFSFileMeta {
+    version: number;
+    fileSize: number;
+    headerSize: number;
+
+    /**
+     * Plaintext block size the file was written with
+     */
     blockSize: number;
+
+    /**
+     * Random file id bound into every block's AAD (v4+), null for older
+     * versions.
+     */
+    fileId: Buffer|null;
+
+    /**
+     * Key that seals the blocks: the per-file content key (v3+) or the
+     * master key (v2).
+     */
+    blockKey: Buffer;
+
+    /**
+     * blockKey as wrapped in the header (v3+), null for v2. Kept so that
+     * rewriting the header does not touch the wrapped key bytes.
+     */
+    wrappedKey: Buffer|null;
+
+    /**
+     * Padding policy of the file (v8+), 'none' for older versions
+     */
+    padding: CryptFSPadding;
+
+    /**
+     * Block codec of the file (v8+), 'none' for older versions
+     */
+    compression: CryptFSCompression;
+
+    /**
+     * The file may have holes (v8+): blocks before the last one that are all
+     * zero on disk read as zeros
+     */
+    sparse: boolean;
+
+    /**
+     * Where the blocks of a compressed file are, loaded on first use by
+     * `_blockTable()`. Always null for uncompressed files.
+     */
+    blockTable: CryptFSBlockTable|null;
+}
+
+/**
+ * Location of every block of a compressed file. Blocks are stored with
+ * their sealed length; a rewritten block stays in place if it fits,
+ * otherwise it moves to the end of the data.
+ */
+interface CryptFSBlockTable {
+    blocks: {offset: number; length: number;}[];
+
+    /**
+     * End of the block data, the padding and the sealed table follow
+     */
+    dataEnd: number;
+}
+
+/**
+ * Parsed header of an open file, shared by all fds open on it
+ */
+interface CryptFSOpenFile {
+    meta: CryptFSFileMeta & {dirty: boolean;};
+    fds: Set<number>;
+}
+
+/**
+ * Metadata of an entry as kept in its encrypted record (metadata privacy)
+ */
+interface CryptFSMetaRecord {
+    mode: number;
+    uid: number;
+    gid: number;
+    atimeMs: number;
+    mtimeMs: number;
+    ctimeMs: number;
+}
+
+/**
+ * Checkpoint journal of a key rotation (`njsfscrypt.rotate` in the storage
+ * root). It exists while a rotation is in progress and pins the two keys.
+ */
+interface CryptFSRotationJournal {
+    version: number;
+
+    /**
+     * Key check values of the old and the new master key, base64
+     */
+    oldKeyCheck: string;
+    newKeyCheck: string;
+
+    /**
+     * ISO timestamps of the start and the last checkpoint
+     */
+    started: string;
+    updated: string;
+
+    /**
+     * Number of entries rotated so far
+     */
+    rotated: number;
+}
+
+/**
+ * Entry of an on-disk directory with its decoded name
+ */
+interface CryptFSDirEntry {
+    dirent: Dirent;
+
+    /**
+     * Plaintext name, null if the on-disk name does not decode
+     */
+    name: string|null;
+}
+
+/**
+ * Outcome of migrating one version 1 file, see `CryptFS.migrateV1()`
+ */
+interface CryptFSMigrationResult {
+    path: string;
+
+    /**
+     * Plaintext size from the version 1 header, null if it could not be read
+     */
+    fileSize: number|null;
+    status: 'migrated'|'dry-run'|'failed';
+    error?: string;
+
+    /**
+     * Copy of the version 1 file, if `migrateV1()` was given a backup directory
+     */
+    backupPath?: string;
+}
+
+/**
+ * Problem found by `CryptFS.verify()`
+ */
+interface CryptFSVerifyIssue {
+    kind: 'corrupt'|'truncated'|'foreign'|'undecodable';
+
+    /**
+     * Mount path, null if the name does not decode
+     */
+    path: string|null;
+
+    /**
+     * On-disk path below the storage root
+     */
+    diskPath: string;
+    message: string;
+}
+
+/**
+ * Result of `CryptFS.verify()`
+ */
+interface CryptFSVerifyReport {
+
+    /**
+     * Number of on-disk entries looked at
+     */
+    checked: number;
+    issues: CryptFSVerifyIssue[];
+}
+
+/**
+ * Header of a version 1 file
+ */
+interface CryptFSV1Header {
+    fileSize: number;
+    nonce: Buffer;
+}
+
+/**
+ * Options of `CryptFS.createReadStream()`
+ */
+interface CryptFSReadStreamOptions {
+    start?: number;
+
+    /**
+     * Last byte to read, inclusive
+     */
+    end?: number;
+}
+
+/**
+ * Options of `CryptFS.createWriteStream()`
+ */
+interface CryptFSWriteStreamOptions {
+    mode?: number;
 }
 
 export class CryptFS implements VirtualFSEntry {
 
     /**
-     * Magic prefix written at the start of every CryptFS v2 file. Lets us
+     * Magic prefix written at the start of every CryptFS v2+ file. Lets us
      * detect the format and reject old AES-256-CTR (v1) files instead of
      * silently producing garbage.
      */
     private static readonly MAGIC = Buffer.from('NJSc', 'ascii');
-    private static readonly VERSION = 2;
+
+    /**
+     * Version written for new files. Older versions stay readable and are
+     * written in their own layout:
+     *  - v2: every block is sealed with the master key.
+     *  - v3: every file has a random content key, wrapped by the master key
+     *        in an extended header; blocks are sealed with the content key.
+     *  - v4: adds a random file id to the header which is bound into every
+     *        block's AAD, so blocks can not be swapped between files.
+     *  - v5: appends an HMAC-SHA256 over the rest of the header, keyed from
+     *        the master key, so size, version and reserved fields can not be
+     *        changed unnoticed.
+     *  - v6: marks the last block of a file in its AAD, so trailing blocks
+     *        can not be cut off unnoticed.
+     *  - v7: stores the plaintext block size in the header (bytes 16..20),
+     *        so files of different block sizes can live side by side.
+     *  - v8: uses header bytes 20..24 as flags; the low four bits hold the
+     *        padding policy, bits 4..7 the block codec, bit 8 marks a file
+     *        with holes. Unknown flags are rejected.
+     */
+    private static readonly VERSION = 8;
+    private static readonly MIN_VERSION = 2;
 
     /** GCM standard nonce size. */
     private static readonly IV_SIZE = 12;
@@ -33,10 +322,138 @@ export class CryptFS implements VirtualFSEntry {
     private static readonly TAG_SIZE = 16;
 
     /**
-     * Header layout: 4 magic + 4 version + 8 filesize + 8 reserved = 24 bytes.
+     * Base header layout (all versions): 4 magic + 4 version + 8 filesize +
+     * 8 reserved = 24 bytes.
      */
     private static readonly META_SIZE = 24;
     private static readonly HEADER_FILESIZE_OFFSET = 8;
+    private static readonly HEADER_BLOCKSIZE_OFFSET = 16;
+    private static readonly HEADER_FLAGS_OFFSET = 20;
+
+    /**
+     * Padding policies by their value in the flags (bits 0..3)
+     */
+    private static readonly PADDING_POLICIES: CryptFSPadding[] = ['none', 'block', 'pow2', 'random'];
+    private static readonly FLAGS_PADDING_MASK = 0x0f;
+
+    /**
+     * Block codecs by their value in the flags (bits 4..7)
+     */
+    private static readonly COMPRESSION_CODECS: CryptFSCompression[] = ['none', 'deflate', 'brotli'];
+    private static readonly FLAGS_COMPRESSION_MASK = 0xf0;
+    private static readonly FLAGS_COMPRESSION_SHIFT = 4;
+
+    /**
+     * Flag of a file that may have holes (bit 8)
+     */
+    private static readonly FLAGS_SPARSE = 0x100;
+
+    /** Brotli quality of compressed blocks, fast enough for every write. */
+    private static readonly BROTLI_QUALITY = 5;
+
+    /**
+     * Entry of the block table of a compressed file: 8 offset + 4 sealed
+     * length. The table is sealed like a block and ends the file.
+     */
+    private static readonly BLOCK_TABLE_ENTRY_SIZE = 12;
+
+    /** Random padding is written in chunks of this size. */
+    private static readonly PADDING_CHUNK_SIZE = 1024 * 1024;
+
+    /** Plaintext block size of new files unless configured otherwise. */
+    public static readonly DEFAULT_BLOCK_SIZE = 64 * 1024;
+
+    /** Largest block size accepted from a header. */
+    private static readonly MAX_BLOCK_SIZE = 16 * 1024 * 1024;
+
+    /** Size of the per-file content key (AES-256). */
+    private static readonly FILE_KEY_SIZE = 32;
+
+    /** Size of the random file id (v4+). */
+    private static readonly FILE_ID_SIZE = 16;
+
+    /**
+     * Extension after the base header: the file id (v4+), then the content
+     * key wrapped with AES-256-GCM under the master key,
+     * [12 IV][32 ct][16 tag] (v3+).
+     */
+    private static readonly WRAPPED_KEY_SIZE = CryptFS.IV_SIZE + CryptFS.FILE_KEY_SIZE + CryptFS.TAG_SIZE;
+
+    /** Size of the header MAC (v5+), HMAC-SHA256. */
+    private static readonly HEADER_MAC_SIZE = 32;
+
+    /** Largest header of any supported version. */
+    private static readonly MAX_HEADER_SIZE =
+        CryptFS.META_SIZE + CryptFS.FILE_ID_SIZE + CryptFS.WRAPPED_KEY_SIZE + CryptFS.HEADER_MAC_SIZE;
+
+    /**
+     * Suffix of the temporary file `upgradeFile()` and `rotateKey()` write
+     * next to the original before renaming it over.
+     */
+    private static readonly UPGRADE_TMP_SUFFIX = '.njsfscrypt-upgrade';
+
+    /**
+     * Version 1 files (before 1.2.0): 8 byte plaintext size, 16 byte nonce,
+     * then the AES-256-CTR ciphertext under the master key, as long as the
+     * plaintext. The nonce is the initial counter block. This layout is
+     * taken from the 1.2.0 changelog, not checked against a file written by
+     * 1.1.x, hence the backups `migrateV1()` can keep.
+     */
+    private static readonly V1_HEADER_SIZE = 24;
+    private static readonly V1_NONCE_OFFSET = 8;
+    private static readonly AES_BLOCK = 16;
+
+    /**
+     * Journal of an unfinished key rotation, see `rotateKey()`
+     */
+    public static readonly ROTATION_JOURNAL_FILENAME = 'njsfscrypt.rotate';
+
+    /**
+     * Per-directory file with 16 random bytes that key the name encryption
+     * of the directory's entries, so equal names in different directories
+     * encrypt differently. Directories without it (created by older
+     * releases) keep the legacy name encoding until `upgrade()`.
+     */
+    public static readonly DIRIV_FILENAME = 'njsfscrypt.diriv';
+    private static readonly DIRIV_SIZE = 16;
+
+    /** Size of the synthetic IV in front of an encrypted name. */
+    private static readonly NAME_SIV_SIZE = 16;
+
+    /**
+     * Encrypted names longer than this do not fit the backing filesystem
+     * (NAME_MAX of 255) once the longest suffix the storage appends to an
+     * on-disk name, `UPGRADE_TMP_SUFFIX`, is added. They are stored as
+     * `njsfscrypt.longname.<sha256>` with the full encrypted name in a
+     * `<that>.name` sidecar file next to it.
+     */
+    private static readonly MAX_NAME_LENGTH = 255 - CryptFS.UPGRADE_TMP_SUFFIX.length;
+
+    /**
+     * Shape of an encrypted name: base64url of at least a 16 byte tag or SIV
+     */
+    private static readonly ENCRYPTED_NAME_PATTERN = /^[A-Za-z0-9_-]{22,}$/u;
+    private static readonly LONGNAME_PREFIX = 'njsfscrypt.longname.';
+    private static readonly LONGNAME_SIDECAR_SUFFIX = '.name';
+
+    /**
+     * Mount-side prefix of undecodable entries in the 'escape' policy. Names
+     * with this prefix are reserved and cannot be created through the mount.
+     */
+    public static readonly RAW_NAME_PREFIX = 'njsfscrypt.raw.';
+
+    /**
+     * Metadata privacy: the encrypted metadata record of an entry lives in
+     * `<on-disk name>.meta` next to it ([12 IV][JSON ct][16 tag]). Encrypted
+     * names never contain a dot, so the suffix cannot clash with them. The
+     * inode itself keeps these neutral values; directories report a fixed
+     * size.
+     */
+    private static readonly META_SUFFIX = '.meta';
+    private static readonly NEUTRAL_FILE_MODE = 0o600;
+    private static readonly NEUTRAL_DIR_MODE = 0o700;
+    private static readonly NEUTRAL_TIME = new Date(0);
+    private static readonly NEUTRAL_DIR_SIZE = 4096;
 
     /**
      * Each on-disk block has a fresh IV prepended and an auth tag appended,
@@ -44,7 +461,7 @@ export class CryptFS implements VirtualFSEntry {
      */
     private static readonly BLOCK_OVERHEAD = CryptFS.IV_SIZE + CryptFS.TAG_SIZE;
 
-    private _options: CryptFSOptions;
+    private _options: Required<CryptFSOptions>;
 
     /**
      * Debuging
@@ -64,23 +481,118 @@ export class CryptFS implements VirtualFSEntry {
      */
     private _isInit: boolean = false;
 
+    /**
+     * Per-fd cache of the parsed header (plaintext size + unwrapped content
+     * key). Avoids a header-read syscall and key unwrap on every
+     * `read()`/`write()`. All fds of one file share the same object, see
+     * `_openFiles`. The dirty flag tracks whether padding or the block table
+     * of a compressed file (and with it its size) still have to be written;
+     * that happens in `release()` / `fsync()` of a writable fd.
+     * @private
+     */
+    private _metaCache: Map<number, CryptFSFileMeta & {dirty: boolean;}> = new Map();
+
+    /**
+     * Open files by the `dev:ino` of their backing file, so a write through
+     * one fd is seen by reads through the others
+     * @private
+     */
+    private _openFiles: Map<string, CryptFSOpenFile> = new Map();
+
+    /**
+     * Key in `_openFiles` by fd
+     * @private
+     */
+    private _openFileKeys: Map<number, string> = new Map();
+
+    /**
+     * Key of the header MAC, derived from the master key with HKDF so the
+     * master key itself is only ever used for AES.
+     * @private
+     */
+    private _headerMacKey: Buffer;
+
+    /**
+     * Keys of the name encryption: the synthetic IV is an HMAC keyed with
+     * the first, the name is encrypted with AES-CTR under the second.
+     * @private
+     */
+    private _nameMacKey: Buffer;
+    private _nameEncKey: Buffer;
+
+    /**
+     * Key of the symlink target encryption
+     * @private
+     */
+    private _linkKey: Buffer;
+
+    /**
+     * Key of the metadata records
+     * @private
+     */
+    private _metaRecordKey: Buffer;
+
+    /**
+     * Key that derives the length of random padding
+     * @private
+     */
+    private _paddingKey: Buffer;
+
+    /**
+     * Handles that wrote or truncated, their record gets a new mtime on
+     * release (metadata privacy)
+     * @private
+     */
+    private _modifiedFds: Set<number> = new Set();
+
+    /**
+     * Directory IVs by on-disk directory path; null marks a legacy directory
+     * without IV file.
+     * @private
+     */
+    private _dirIvCache: Map<string, Buffer|null> = new Map();
 
     /**
-     * Per-fd cache of the plaintext file size held in the header. Avoids a
-     * header-read syscall on every `read()`/`write()` and a header-write
-     * syscall on every `write()`. The dirty flag tracks whether the
-     * in-memory size has grown past the on-disk header; the persist happens
-     * in `release()` / `fsync()`.
+     * Logger
      * @private
      */
-    private _metaCache: Map<number, {fileSize: number; dirty: boolean;}> = new Map();
+    private _logger: VirtualFSLogger|null = null;
 
     /**
      * constructor
      * @param {CryptFSOptions} options
      */
     public constructor(options: CryptFSOptions) {
-        this._options = options;
+        const blockSize = options.blockSize ?? CryptFS.DEFAULT_BLOCK_SIZE;
+
+        if (!Number.isInteger(blockSize) || blockSize <= 0 || blockSize > CryptFS.MAX_BLOCK_SIZE) {
+            throw new Error(`Invalid CryptFS block size: ${blockSize}`);
+        }
+
+        if (options.padding !== undefined && !CryptFS.PADDING_POLICIES.includes(options.padding)) {
+            throw new Error(`Invalid CryptFS padding: ${options.padding}`);
+        }
+
+        if (options.compression !== undefined && !CryptFS.COMPRESSION_CODECS.includes(options.compression)) {
+            throw new Error(`Invalid CryptFS compression: ${options.compression}`);
+        }
+
+        this._options = {
+            ...options,
+            blockSize: blockSize,
+            legacyBlockSize: options.legacyBlockSize ?? blockSize,
+            undecodableNames: options.undecodableNames ?? 'hide',
+            metadataPrivacy: options.metadataPrivacy ?? false,
+            padding: options.padding ?? 'none',
+            compression: options.compression ?? 'none',
+            sparse: options.sparse ?? false
+        };
+        this._headerMacKey = this._deriveKey('njsfscrypt header mac');
+        this._nameMacKey = this._deriveKey('njsfscrypt name mac');
+        this._nameEncKey = this._deriveKey('njsfscrypt name enc');
+        this._linkKey = this._deriveKey('njsfscrypt link target');
+        this._metaRecordKey = this._deriveKey('njsfscrypt metadata');
+        this._paddingKey = this._deriveKey('njsfscrypt padding');
     }
 
     /**
@@ -93,9 +605,43 @@ export class CryptFS implements VirtualFSEntry {
             throw new Error(`baseDir is not a directory: ${this._options.baseDir}`);
         }
 
+        const entries = (await fs.readdir(this._options.baseDir)).filter(
+            (fn) => fn !== CryptVault.CONFIG_FILENAME
+        );
+
+        // Half of the storage is under the new key, writes under either key
+        // would make the rotation unrecoverable.
+        if (entries.includes(CryptFS.ROTATION_JOURNAL_FILENAME)) {
+            throw new Error('A key rotation is in progress; resume it before mounting');
+        }
+
+        // A new storage gets a root IV; existing storages without one keep
+        // the legacy name encoding.
+        if (entries.length === 0) {
+            await this._createDirIv(this._options.baseDir);
+        }
+
         this._isInit = true;
     }
 
+    /**
+     * Set logger
+     * @param {VirtualFSLogger|null} logger
+     */
+    public setLogger(logger: VirtualFSLogger|null): void {
+        this._logger = logger;
+    }
+
+    /**
+     * Derive a subkey of the master key with HKDF-SHA256
+     * @param {string} info
+     * @return {Buffer}
+     * @private
+     */
+    private _deriveKey(info: string): Buffer {
+        return Buffer.from(crypto.hkdfSync('sha256', this._options.encryptionKey, Buffer.alloc(0), info, 32));
+    }
+
     /**
      * is init
      * @return {boolean}
@@ -105,17 +651,35 @@ export class CryptFS implements VirtualFSEntry {
     }
 
     /**
-     * AAD that binds an encrypted block to its index. Reordering or pasting a
-     * block from a different position in the file fails the auth check even
-     * if its on-disk bytes are intact, because the AAD will not match.
+     * AAD that binds an encrypted block to its file and index. Reordering or
+     * pasting a block from a different position or another file fails the
+     * auth check even if its on-disk bytes are intact, because the AAD will
+     * not match. Files before v4 have no file id and bind the index only.
+     *
+     * From v6 on a trailing byte marks the last block of the file (1) or any
+     * other block (0). A file whose tail was cut off ends in a block sealed
+     * as non-final and fails to read.
+     * @param {CryptFSFileMeta} meta
      * @param {number} blockIndex
+     * @param {number} fileSize Plaintext size of the file the block belongs to
      * @return {Buffer}
      * @private
      */
-    private _aadFor(blockIndex: number): Buffer {
-        const aad = Buffer.alloc(8);
-        aad.writeBigUInt64BE(BigInt(blockIndex), 0);
-        return aad;
+    private _aadFor(meta: CryptFSFileMeta, blockIndex: number, fileSize: number): Buffer {
+        const index = Buffer.alloc(8);
+        index.writeBigUInt64BE(BigInt(blockIndex), 0);
+
+        if (meta.fileId === null) {
+            return index;
+        }
+
+        if (meta.version < 6) {
+            return Buffer.concat([meta.fileId, index]);
+        }
+
+        const isFinal = blockIndex === this._numBlocks(meta, fileSize) - 1;
+
+        return Buffer.concat([meta.fileId, index, Buffer.from([isFinal ? 1 : 0])]);
     }
 
     /**
@@ -124,15 +688,54 @@ export class CryptFS implements VirtualFSEntry {
      *
      * Layout produced: [12 IV][N ciphertext][16 tag], where N === plaintext.length.
      *
+     * @param {CryptFSFileMeta} meta
      * @param {number} blockIndex
      * @param {Buffer} plaintext
+     * @param {number} fileSize Plaintext size of the file after this write
+     * @return {Buffer}
+     * @private
+     */
+    private _encryptBlock(meta: CryptFSFileMeta, blockIndex: number, plaintext: Buffer, fileSize: number): Buffer {
+        return CryptFS.sealBlock(meta.blockKey, plaintext, this._aadFor(meta, blockIndex, fileSize));
+    }
+
+    /**
+     * Decrypt and authenticate one on-disk block. Throws if the tag does not
+     * verify (tampering or wrong block index for AAD). A hole of a sparse
+     * file reads as zeros unauthenticated: an all-zero block that is not
+     * the last one can not be told from a zeroed one.
+     *
+     * @param {CryptFSFileMeta} meta
+     * @param {number} blockIndex
+     * @param {Buffer} onDisk Full block as read from disk: [IV][ct][tag].
+     * @param {number} fileSize Plaintext size of the file the block was written for
      * @return {Buffer}
      * @private
      */
-    private _encryptBlock(blockIndex: number, plaintext: Buffer): Buffer {
+    private _decryptBlock(meta: CryptFSFileMeta, blockIndex: number, onDisk: Buffer, fileSize: number): Buffer {
+        // The last block is always sealed, so cutting a sparse file stays detectable.
+        if (meta.sparse && blockIndex < this._numBlocks(meta, fileSize) - 1 && CryptFS._isZero(onDisk)) {
+            return Buffer.alloc(onDisk.length - CryptFS.BLOCK_OVERHEAD);
+        }
+
+        return CryptFS.openBlock(meta.blockKey, onDisk, this._aadFor(meta, blockIndex, fileSize));
+    }
+
+    /**
+     * Seal a buffer with AES-256-GCM under a fresh random IV, the primitive
+     * behind every file block.
+     *
+     * Layout produced: [12 IV][N ciphertext][16 tag], where N === plaintext.length.
+     *
+     * @param {Buffer} key 32 byte key
+     * @param {Buffer} plaintext
+     * @param {Buffer} aad
+     * @return {Buffer}
+     */
+    public static sealBlock(key: Buffer, plaintext: Buffer, aad: Buffer): Buffer {
         const iv = crypto.randomBytes(CryptFS.IV_SIZE);
-        const cipher = crypto.createCipheriv('aes-256-gcm', this._options.encryptionKey, iv);
-        cipher.setAAD(this._aadFor(blockIndex));
+        const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+        cipher.setAAD(aad);
 
         const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
         const tag = cipher.getAuthTag();
@@ -141,55 +744,208 @@ export class CryptFS implements VirtualFSEntry {
     }
 
     /**
-     * Decrypt and authenticate one on-disk block. Throws if the tag does not
-     * verify (tampering or wrong block index for AAD).
-     *
-     * @param {number} blockIndex
-     * @param {Buffer} onDisk Full block as read from disk: [IV][ct][tag].
+     * Open a buffer sealed by `sealBlock()`. Throws if the tag does not
+     * verify (tampering, another key or another AAD).
+     * @param {Buffer} key 32 byte key
+     * @param {Buffer} sealed [IV][ct][tag]
+     * @param {Buffer} aad
      * @return {Buffer}
-     * @private
      */
-    private _decryptBlock(blockIndex: number, onDisk: Buffer): Buffer {
-        if (onDisk.length < CryptFS.BLOCK_OVERHEAD) {
+    public static openBlock(key: Buffer, sealed: Buffer, aad: Buffer): Buffer {
+        if (sealed.length < CryptFS.BLOCK_OVERHEAD) {
             throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block truncated below overhead size');
         }
 
-        const iv = onDisk.subarray(0, CryptFS.IV_SIZE);
-        const tag = onDisk.subarray(onDisk.length - CryptFS.TAG_SIZE);
-        const ct = onDisk.subarray(CryptFS.IV_SIZE, onDisk.length - CryptFS.TAG_SIZE);
+        const iv = sealed.subarray(0, CryptFS.IV_SIZE);
+        const tag = sealed.subarray(sealed.length - CryptFS.TAG_SIZE);
+        const ct = sealed.subarray(CryptFS.IV_SIZE, sealed.length - CryptFS.TAG_SIZE);
 
-        const decipher = crypto.createDecipheriv('aes-256-gcm', this._options.encryptionKey, iv);
-        decipher.setAAD(this._aadFor(blockIndex));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAAD(aad);
         decipher.setAuthTag(tag);
 
         return Buffer.concat([decipher.update(ct), decipher.final()]);
     }
 
     /**
-     * Build a fresh header with the supplied filesize.
-     * @param {number} fileSize
-     * @return {Buffer}
+     * Whether a buffer is all zero. A sealed block starts with a random IV,
+     * so only holes are scanned past their first bytes.
+     * @param {Buffer} buf
+     * @return {boolean}
      * @private
      */
-    private _buildHeader(fileSize: number): Buffer {
-        const buf = Buffer.alloc(CryptFS.META_SIZE);
+    private static _isZero(buf: Buffer): boolean {
+        for (const byte of buf) {
+            if (byte !== 0) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Header size of a format version
+     * @param {number} version
+     * @return {number}
+     * @private
+     */
+    private _headerSize(version: number): number {
+        let size = CryptFS.META_SIZE;
+
+        if (version >= 5) {
+            size += CryptFS.HEADER_MAC_SIZE;
+        }
+
+        if (version >= 4) {
+            size += CryptFS.FILE_ID_SIZE;
+        }
+
+        if (version >= 3) {
+            size += CryptFS.WRAPPED_KEY_SIZE;
+        }
+
+        return size;
+    }
+
+    /**
+     * Meta for a new, empty file in the current format with a fresh random
+     * content key.
+     * @return {CryptFSFileMeta}
+     * @private
+     */
+    private _newFileMeta(): CryptFSFileMeta {
+        const meta: CryptFSFileMeta = {
+            version: CryptFS.VERSION,
+            fileSize: 0,
+            headerSize: this._headerSize(CryptFS.VERSION),
+            blockSize: this._options.blockSize,
+            fileId: crypto.randomBytes(CryptFS.FILE_ID_SIZE),
+            blockKey: crypto.randomBytes(CryptFS.FILE_KEY_SIZE),
+            wrappedKey: null,
+            padding: this._options.padding,
+            compression: this._options.compression,
+            sparse: false,
+            blockTable: null
+        };
+
+        meta.wrappedKey = this._wrapFileKey(meta);
+
+        if (meta.compression !== 'none') {
+            meta.blockTable = {blocks: [], dataEnd: meta.headerSize};
+        }
+
+        return meta;
+    }
+
+    /**
+     * Wrap the content key of a file with the master key
+     * @param {CryptFSFileMeta} meta
+     * @return {Buffer} [12 IV][32 ct][16 tag]
+     * @private
+     */
+    private _wrapFileKey(meta: CryptFSFileMeta): Buffer {
+        const iv = crypto.randomBytes(CryptFS.IV_SIZE);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this._options.encryptionKey, iv);
+        cipher.setAAD(this._wrapAadFor(meta));
+
+        const ct = Buffer.concat([cipher.update(meta.blockKey), cipher.final()]);
+
+        return Buffer.concat([iv, ct, cipher.getAuthTag()]);
+    }
+
+    /**
+     * HMAC of the header bytes in front of the MAC field
+     * @param {Buffer} header Full header, MAC field included
+     * @return {Buffer}
+     * @private
+     */
+    private _headerMac(header: Buffer): Buffer {
+        const hmac = crypto.createHmac('sha256', this._headerMacKey);
+        hmac.update(header.subarray(0, header.length - CryptFS.HEADER_MAC_SIZE));
+
+        return hmac.digest();
+    }
+
+    /**
+     * AAD for the wrapped content key: magic + version (+ file id), so the
+     * wrap can not be replayed into a header of another format or file.
+     * @param {CryptFSFileMeta} meta
+     * @return {Buffer}
+     * @private
+     */
+    private _wrapAadFor(meta: Pick<CryptFSFileMeta, 'version'|'fileId'>): Buffer {
+        const aad = Buffer.alloc(8);
+        CryptFS.MAGIC.copy(aad, 0);
+        aad.writeUInt32BE(meta.version, 4);
+
+        if (meta.fileId === null) {
+            return aad;
+        }
+
+        return Buffer.concat([aad, meta.fileId]);
+    }
+
+    /**
+     * Offset of the wrapped content key in the header
+     * @param {number} version
+     * @return {number}
+     * @private
+     */
+    private _wrappedKeyOffset(version: number): number {
+        return version >= 4 ? CryptFS.META_SIZE + CryptFS.FILE_ID_SIZE : CryptFS.META_SIZE;
+    }
+
+    /**
+     * Build the header for a file meta.
+     * @param {CryptFSFileMeta} meta
+     * @return {Buffer}
+     * @private
+     */
+    private _buildHeader(meta: CryptFSFileMeta): Buffer {
+        const buf = Buffer.alloc(meta.headerSize);
         CryptFS.MAGIC.copy(buf, 0);
-        buf.writeUInt32BE(CryptFS.VERSION, 4);
-        buf.writeBigInt64BE(BigInt(fileSize), CryptFS.HEADER_FILESIZE_OFFSET);
-        // bytes 16..24 are reserved zeros
+        buf.writeUInt32BE(meta.version, 4);
+        buf.writeBigInt64BE(BigInt(meta.fileSize), CryptFS.HEADER_FILESIZE_OFFSET);
+
+        if (meta.version >= 7) {
+            buf.writeUInt32BE(meta.blockSize, CryptFS.HEADER_BLOCKSIZE_OFFSET);
+        }
+
+        if (meta.version >= 8) {
+            const flags = CryptFS.PADDING_POLICIES.indexOf(meta.padding) +
+                // eslint-disable-next-line no-bitwise
+                (CryptFS.COMPRESSION_CODECS.indexOf(meta.compression) << CryptFS.FLAGS_COMPRESSION_SHIFT) +
+                (meta.sparse ? CryptFS.FLAGS_SPARSE : 0);
+
+            buf.writeUInt32BE(flags, CryptFS.HEADER_FLAGS_OFFSET);
+        }
+
+        if (meta.fileId !== null) {
+            meta.fileId.copy(buf, CryptFS.META_SIZE);
+        }
+
+        if (meta.wrappedKey !== null) {
+            meta.wrappedKey.copy(buf, this._wrappedKeyOffset(meta.version));
+        }
+
+        if (meta.version >= 5) {
+            this._headerMac(buf).copy(buf, buf.length - CryptFS.HEADER_MAC_SIZE);
+        }
+
         return buf;
     }
 
     /**
-     * Read and validate the header from the given file handle.
-     * Returns the recorded plaintext file size.
+     * Read and validate the header from the given file handle and unwrap
+     * the content key.
      *
      * @param {fs.FileHandle} fh
-     * @return {number}
+     * @return {CryptFSFileMeta}
      * @private
      */
-    private async _readHeader(fh: fs.FileHandle): Promise<number> {
-        const buf = Buffer.alloc(CryptFS.META_SIZE);
+    private async _readHeader(fh: fs.FileHandle): Promise<CryptFSFileMeta> {
+        const buf = Buffer.alloc(CryptFS.MAX_HEADER_SIZE);
         const {bytesRead} = await fh.read(buf, 0, buf.length, 0);
 
         if (bytesRead < CryptFS.META_SIZE) {
@@ -201,210 +957,1344 @@ export class CryptFS implements VirtualFSEntry {
         }
 
         const version = buf.readUInt32BE(4);
-        if (version !== CryptFS.VERSION) {
+        if (version < CryptFS.MIN_VERSION || version > CryptFS.VERSION) {
             throw new ErrnoFuseCb(Fuse.EIO, `Unsupported CryptFS version ${version}`);
         }
 
-        return Number(buf.readBigInt64BE(CryptFS.HEADER_FILESIZE_OFFSET));
+        const headerSize = this._headerSize(version);
+        if (bytesRead < headerSize) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS file is shorter than the header');
+        }
+
+        const header = buf.subarray(0, headerSize);
+
+        if (version >= 5) {
+            const mac = header.subarray(headerSize - CryptFS.HEADER_MAC_SIZE);
+
+            if (!crypto.timingSafeEqual(mac, this._headerMac(header))) {
+                throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS header does not authenticate — wrong key or tampered header');
+            }
+        }
+
+        const fileSize = Number(buf.readBigInt64BE(CryptFS.HEADER_FILESIZE_OFFSET));
+        let blockSize = this._options.legacyBlockSize;
+
+        if (version >= 7) {
+            blockSize = buf.readUInt32BE(CryptFS.HEADER_BLOCKSIZE_OFFSET);
+
+            if (blockSize === 0 || blockSize > CryptFS.MAX_BLOCK_SIZE) {
+                throw new ErrnoFuseCb(Fuse.EIO, `CryptFS header has an invalid block size: ${blockSize}`);
+            }
+        }
+
+        let padding: CryptFSPadding = 'none';
+        let compression: CryptFSCompression = 'none';
+        let sparse = false;
+
+        if (version >= 8) {
+            const flags = buf.readUInt32BE(CryptFS.HEADER_FLAGS_OFFSET);
+            // eslint-disable-next-line no-bitwise
+            const policy = CryptFS.PADDING_POLICIES[flags & CryptFS.FLAGS_PADDING_MASK];
+            // eslint-disable-next-line no-bitwise
+            const codec = CryptFS.COMPRESSION_CODECS[(flags & CryptFS.FLAGS_COMPRESSION_MASK) >> CryptFS.FLAGS_COMPRESSION_SHIFT];
+
+            if (
+                policy === undefined ||
+                codec === undefined ||
+                // eslint-disable-next-line no-bitwise
+                (flags & ~(CryptFS.FLAGS_PADDING_MASK | CryptFS.FLAGS_COMPRESSION_MASK | CryptFS.FLAGS_SPARSE)) !== 0
+            ) {
+                throw new ErrnoFuseCb(Fuse.EIO, `CryptFS header has unknown flags: ${flags}`);
+            }
+
+            padding = policy;
+            compression = codec;
+            // eslint-disable-next-line no-bitwise
+            sparse = (flags & CryptFS.FLAGS_SPARSE) !== 0;
+        }
+
+        const fileId = version >= 4
+            ? Buffer.from(buf.subarray(CryptFS.META_SIZE, CryptFS.META_SIZE + CryptFS.FILE_ID_SIZE))
+            : null;
+
+        if (version < 3) {
+            return {
+                version: version,
+                fileSize: fileSize,
+                headerSize: headerSize,
+                blockSize: blockSize,
+                fileId: fileId,
+                blockKey: this._options.encryptionKey,
+                wrappedKey: null,
+                padding: padding,
+                compression: compression,
+                sparse: sparse,
+                blockTable: null
+            };
+        }
+
+        const wrappedOffset = this._wrappedKeyOffset(version);
+        const wrapped = Buffer.from(buf.subarray(wrappedOffset, wrappedOffset + CryptFS.WRAPPED_KEY_SIZE));
+        const iv = wrapped.subarray(0, CryptFS.IV_SIZE);
+        const tag = wrapped.subarray(wrapped.length - CryptFS.TAG_SIZE);
+        const ct = wrapped.subarray(CryptFS.IV_SIZE, wrapped.length - CryptFS.TAG_SIZE);
+
+        let blockKey: Buffer;
+
+        try {
+            const decipher = crypto.createDecipheriv('aes-256-gcm', this._options.encryptionKey, iv);
+            decipher.setAAD(this._wrapAadFor({version: version, fileId: fileId}));
+            decipher.setAuthTag(tag);
+            blockKey = Buffer.concat([decipher.update(ct), decipher.final()]);
+        } catch {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS content key does not authenticate — wrong key or corrupted header');
+        }
+
+        return {
+            version: version,
+            fileSize: fileSize,
+            headerSize: headerSize,
+            blockSize: blockSize,
+            fileId: fileId,
+            blockKey: blockKey,
+            wrappedKey: wrapped,
+            padding: padding,
+            compression: compression,
+            sparse: sparse,
+            blockTable: null
+        };
     }
 
     /**
-     * Return the plaintext file size for a given fd, reading and caching
-     * the header on first use.
+     * Return the parsed header for a given fd, reading and caching it on
+     * first use.
      * @param {number} fd
      * @param {fs.FileHandle} fh
-     * @return {number}
+     * @return {CryptFSFileMeta}
      * @private
      */
-    private async _getCachedFileSize(fd: number, fh: fs.FileHandle): Promise<number> {
+    private async _getFileMeta(fd: number, fh: fs.FileHandle): Promise<CryptFSFileMeta & {dirty: boolean;}> {
         const entry = this._metaCache.get(fd);
 
         if (entry) {
-            return entry.fileSize;
+            return entry;
         }
 
-        const fileSize = await this._readHeader(fh);
-        this._metaCache.set(fd, {fileSize: fileSize, dirty: false});
+        const meta = {...await this._readHeader(fh), dirty: false};
+        this._metaCache.set(fd, meta);
 
-        return fileSize;
+        return meta;
     }
 
     /**
-     * Flush the cached filesize back into the on-disk header if it has
-     * grown since the last persist. Only the 8-byte filesize field is
-     * touched — magic and version stay intact.
-     * @param {number} fd
+     * Persist `meta.fileSize` into the on-disk header. Before v5 only the
+     * 8-byte filesize field is touched; from v5 on the whole header is
+     * rewritten so the MAC matches. All other header bytes are rewritten
+     * unchanged. Then the file is padded, or gets its block table if it is
+     * compressed.
      * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
      * @private
      */
-    private async _flushFileSizeIfDirty(fd: number, fh: fs.FileHandle): Promise<void> {
-        const entry = this._metaCache.get(fd);
+    private async _writeFileSize(fh: fs.FileHandle, meta: CryptFSFileMeta): Promise<void> {
+        await this._writeHeaderSize(fh, meta);
 
-        if (!entry || !entry.dirty) {
-            return;
+        if (meta.compression === 'none') {
+            await this._applyPadding(fh, meta);
+        } else {
+            await this._writeBlockTable(fh, meta);
         }
+    }
 
-        const sizeBuf = Buffer.alloc(8);
-        sizeBuf.writeBigInt64BE(BigInt(entry.fileSize), 0);
-        await fh.write(sizeBuf, 0, 8, CryptFS.HEADER_FILESIZE_OFFSET);
-        entry.dirty = false;
+    /**
+     * Persist `meta.fileSize` into the on-disk header only, see
+     * `_writeFileSize()`
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @private
+     */
+    private async _writeHeaderSize(fh: fs.FileHandle, meta: CryptFSFileMeta): Promise<void> {
+        if (meta.version >= 5) {
+            const header = this._buildHeader(meta);
+            await fh.write(header, 0, header.length, 0);
+        } else {
+            const sizeBuf = Buffer.alloc(8);
+            sizeBuf.writeBigInt64BE(BigInt(meta.fileSize), 0);
+            await fh.write(sizeBuf, 0, 8, CryptFS.HEADER_FILESIZE_OFFSET);
+        }
     }
 
     /**
-     * Number of plaintext blocks needed to cover `fileSize` bytes.
-     * @param {number} fileSize
-     * @return {number}
+     * Bring the on-disk length of a file to the padded size of its current
+     * plaintext size. Padding is filled with random bytes so it can not be
+     * told apart from the ciphertext; bytes already on disk are left as they
+     * are.
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
      * @private
      */
-    private _numBlocks(fileSize: number): number {
-        if (fileSize <= 0) {
-            return 0;
+    private async _applyPadding(fh: fs.FileHandle, meta: CryptFSFileMeta): Promise<void> {
+        const target = this._paddedSize(meta, meta.fileSize);
+        const {size} = await fh.stat();
+
+        if (size > target) {
+            await fh.truncate(target);
+            return;
+        }
+
+        for (let pos = size; pos < target; pos += CryptFS.PADDING_CHUNK_SIZE) {
+            const chunk = crypto.randomBytes(Math.min(CryptFS.PADDING_CHUNK_SIZE, target - pos));
+            // eslint-disable-next-line no-await-in-loop
+            await fh.write(chunk, 0, chunk.length, pos);
         }
-        return Math.ceil(fileSize / this._options.blockSize);
     }
 
     /**
-     * Plaintext length stored in block `blockIndex`. Full blocks return
-     * `blockSize`; the trailing block returns the remainder.
-     * @param {number} blockIndex
-     * @param {number} fileSize
-     * @return {number}
+     * Flush the cached filesize back into the on-disk header if it has
+     * grown since the last persist. A read-only fd leaves that to the
+     * writable fd that changed the file.
+     * @param {number} fd
+     * @param {fs.FileHandle} fh
      * @private
      */
-    private _plainLenOfBlock(blockIndex: number, fileSize: number): number {
-        const numBlocks = this._numBlocks(fileSize);
-        if (blockIndex >= numBlocks) {
-            return 0;
+    private async _flushFileSizeIfDirty(fd: number, fh: fs.FileHandle): Promise<void> {
+        const entry = this._metaCache.get(fd);
+
+        if (!entry || !entry.dirty) {
+            return;
         }
-        if (blockIndex === numBlocks - 1) {
-            return fileSize - (blockIndex * this._options.blockSize);
+
+        // eslint-disable-next-line no-bitwise
+        if ((this._handler.getHandle(fd).flags & (constants.O_WRONLY | constants.O_RDWR)) === 0) {
+            return;
         }
-        return this._options.blockSize;
+
+        await this._writeFileSize(fh, entry);
+        entry.dirty = false;
     }
 
     /**
-     * Byte offset on disk where block `blockIndex` starts.
-     * Each preceding block contributes `blockSize + BLOCK_OVERHEAD` bytes.
-     * @param {number} blockIndex
-     * @return {number}
+     * Key of a backing file in `_openFiles`
+     * @param {{dev: number; ino: number}} st Stats of the backing file
+     * @return {string}
      * @private
      */
-    private _blockDiskOffset(blockIndex: number): number {
-        return CryptFS.META_SIZE + blockIndex * (this._options.blockSize + CryptFS.BLOCK_OVERHEAD);
+    private static _openFileKey(st: {dev: number; ino: number;}): string {
+        return `${st.dev}:${st.ino}`;
     }
 
     /**
-     * Total physical size on disk for a file with the given plaintext size.
-     * @param {number} fileSize
-     * @return {number}
+     * Share the header of an open file with a new fd. The first fd of a
+     * file brings its header; a file created anew replaces the header the
+     * open fds have.
+     * @param {number} fd
+     * @param {string} key
+     * @param {CryptFSFileMeta} meta
+     * @param {boolean} created
      * @private
      */
-    private _physicalSize(fileSize: number): number {
-        const numBlocks = this._numBlocks(fileSize);
-        if (numBlocks === 0) {
-            return CryptFS.META_SIZE;
+    private _attachFileMeta(fd: number, key: string, meta: CryptFSFileMeta, created: boolean): void {
+        let file = this._openFiles.get(key);
+
+        if (file === undefined) {
+            file = {meta: {...meta, dirty: false}, fds: new Set()};
+            this._openFiles.set(key, file);
+        } else if (created) {
+            Object.assign(file.meta, meta, {dirty: false});
         }
-        const fullBlocks = numBlocks - 1;
-        const lastPlain = fileSize - (fullBlocks * this._options.blockSize);
-        return CryptFS.META_SIZE
-            + fullBlocks * (this._options.blockSize + CryptFS.BLOCK_OVERHEAD)
-            + lastPlain + CryptFS.BLOCK_OVERHEAD;
+
+        file.fds.add(fd);
+        this._openFileKeys.set(fd, key);
+        this._metaCache.set(fd, file.meta);
     }
 
     /**
-     * encode a name (file or folder name)
-     * @param {string} name
-     * @return {string}
+     * Drop an fd from the header cache, and the file with its last fd
+     * @param {number} fd
      * @private
      */
-    private _encodeName(name: string): string {
-        const cipher = crypto.createCipheriv('aes-256-gcm', this._options.encryptionKey, Buffer.alloc(12,0));
-        const encrypted = Buffer.concat([cipher.update(Buffer.from(name,'utf8')), cipher.final()]);
-        const tag = cipher.getAuthTag();
+    private _detachFileMeta(fd: number): void {
+        const key = this._openFileKeys.get(fd);
 
-        return Buffer.concat([tag, encrypted])
-        .toString('base64')
-        .replace(/\+/gu, '-')
-        .replace(/\//gu, '_')
-        .replace(/[=]+$/u,'');
+        this._metaCache.delete(fd);
+        this._openFileKeys.delete(fd);
+
+        const file = key === undefined ? undefined : this._openFiles.get(key);
+
+        if (file !== undefined) {
+            file.fds.delete(fd);
+
+            if (file.fds.size === 0) {
+                this._openFiles.delete(key!);
+            }
+        }
     }
 
     /**
-     * decode a name (file or folder name)
-     * @param {string} encName
-     * @return {string}
+     * Physical size on disk including the padding of the file's policy.
+     * Random padding is derived from the file id and size, so the same size
+     * always gets the same padding and repeated observations of a file do
+     * not average it out.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize
+     * @return {number}
      * @private
      */
-    private _decodeName(encName: string): string {
-        const b64 = encName.replace(/-/gu, '+').replace(/_/gu, '/');
-        const buf = Buffer.from(b64, 'base64');
-        const tag = buf.subarray(0,16);
-        const encrypted = buf.subarray(16);
+    private _paddedSize(meta: CryptFSFileMeta, fileSize: number): number {
+        const physical = meta.compression === 'none'
+            ? this._physicalSize(meta, fileSize)
+            : meta.blockTable!.dataEnd + this._blockTableSize(meta, fileSize);
+
+        switch (meta.padding) {
+            case 'block':
+                if (meta.compression !== 'none') {
+                    return Math.ceil(physical / meta.blockSize) * meta.blockSize;
+                }
 
-        const decipher = crypto.createDecipheriv('aes-256-gcm', this._options.encryptionKey, Buffer.alloc(12,0));
-        decipher.setAuthTag(tag);
+                return this._physicalSize(meta, this._numBlocks(meta, fileSize) * meta.blockSize);
 
-        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+            case 'pow2':
+                return 2 ** Math.ceil(Math.log2(physical));
+
+            case 'random': {
+                const sizeBuf = Buffer.alloc(8);
+                sizeBuf.writeBigUInt64BE(BigInt(fileSize), 0);
+
+                const hmac = crypto.createHmac('sha256', this._paddingKey);
+                hmac.update(meta.fileId ?? Buffer.alloc(0));
+                hmac.update(sizeBuf);
+
+                return physical + (hmac.digest().readUInt32BE(0) % (meta.blockSize + 1));
+            }
+
+            default:
+                return physical;
+        }
     }
 
     /**
-     * Map a path and use encode name
-     * @param {string} mountPath
-     * @return {string}
+     * Sealed size of the block table of a compressed file
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize
+     * @return {number}
      * @private
      */
-    private _mapPath(mountPath: string): string {
-        const parts = mountPath.split('/').filter(Boolean);
-        const encParts = parts.map(p => this._encodeName(p));
-        return tpath.join(this._options.baseDir, ...encParts);
+    private _blockTableSize(meta: CryptFSFileMeta, fileSize: number): number {
+        return (this._numBlocks(meta, fileSize) * CryptFS.BLOCK_TABLE_ENTRY_SIZE) + CryptFS.BLOCK_OVERHEAD;
     }
 
     /**
-     * Access file/directory
-     * @param {string} path
-     * @param {number} mode
+     * AAD of the block table: file id, an index no block can have and the
+     * plaintext size, so a table only opens for the size it was written for.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize
+     * @return {Buffer}
+     * @private
      */
-    public async access(path: string, mode: number): Promise<void> {
-        //const dpath = this._mapPath(path);
-        //await fs.access(dpath, mode);
+    private _blockTableAad(meta: CryptFSFileMeta, fileSize: number): Buffer {
+        const buf = Buffer.alloc(16, 0xff);
+        buf.writeBigUInt64BE(BigInt(fileSize), 8);
+
+        return Buffer.concat([meta.fileId!, buf]);
     }
 
     /**
-     * Create file
-     * @param {string} path
-     * @param {number} mode
-     * @return {number}
+     * Return the block table of a compressed file, reading it from the end
+     * of the file on first use. Must be loaded before `meta.fileSize`
+     * changes, the table is sealed for the size in the header.
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @return {CryptFSBlockTable}
+     * @private
      */
-    public async create(path: string, mode: number): Promise<number> {
-        const dpath = this._mapPath(path);
-        const flags =
-            // eslint-disable-next-line no-bitwise
-            constants.O_CREAT |
-            constants.O_TRUNC |
-            constants.O_RDWR;
+    private async _blockTable(fh: fs.FileHandle, meta: CryptFSFileMeta): Promise<CryptFSBlockTable> {
+        if (meta.blockTable !== null) {
+            return meta.blockTable;
+        }
 
-        const fh = await fs.open(dpath, flags, mode);
+        const sealedLen = this._blockTableSize(meta, meta.fileSize);
+        const {size} = await fh.stat();
+        const tableStart = size - sealedLen;
 
-        await fh.write(this._buildHeader(0), 0, CryptFS.META_SIZE, 0);
+        if (tableStart < meta.headerSize) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block table truncated on disk');
+        }
 
-        const vfd = this._handler.allocHandle({
-            fh: fh,
-            path: path,
-            realPath: dpath,
-            flags: flags
-        });
+        const sealed = Buffer.alloc(sealedLen);
+        await fh.read(sealed, 0, sealedLen, tableStart);
 
-        // Header was just written with filesize=0 — prime the cache so the
-        // first read/write doesn't re-read it.
-        this._metaCache.set(vfd, {fileSize: 0, dirty: false});
+        let entries: Buffer;
 
-        return vfd;
+        try {
+            entries = CryptFS.openBlock(meta.blockKey, sealed, this._blockTableAad(meta, meta.fileSize));
+        } catch {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block table does not authenticate — tampered or truncated file');
+        }
+
+        const table: CryptFSBlockTable = {blocks: [], dataEnd: meta.headerSize};
+
+        for (let pos = 0; pos < entries.length; pos += CryptFS.BLOCK_TABLE_ENTRY_SIZE) {
+            const offset = Number(entries.readBigUInt64BE(pos));
+            const length = entries.readUInt32BE(pos + 8);
+
+            if (offset < meta.headerSize || offset + length > tableStart) {
+                throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block table points outside the file');
+            }
+
+            table.blocks.push({offset: offset, length: length});
+            table.dataEnd = Math.max(table.dataEnd, offset + length);
+        }
+
+        meta.blockTable = table;
+
+        return table;
     }
 
     /**
-     * statfs
-     * @param {string} _path
-     */
+     * Seal the block table of a compressed file and write it to the end of
+     * the file, after the padding of the file's policy. Blocks past the end
+     * of the file are dropped first.
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @private
+     */
+    private async _writeBlockTable(fh: fs.FileHandle, meta: CryptFSFileMeta): Promise<void> {
+        const table = meta.blockTable;
+
+        // Never loaded, so no block has moved and the table on disk is current.
+        if (table === null) {
+            return;
+        }
+
+        table.blocks.length = Math.min(table.blocks.length, this._numBlocks(meta, meta.fileSize));
+        table.dataEnd = table.blocks.reduce((end, {offset, length}) => Math.max(end, offset + length), meta.headerSize);
+
+        const entries = Buffer.alloc(table.blocks.length * CryptFS.BLOCK_TABLE_ENTRY_SIZE);
+
+        table.blocks.forEach(({offset, length}, block) => {
+            entries.writeBigUInt64BE(BigInt(offset), block * CryptFS.BLOCK_TABLE_ENTRY_SIZE);
+            entries.writeUInt32BE(length, (block * CryptFS.BLOCK_TABLE_ENTRY_SIZE) + 8);
+        });
+
+        const sealed = CryptFS.sealBlock(meta.blockKey, entries, this._blockTableAad(meta, meta.fileSize));
+        const target = this._paddedSize(meta, meta.fileSize);
+        const tableStart = target - sealed.length;
+        const {size} = await fh.stat();
+
+        // What lies between the data and the table (old tables, moved
+        // blocks) is ciphertext already and stays.
+        for (let pos = Math.max(table.dataEnd, size); pos < tableStart; pos += CryptFS.PADDING_CHUNK_SIZE) {
+            const chunk = crypto.randomBytes(Math.min(CryptFS.PADDING_CHUNK_SIZE, tableStart - pos));
+            // eslint-disable-next-line no-await-in-loop
+            await fh.write(chunk, 0, chunk.length, pos);
+        }
+
+        await fh.write(sealed, 0, sealed.length, tableStart);
+
+        if (size > target) {
+            await fh.truncate(target);
+        }
+    }
+
+    /**
+     * Compress a plaintext block with the file's codec. A block that does
+     * not get smaller is stored as it is and told apart by its full length.
+     * @param {CryptFSFileMeta} meta
+     * @param {Buffer} plain
+     * @return {Buffer}
+     * @private
+     */
+    private _compressBlock(meta: CryptFSFileMeta, plain: Buffer): Buffer {
+        const packed = meta.compression === 'brotli'
+            ? zlib.brotliCompressSync(plain, {
+                params: {
+                    [zlib.constants.BROTLI_PARAM_QUALITY]: CryptFS.BROTLI_QUALITY,
+                    [zlib.constants.BROTLI_PARAM_SIZE_HINT]: plain.length
+                }
+            })
+            : zlib.deflateRawSync(plain);
+
+        return packed.length < plain.length ? packed : plain;
+    }
+
+    /**
+     * Decompress a block written by `_compressBlock()`
+     * @param {CryptFSFileMeta} meta
+     * @param {Buffer} payload
+     * @param {number} plainLen Plaintext length of the block
+     * @return {Buffer}
+     * @private
+     */
+    private _decompressBlock(meta: CryptFSFileMeta, payload: Buffer, plainLen: number): Buffer {
+        if (payload.length === plainLen) {
+            return payload;
+        }
+
+        let plain: Buffer;
+
+        try {
+            plain = meta.compression === 'brotli'
+                ? zlib.brotliDecompressSync(payload, {maxOutputLength: plainLen})
+                : zlib.inflateRawSync(payload, {maxOutputLength: plainLen});
+        } catch {
+            plain = Buffer.alloc(0);
+        }
+
+        if (plain.length !== plainLen) {
+            throw new ErrnoFuseCb(Fuse.EIO, `CryptFS block does not decompress to ${plainLen} bytes`);
+        }
+
+        return plain;
+    }
+
+    /**
+     * Read and decrypt one block, in either layout
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} blockIndex
+     * @param {number} fileSize Plaintext size of the file the block was written for
+     * @return {Buffer}
+     * @private
+     */
+    private async _readBlock(fh: fs.FileHandle, meta: CryptFSFileMeta, blockIndex: number, fileSize: number): Promise<Buffer> {
+        const plainLen = this._plainLenOfBlock(meta, blockIndex, fileSize);
+        let position = this._blockDiskOffset(meta, blockIndex);
+        let length = plainLen + CryptFS.BLOCK_OVERHEAD;
+
+        if (meta.compression !== 'none') {
+            ({offset: position, length} = (await this._blockTable(fh, meta)).blocks[blockIndex]);
+        }
+
+        const onDisk = Buffer.alloc(length);
+        const {bytesRead} = await fh.read(onDisk, 0, length, position);
+
+        if (bytesRead < length) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block truncated on disk');
+        }
+
+        const plain = this._decryptBlock(meta, blockIndex, onDisk, fileSize);
+
+        return meta.compression === 'none' ? plain : this._decompressBlock(meta, plain, plainLen);
+    }
+
+    /**
+     * Encrypt and write one block, in either layout. A compressed block is
+     * written over its old place if it fits or was the last one in the
+     * data, otherwise behind the data.
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} blockIndex
+     * @param {Buffer} plain
+     * @param {number} fileSize Plaintext size of the file after this write
+     * @private
+     */
+    private async _writeBlock(fh: fs.FileHandle, meta: CryptFSFileMeta, blockIndex: number, plain: Buffer, fileSize: number): Promise<void> {
+        if (meta.compression === 'none') {
+            const encrypted = this._encryptBlock(meta, blockIndex, plain, fileSize);
+            await fh.write(encrypted, 0, encrypted.length, this._blockDiskOffset(meta, blockIndex));
+            return;
+        }
+
+        const table = await this._blockTable(fh, meta);
+        const encrypted = this._encryptBlock(meta, blockIndex, this._compressBlock(meta, plain), fileSize);
+        const old = table.blocks[blockIndex] as CryptFSBlockTable['blocks'][number]|undefined;
+        const atEnd = old !== undefined && old.offset + old.length === table.dataEnd;
+        const position = old !== undefined && (atEnd || encrypted.length <= old.length) ? old.offset : table.dataEnd;
+
+        table.blocks[blockIndex] = {offset: position, length: encrypted.length};
+
+        if (atEnd || position === table.dataEnd) {
+            table.dataEnd = position + encrypted.length;
+        }
+
+        await fh.write(encrypted, 0, encrypted.length, position);
+    }
+
+    /**
+     * Number of plaintext blocks needed to cover `fileSize` bytes.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize
+     * @return {number}
+     * @private
+     */
+    private _numBlocks(meta: CryptFSFileMeta, fileSize: number): number {
+        if (fileSize <= 0) {
+            return 0;
+        }
+        return Math.ceil(fileSize / meta.blockSize);
+    }
+
+    /**
+     * Plaintext length stored in block `blockIndex`. Full blocks return
+     * `blockSize`; the trailing block returns the remainder.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} blockIndex
+     * @param {number} fileSize
+     * @return {number}
+     * @private
+     */
+    private _plainLenOfBlock(meta: CryptFSFileMeta, blockIndex: number, fileSize: number): number {
+        const numBlocks = this._numBlocks(meta, fileSize);
+        if (blockIndex >= numBlocks) {
+            return 0;
+        }
+        if (blockIndex === numBlocks - 1) {
+            return fileSize - (blockIndex * meta.blockSize);
+        }
+        return meta.blockSize;
+    }
+
+    /**
+     * Byte offset on disk where block `blockIndex` starts.
+     * Each preceding block contributes `blockSize + BLOCK_OVERHEAD` bytes.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} blockIndex
+     * @return {number}
+     * @private
+     */
+    private _blockDiskOffset(meta: CryptFSFileMeta, blockIndex: number): number {
+        return meta.headerSize + (blockIndex * (meta.blockSize + CryptFS.BLOCK_OVERHEAD));
+    }
+
+    /**
+     * Whether blocks skipped while growing a file may stay holes
+     * @param {CryptFSFileMeta} meta
+     * @return {boolean}
+     * @private
+     */
+    private _mayHole(meta: CryptFSFileMeta): boolean {
+        return this._options.sparse && meta.version >= 8 && meta.compression === 'none';
+    }
+
+    /**
+     * Cut the padding off behind the blocks of a file before it grows with
+     * holes, which must be all zero on disk
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize Plaintext size the blocks on disk are written for
+     * @private
+     */
+    private async _dropPadding(fh: fs.FileHandle, meta: CryptFSFileMeta, fileSize: number): Promise<void> {
+        if (meta.padding !== 'none') {
+            await fh.truncate(this._physicalSize(meta, fileSize));
+        }
+    }
+
+    /**
+     * Total physical size on disk for a file with the given plaintext size.
+     * @param {CryptFSFileMeta} meta
+     * @param {number} fileSize
+     * @return {number}
+     * @private
+     */
+    private _physicalSize(meta: CryptFSFileMeta, fileSize: number): number {
+        const numBlocks = this._numBlocks(meta, fileSize);
+        if (numBlocks === 0) {
+            return meta.headerSize;
+        }
+        const fullBlocks = numBlocks - 1;
+        const lastPlain = fileSize - (fullBlocks * meta.blockSize);
+        return meta.headerSize
+            + (fullBlocks * (meta.blockSize + CryptFS.BLOCK_OVERHEAD))
+            + lastPlain + CryptFS.BLOCK_OVERHEAD;
+    }
+
+    /**
+     * Encode a name (file or folder name) for a directory. Deterministic
+     * within the directory so lookups work, SIV style: the IV is an HMAC of
+     * directory IV and name, the name is encrypted with AES-CTR under it.
+     * Equal names in different directories encrypt differently and a
+     * repeated IV only ever repeats for the very same name.
+     * @param {string} name
+     * @param {Buffer|null} dirIv Directory IV, null for a legacy directory
+     * @return {string}
+     * @private
+     */
+    private _encodeName(name: string, dirIv: Buffer|null): string {
+        if (dirIv === null) {
+            return this._encodeLegacyName(name);
+        }
+
+        const plain = Buffer.from(name, 'utf8');
+        const siv = this._nameSiv(dirIv, plain);
+        const cipher = crypto.createCipheriv('aes-256-ctr', this._nameEncKey, siv);
+
+        return Buffer.concat([siv, cipher.update(plain), cipher.final()]).toString('base64url');
+    }
+
+    /**
+     * Decode a name (file or folder name) of a directory. Throws if the
+     * name was not encoded with this key and directory.
+     * @param {string} encName
+     * @param {Buffer|null} dirIv Directory IV, null for a legacy directory
+     * @return {string}
+     * @private
+     */
+    private _decodeName(encName: string, dirIv: Buffer|null): string {
+        if (dirIv !== null) {
+            const buf = Buffer.from(encName, 'base64url');
+
+            if (buf.length > CryptFS.NAME_SIV_SIZE && buf.toString('base64url') === encName) {
+                const siv = buf.subarray(0, CryptFS.NAME_SIV_SIZE);
+                const decipher = crypto.createDecipheriv('aes-256-ctr', this._nameEncKey, siv);
+                const plain = Buffer.concat([decipher.update(buf.subarray(CryptFS.NAME_SIV_SIZE)), decipher.final()]);
+
+                if (crypto.timingSafeEqual(siv, this._nameSiv(dirIv, plain))) {
+                    return plain.toString('utf8');
+                }
+            }
+
+            // Entries of an interrupted upgrade() still carry legacy names.
+        }
+
+        return this._decodeLegacyName(encName);
+    }
+
+    /**
+     * Synthetic IV of a name
+     * @param {Buffer} dirIv
+     * @param {Buffer} plain
+     * @return {Buffer}
+     * @private
+     */
+    private _nameSiv(dirIv: Buffer, plain: Buffer): Buffer {
+        const hmac = crypto.createHmac('sha256', this._nameMacKey);
+        hmac.update(dirIv);
+        hmac.update(plain);
+
+        return hmac.digest().subarray(0, CryptFS.NAME_SIV_SIZE);
+    }
+
+    /**
+     * Legacy name encoding: AES-256-GCM with a fixed all-zero IV. Only
+     * used for directories without IV file (older releases).
+     * @param {string} name
+     * @return {string}
+     * @private
+     */
+    private _encodeLegacyName(name: string): string {
+        const cipher = crypto.createCipheriv('aes-256-gcm', this._options.encryptionKey, Buffer.alloc(12,0));
+        const encrypted = Buffer.concat([cipher.update(Buffer.from(name,'utf8')), cipher.final()]);
+        const tag = cipher.getAuthTag();
+
+        return Buffer.concat([tag, encrypted])
+        .toString('base64')
+        .replace(/\+/gu, '-')
+        .replace(/\//gu, '_')
+        .replace(/[=]+$/u,'');
+    }
+
+    /**
+     * Decode a legacy name, see `_encodeLegacyName()`
+     * @param {string} encName
+     * @return {string}
+     * @private
+     */
+    private _decodeLegacyName(encName: string): string {
+        const b64 = encName.replace(/-/gu, '+').replace(/_/gu, '/');
+        const buf = Buffer.from(b64, 'base64');
+        const tag = buf.subarray(0,16);
+        const encrypted = buf.subarray(16);
+
+        const decipher = crypto.createDecipheriv('aes-256-gcm', this._options.encryptionKey, Buffer.alloc(12,0));
+        decipher.setAuthTag(tag);
+
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    }
+
+    /**
+     * Encrypt a symlink target with AES-256-GCM and a random IV
+     * @param {string} target
+     * @return {string} [12 IV][ct][16 tag] as base64url
+     * @private
+     */
+    private _encryptLinkTarget(target: string): string {
+        const iv = crypto.randomBytes(CryptFS.IV_SIZE);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this._linkKey, iv);
+        const ct = Buffer.concat([cipher.update(Buffer.from(target, 'utf8')), cipher.final()]);
+
+        return Buffer.concat([iv, ct, cipher.getAuthTag()]).toString('base64url');
+    }
+
+    /**
+     * Decrypt a symlink target written by `_encryptLinkTarget()`
+     * @param {string} onDisk
+     * @return {string|null} null if the target is not in this format
+     * @private
+     */
+    private _decryptCurrentLinkTarget(onDisk: string): string|null {
+        const buf = Buffer.from(onDisk, 'base64url');
+
+        if (buf.length < CryptFS.BLOCK_OVERHEAD) {
+            return null;
+        }
+
+        try {
+            const decipher = crypto.createDecipheriv('aes-256-gcm', this._linkKey, buf.subarray(0, CryptFS.IV_SIZE));
+            decipher.setAuthTag(buf.subarray(buf.length - CryptFS.TAG_SIZE));
+
+            return Buffer.concat([
+                decipher.update(buf.subarray(CryptFS.IV_SIZE, buf.length - CryptFS.TAG_SIZE)),
+                decipher.final()
+            ]).toString('utf8');
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Decrypt a symlink target, falling back to the legacy name encoding
+     * older releases used for targets
+     * @param {string} onDisk
+     * @return {string}
+     * @private
+     */
+    private _decryptLinkTarget(onDisk: string): string {
+        return this._decryptCurrentLinkTarget(onDisk) ?? this._decodeLegacyName(onDisk);
+    }
+
+    /**
+     * IV of an on-disk directory, read from its IV file and cached
+     * @param {string} dirPath
+     * @return {Buffer|null} null for a legacy directory without IV file
+     * @private
+     */
+    private async _dirIv(dirPath: string): Promise<Buffer|null> {
+        const cached = this._dirIvCache.get(dirPath);
+
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let iv: Buffer|null = null;
+
+        try {
+            iv = await fs.readFile(tpath.join(dirPath, CryptFS.DIRIV_FILENAME));
+        } catch (e) {
+            if (!ErrorUtils.isFsError(e) || e.code !== 'ENOENT') {
+                throw e;
+            }
+
+            // Only remember "legacy" for directories that exist; a missing
+            // directory may still be created.
+            await fs.stat(dirPath);
+        }
+
+        if (iv !== null && iv.length !== CryptFS.DIRIV_SIZE) {
+            throw new ErrnoFuseCb(Fuse.EIO, `CryptFS directory IV file is corrupt: ${dirPath}`);
+        }
+
+        this._dirIvCache.set(dirPath, iv);
+
+        return iv;
+    }
+
+    /**
+     * Write a fresh IV file into an on-disk directory
+     * @param {string} dirPath
+     * @return {Buffer}
+     * @private
+     */
+    private async _createDirIv(dirPath: string): Promise<Buffer> {
+        const iv = crypto.randomBytes(CryptFS.DIRIV_SIZE);
+
+        await fs.writeFile(tpath.join(dirPath, CryptFS.DIRIV_FILENAME), iv, {flag: 'wx', mode: 0o444});
+        this._dirIvCache.set(dirPath, iv);
+
+        return iv;
+    }
+
+    /**
+     * Drop the cached IVs of an on-disk directory and everything below it
+     * @param {string} dirPath
+     * @private
+     */
+    private _forgetDirIvs(dirPath: string): void {
+        const prefix = `${dirPath}${tpath.sep}`;
+
+        for (const key of [...this._dirIvCache.keys()]) {
+            if (key === dirPath || key.startsWith(prefix)) {
+                this._dirIvCache.delete(key);
+            }
+        }
+    }
+
+    /**
+     * On-disk name of an encrypted name: the name itself, or its hash if it
+     * is too long for the backing filesystem
+     * @param {string} encName
+     * @return {string}
+     * @private
+     */
+    private _diskName(encName: string): string {
+        if (encName.length <= CryptFS.MAX_NAME_LENGTH) {
+            return encName;
+        }
+
+        const hash = crypto.createHash('sha256').update(encName).digest('base64url');
+
+        return `${CryptFS.LONGNAME_PREFIX}${hash}`;
+    }
+
+    /**
+     * Is an on-disk name a hashed long name
+     * @param {string} diskName
+     * @return {boolean}
+     * @private
+     */
+    private _isLongName(diskName: string): boolean {
+        return diskName.startsWith(CryptFS.LONGNAME_PREFIX) && !diskName.endsWith(CryptFS.LONGNAME_SIDECAR_SUFFIX);
+    }
+
+    /**
+     * Write the sidecar holding the full encrypted name if the last
+     * component of a path is a long name. Called before the entry itself is
+     * created, so an interruption leaves an orphaned sidecar rather than an
+     * entry without name.
+     * @param {string} mountPath
+     * @param {string} dpath On-disk path of mountPath
+     * @private
+     */
+    private async _writeLongName(mountPath: string, dpath: string): Promise<void> {
+        if (!this._isLongName(tpath.basename(dpath))) {
+            return;
+        }
+
+        const dirIv = await this._dirIv(tpath.dirname(dpath));
+        const encName = this._encodeName(tpath.posix.basename(mountPath), dirIv);
+
+        await fs.writeFile(`${dpath}${CryptFS.LONGNAME_SIDECAR_SUFFIX}`, encName);
+    }
+
+    /**
+     * Remove the sidecar of a long name whose entry is gone
+     * @param {string} dpath
+     * @private
+     */
+    private async _removeLongName(dpath: string): Promise<void> {
+        if (this._isLongName(tpath.basename(dpath))) {
+            await fs.rm(`${dpath}${CryptFS.LONGNAME_SIDECAR_SUFFIX}`, {force: true});
+        }
+    }
+
+    /**
+     * AAD that binds a metadata record to its entry: the IV of its directory
+     * (empty for a legacy directory) and its on-disk name. A record copied or
+     * swapped onto another entry does not authenticate.
+     * @param {string} dpath On-disk path of the entry
+     * @param {Buffer|null} dirIv
+     * @return {Buffer}
+     * @private
+     */
+    private static _metaRecordAad(dpath: string, dirIv: Buffer|null): Buffer {
+        const iv = dirIv ?? Buffer.alloc(0);
+
+        return Buffer.concat([Buffer.from([iv.length]), iv, Buffer.from(tpath.basename(dpath), 'utf8')]);
+    }
+
+    /**
+     * Read the metadata record of an entry
+     * @param {string} dpath On-disk path of the entry
+     * @param {Buffer|null} [dirIv] IV of the entry's directory, looked up if not given
+     * @return {CryptFSMetaRecord|null} null if the entry has no record
+     * @private
+     */
+    private async _readMetaRecord(dpath: string, dirIv?: Buffer|null): Promise<CryptFSMetaRecord|null> {
+        let raw: Buffer;
+
+        try {
+            raw = await fs.readFile(`${dpath}${CryptFS.META_SUFFIX}`);
+        } catch (e) {
+            if (ErrorUtils.isFsError(e) && e.code === 'ENOENT') {
+                return null;
+            }
+
+            throw e;
+        }
+
+        const aad = CryptFS._metaRecordAad(dpath, dirIv === undefined ? await this._dirIv(tpath.dirname(dpath)) : dirIv);
+
+        try {
+            const decipher = crypto.createDecipheriv(
+                'aes-256-gcm',
+                this._metaRecordKey,
+                raw.subarray(0, CryptFS.IV_SIZE)
+            );
+            decipher.setAAD(aad);
+            decipher.setAuthTag(raw.subarray(raw.length - CryptFS.TAG_SIZE));
+
+            const plain = Buffer.concat([
+                decipher.update(raw.subarray(CryptFS.IV_SIZE, raw.length - CryptFS.TAG_SIZE)),
+                decipher.final()
+            ]);
+
+            return JSON.parse(plain.toString('utf8')) as CryptFSMetaRecord;
+        } catch {
+            throw new ErrnoFuseCb(Fuse.EIO, `CryptFS metadata record does not authenticate: ${dpath}`);
+        }
+    }
+
+    /**
+     * Write the metadata record of an entry
+     * @param {string} dpath On-disk path of the entry
+     * @param {CryptFSMetaRecord} record
+     * @param {Buffer|null} [dirIv] IV of the entry's directory, looked up if not given
+     * @private
+     */
+    private async _writeMetaRecord(dpath: string, record: CryptFSMetaRecord, dirIv?: Buffer|null): Promise<void> {
+        const aad = CryptFS._metaRecordAad(dpath, dirIv === undefined ? await this._dirIv(tpath.dirname(dpath)) : dirIv);
+        const iv = crypto.randomBytes(CryptFS.IV_SIZE);
+        const cipher = crypto.createCipheriv('aes-256-gcm', this._metaRecordKey, iv);
+
+        cipher.setAAD(aad);
+
+        const ct = Buffer.concat([cipher.update(JSON.stringify(record), 'utf8'), cipher.final()]);
+
+        await fs.writeFile(
+            `${dpath}${CryptFS.META_SUFFIX}`,
+            Buffer.concat([iv, ct, cipher.getAuthTag()]),
+            {mode: 0o600}
+        );
+    }
+
+    /**
+     * Record of an entry, taken from its inode if it has none yet (entries
+     * created before metadata privacy was turned on)
+     * @param {string} dpath
+     * @return {CryptFSMetaRecord}
+     * @private
+     */
+    private async _loadMetaRecord(dpath: string): Promise<CryptFSMetaRecord> {
+        const record = await this._readMetaRecord(dpath);
+
+        if (record !== null) {
+            return record;
+        }
+
+        const st = await fs.lstat(dpath);
+
+        return {
+            // eslint-disable-next-line no-bitwise
+            mode: st.mode & 0o7777,
+            uid: st.uid,
+            gid: st.gid,
+            atimeMs: st.atimeMs,
+            mtimeMs: st.mtimeMs,
+            ctimeMs: st.ctimeMs
+        };
+    }
+
+    /**
+     * Give a new entry its metadata record and neutralise its inode
+     * (metadata privacy only)
+     * @param {string} dpath
+     * @param {number} mode Requested permission bits
+     * @private
+     */
+    private async _initMetaRecord(dpath: string, mode: number): Promise<void> {
+        if (!this._options.metadataPrivacy) {
+            return;
+        }
+
+        const st = await fs.lstat(dpath);
+        const now = Date.now();
+
+        await this._writeMetaRecord(dpath, {
+            // eslint-disable-next-line no-bitwise
+            mode: mode & 0o7777,
+            uid: st.uid,
+            gid: st.gid,
+            atimeMs: now,
+            mtimeMs: now,
+            ctimeMs: now
+        });
+        await this._neutralizeInode(dpath);
+    }
+
+    /**
+     * Set the neutral mode and timestamps on an on-disk inode. The ctime
+     * cannot be set and keeps the time of the last change.
+     * @param {string} dpath
+     * @private
+     */
+    private async _neutralizeInode(dpath: string): Promise<void> {
+        const st = await fs.lstat(dpath);
+
+        if (st.isSymbolicLink()) {
+            await fs.lutimes(dpath, CryptFS.NEUTRAL_TIME, CryptFS.NEUTRAL_TIME);
+            return;
+        }
+
+        await chmod(dpath, st.isDirectory() ? CryptFS.NEUTRAL_DIR_MODE : CryptFS.NEUTRAL_FILE_MODE);
+        await utimes(dpath, CryptFS.NEUTRAL_TIME, CryptFS.NEUTRAL_TIME);
+    }
+
+    /**
+     * Record a content change of an entry: a new mtime in its record and
+     * neutral timestamps on the inode (metadata privacy only). Used for
+     * files after writes and for directories after their entries changed.
+     * @param {string} dpath
+     * @private
+     */
+    private async _touchMetaRecord(dpath: string): Promise<void> {
+        if (!this._options.metadataPrivacy) {
+            return;
+        }
+
+        // The storage root has no record, it only gets neutral timestamps.
+        if (dpath !== this._options.baseDir) {
+            const record = await this._loadMetaRecord(dpath);
+            const now = Date.now();
+
+            await this._writeMetaRecord(dpath, {...record, mtimeMs: now, ctimeMs: now});
+        }
+
+        await utimes(dpath, CryptFS.NEUTRAL_TIME, CryptFS.NEUTRAL_TIME);
+    }
+
+    /**
+     * Move the metadata record along with its entry. The record is bound to
+     * the entry's name, so it is sealed again for the new one.
+     * @param {string} src
+     * @param {string} dest
+     * @param {Buffer|null} [srcDirIv] IV the record is bound to, looked up if not given
+     * @param {Buffer|null} [destDirIv] IV to bind it to, looked up if not given
+     * @private
+     */
+    private async _renameMetaRecord(src: string, dest: string, srcDirIv?: Buffer|null, destDirIv?: Buffer|null): Promise<void> {
+        const record = await this._readMetaRecord(src, srcDirIv);
+
+        // The source had no record; one left by a replaced target is stale.
+        if (record === null) {
+            await this._removeMetaRecord(dest);
+            return;
+        }
+
+        await this._writeMetaRecord(dest, record, destDirIv);
+        await this._removeMetaRecord(src);
+    }
+
+    /**
+     * Remove the metadata record of an entry that is gone
+     * @param {string} dpath
+     * @private
+     */
+    private async _removeMetaRecord(dpath: string): Promise<void> {
+        await fs.rm(`${dpath}${CryptFS.META_SUFFIX}`, {force: true});
+    }
+
+    /**
+     * Show the values of an entry's metadata record in place of its inode's
+     * (metadata privacy only)
+     * @param {string} dpath
+     * @param {Stats} st Stats to patch
+     * @return {Stats}
+     * @private
+     */
+    private async _applyMetaRecord(dpath: string, st: Stats): Promise<Stats> {
+        if (!this._options.metadataPrivacy) {
+            return st;
+        }
+
+        // eslint-disable-next-line no-bitwise
+        if ((st.mode & constants.S_IFMT) === constants.S_IFDIR) {
+            st.size = CryptFS.NEUTRAL_DIR_SIZE;
+        }
+
+        const record = dpath === this._options.baseDir ? null : await this._readMetaRecord(dpath);
+
+        if (record === null) {
+            return st;
+        }
+
+        // eslint-disable-next-line no-bitwise
+        st.mode = (st.mode & constants.S_IFMT) | record.mode;
+        st.uid = record.uid;
+        st.gid = record.gid;
+        st.atime = new Date(record.atimeMs);
+        st.mtime = new Date(record.mtimeMs);
+        st.ctime = new Date(record.ctimeMs);
+
+        return st;
+    }
+
+    /**
+     * List an on-disk directory and decode the names. Internal files
+     * (vault config, directory IV, long name sidecars, metadata records,
+     * upgrade leftovers)
+     * are left out.
+     * @param {string} fullPath
+     * @return {CryptFSDirEntry[]}
+     * @private
+     */
+    private async _listDir(fullPath: string): Promise<CryptFSDirEntry[]> {
+        const isRoot = fullPath === this._options.baseDir;
+        const dirIv = await this._dirIv(fullPath);
+        const entries: CryptFSDirEntry[] = [];
+
+        for (const dirent of await fs.readdir(fullPath, {withFileTypes: true})) {
+            if (CryptFS._isInternalName(dirent.name, isRoot)) {
+                continue;
+            }
+
+            entries.push({
+                dirent: dirent,
+                // eslint-disable-next-line no-await-in-loop
+                name: await this._decodeDiskName(fullPath, dirent.name, dirIv)
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Whether an on-disk name is one of the internal files `_listDir()`
+     * leaves out
+     * @param {string} fn
+     * @param {boolean} isRoot The name is in the storage root
+     * @return {boolean}
+     * @private
+     */
+    private static _isInternalName(fn: string, isRoot: boolean): boolean {
+        return (isRoot && (fn === CryptVault.CONFIG_FILENAME || fn === CryptFS.ROTATION_JOURNAL_FILENAME)) ||
+            fn === CryptFS.DIRIV_FILENAME ||
+            fn.endsWith(CryptFS.UPGRADE_TMP_SUFFIX) ||
+            fn.endsWith(CryptFS.META_SUFFIX) ||
+            (fn.startsWith(CryptFS.LONGNAME_PREFIX) && fn.endsWith(CryptFS.LONGNAME_SIDECAR_SUFFIX));
+    }
+
+    /**
+     * Decode an on-disk name, reading the sidecar of a long name
+     * @param {string} fullPath On-disk directory of the entry
+     * @param {string} fn
+     * @param {Buffer|null} dirIv
+     * @return {string|null} null if the name can not be decoded
+     * @private
+     */
+    private async _decodeDiskName(fullPath: string, fn: string, dirIv: Buffer|null): Promise<string|null> {
+        try {
+            const encName = this._isLongName(fn)
+                ? await fs.readFile(tpath.join(fullPath, `${fn}${CryptFS.LONGNAME_SIDECAR_SUFFIX}`), 'utf8')
+                : fn;
+
+            return this._decodeName(encName, dirIv);
+        } catch {
+            // undecodable: foreign file, wrong key or missing sidecar
+            return null;
+        }
+    }
+
+    /**
+     * Map a path and use encode name. An escaped name only maps to an entry
+     * `readdir()` escapes, never to an internal file or a decodable entry.
+     * @param {string} mountPath
+     * @return {string}
+     * @private
+     */
+    private async _mapPath(mountPath: string): Promise<string> {
+        let dpath = this._options.baseDir;
+
+        for (const part of mountPath.split('/').filter(Boolean)) {
+            if (this._options.undecodableNames === 'escape' && part.startsWith(CryptFS.RAW_NAME_PREFIX)) {
+                const rawName = part.slice(CryptFS.RAW_NAME_PREFIX.length);
+
+                if (
+                    rawName === '' ||
+                    rawName === '.' ||
+                    rawName === '..' ||
+                    CryptFS._isInternalName(rawName, dpath === this._options.baseDir) ||
+                    // eslint-disable-next-line no-await-in-loop
+                    await this._decodeDiskName(dpath, rawName, await this._dirIv(dpath)) !== null
+                ) {
+                    throw new ErrnoFuseCb(Fuse.ENOENT, `Invalid escaped name: ${part}`);
+                }
+
+                dpath = tpath.join(dpath, rawName);
+                continue;
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            dpath = tpath.join(dpath, this._diskName(this._encodeName(part, await this._dirIv(dpath))));
+        }
+
+        return dpath;
+    }
+
+    /**
+     * Map the path of an entry that is about to be created. Escaped names
+     * are reserved for undecodable entries, creating one would store the
+     * name in the clear.
+     * @param {string} mountPath
+     * @return {string}
+     * @private
+     */
+    private async _mapNewPath(mountPath: string): Promise<string> {
+        if (tpath.posix.basename(mountPath).startsWith(CryptFS.RAW_NAME_PREFIX)) {
+            throw new ErrnoFuseCb(Fuse.EPERM, `Name is reserved for undecodable entries: ${mountPath}`);
+        }
+
+        return this._mapPath(mountPath);
+    }
+
+    /**
+     * Access file/directory
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async access(path: string, mode: number): Promise<void> {
+        //const dpath = this._mapPath(path);
+        //await fs.access(dpath, mode);
+    }
+
+    /**
+     * Create file
+     * @param {string} path
+     * @param {number} mode
+     * @return {number}
+     */
+    public async create(path: string, mode: number): Promise<number> {
+        const dpath = await this._mapNewPath(path);
+        const flags =
+            // eslint-disable-next-line no-bitwise
+            constants.O_CREAT |
+            constants.O_TRUNC |
+            constants.O_RDWR;
+
+        await this._writeLongName(path, dpath);
+
+        const fh = await fs.open(dpath, flags, mode);
+        const meta = this._newFileMeta();
+        let key: string;
+
+        try {
+            await this._writeFileSize(fh, meta);
+            key = CryptFS._openFileKey(await fh.stat());
+        } catch (e) {
+            await fh.close();
+            throw e;
+        }
+
+        const vfd = this._handler.allocHandle({
+            fh: fh,
+            path: path,
+            realPath: dpath,
+            flags: flags
+        });
+
+        // Header was just written with filesize=0 — prime the cache so the
+        // first read/write doesn't re-read it.
+        this._attachFileMeta(vfd, key, meta, true);
+
+        await this._initMetaRecord(dpath, mode);
+        await this._touchMetaRecord(tpath.dirname(dpath));
+
+        return vfd;
+    }
+
+    /**
+     * statfs
+     * @param {string} _path
+     */
     public async statfs(_path: string): Promise<StatFs> {
         return {
             bsize: 4096,
@@ -422,464 +2312,1501 @@ export class CryptFS implements VirtualFSEntry {
     }
 
     /**
-     * Get attr
+     * Get attr
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async getattr(path: string): Promise<Stats> {
+        const fullPath = path === '/' ? this._options.baseDir : await this._mapPath(path);
+
+        const tstat = await fs.lstat(fullPath);
+
+        if (tstat.isDirectory()) {
+            return this._applyMetaRecord(fullPath, {
+                atime: tstat.atime,
+                mtime: tstat.mtime,
+                ctime: tstat.ctime,
+                size: tstat.size,
+                mode: tstat.mode,
+                uid: tstat.uid,
+                gid: tstat.gid
+            } as any);
+        }
+
+        // symlinks ----------------------------------------------------------------------------------------------------
+
+        if (tstat.isSymbolicLink()) {
+            let targetLen = 0;
+            try {
+                const onDisk = await fs.readlink(fullPath);
+                targetLen = this._decryptLinkTarget(onDisk.toString()).length;
+            } catch {
+                // unreadable target — keep size 0 so ls shows something sane
+            }
+
+            // Return the live lstat Stats with the size patched to the
+            // decoded target length. Returning a plain object would lose
+            // the helper methods (isSymbolicLink etc.) consumers rely on.
+            (tstat as Stats & {size: number;}).size = targetLen;
+
+            return this._applyMetaRecord(fullPath, tstat);
+        }
+
+        // files -------------------------------------------------------------------------------------------------------
+
+        // An open file may have grown past the size its header still has.
+        const open = this._openFiles.get(CryptFS._openFileKey(tstat));
+        let fileSize = open?.meta.fileSize ?? 0;
+
+        if (open === undefined && tstat.size >= CryptFS.META_SIZE) {
+            const fh = await fs.open(fullPath, 'r');
+            try {
+                fileSize = (await this._readHeader(fh)).fileSize;
+            } finally {
+                await fh.close();
+            }
+        }
+
+        return this._applyMetaRecord(fullPath, {
+            atime: tstat.atime,
+            mtime: tstat.mtime,
+            ctime: tstat.ctime,
+            size: fileSize,
+            mode: tstat.mode,
+            uid: tstat.uid,
+            gid: tstat.gid
+        } as any);
+    }
+
+    /**
+     * Set attr
+     * @param {string} path
+     * @param {Partial<Stats>} attr
+     */
+    public async setattr(path: string, attr: Partial<Stats>): Promise<void> {
+        const isRoot = path === '/';
+        const dpath = isRoot ? this._options.baseDir : await this._mapPath(path);
+
+        let st: Stats;
+        try {
+            st = await stat(dpath);
+        } catch {
+            throw new ErrnoFuseCb(Fuse.ENOENT, 'File not found');
+        }
+
+        if (isRoot && attr.size !== undefined) {
+            return;
+        }
+
+        if (this._options.metadataPrivacy && !isRoot) {
+            await this._setattrMetaRecord(dpath, attr);
+            return;
+        }
+
+        if (attr.mode !== undefined) {
+            await chmod(dpath, attr.mode);
+        }
+
+        if (attr.size !== undefined) {
+            await truncate(dpath, attr.size);
+        }
+
+        if (attr.uid !== undefined || attr.gid !== undefined) {
+            await chown(
+                dpath,
+                attr.uid ?? st.uid,
+                attr.gid ?? st.gid
+            );
+        }
+
+        if (attr.atime !== undefined || attr.mtime !== undefined) {
+            await utimes(
+                dpath,
+                attr.atime ?? st.atime,
+                attr.mtime ?? st.mtime
+            );
+        }
+    }
+
+    /**
+     * Set attr with metadata privacy: everything but the size goes to the
+     * metadata record, the inode keeps its neutral values
+     * @param {string} dpath
+     * @param {Partial<Stats>} attr
+     * @private
+     */
+    private async _setattrMetaRecord(dpath: string, attr: Partial<Stats>): Promise<void> {
+        const record = await this._loadMetaRecord(dpath);
+
+        if (attr.size !== undefined) {
+            await this._resizePath(dpath, attr.size);
+            record.mtimeMs = Date.now();
+        }
+
+        if (attr.mode !== undefined) {
+            // eslint-disable-next-line no-bitwise
+            record.mode = attr.mode & 0o7777;
+        }
+
+        record.uid = attr.uid ?? record.uid;
+        record.gid = attr.gid ?? record.gid;
+        record.atimeMs = attr.atime?.getTime() ?? record.atimeMs;
+        record.mtimeMs = attr.mtime?.getTime() ?? record.mtimeMs;
+        record.ctimeMs = Date.now();
+
+        await this._writeMetaRecord(dpath, record);
+        await this._neutralizeInode(dpath);
+    }
+
+    /**
+     * mkdir
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async mkdir(path: string, mode: number): Promise<void> {
+        const dpath = await this._mapNewPath(path);
+
+        await this._writeLongName(path, dpath);
+
+        // The owner needs write access to place the IV file, the requested
+        // mode is applied afterwards.
+        // eslint-disable-next-line no-bitwise
+        await fs.mkdir(dpath, {mode: mode | 0o700});
+
+        try {
+            await this._createDirIv(dpath);
+
+            // eslint-disable-next-line no-bitwise
+            if ((mode & 0o700) !== 0o700) {
+                await chmod(dpath, mode);
+            }
+        } catch (e) {
+            await fs.rm(dpath, {recursive: true, force: true});
+            this._forgetDirIvs(dpath);
+            throw e;
+        }
+
+        await this._initMetaRecord(dpath, mode);
+        await this._touchMetaRecord(tpath.dirname(dpath));
+    }
+
+    /**
+     * open
+     * @param {string} path
+     * @param {number} flags
+     * @return {number}
+     */
+    public async open(path: string, flags: number): Promise<number> {
+        const dpath = await this._mapPath(path);
+
+        // The header has to be read (and for partial blocks, the content
+        // too), so write-only becomes read-write; O_TRUNC would destroy the
+        // header and is applied through _resize() instead.
+        // eslint-disable-next-line no-bitwise
+        const wantsTruncate = (flags & constants.O_TRUNC) !== 0;
+        // eslint-disable-next-line no-bitwise
+        const accMode = constants.O_WRONLY | constants.O_RDWR;
+        // eslint-disable-next-line no-bitwise
+        let nativeFlags = flags & ~constants.O_TRUNC;
+
+        // eslint-disable-next-line no-bitwise
+        if ((nativeFlags & accMode) === constants.O_WRONLY) {
+            // eslint-disable-next-line no-bitwise
+            nativeFlags = (nativeFlags & ~accMode) | constants.O_RDWR;
+        }
+
+        const fh = await fs.open(dpath, nativeFlags);
+        let key: string;
+        let meta: CryptFSFileMeta & {dirty: boolean;};
+
+        try {
+            key = CryptFS._openFileKey(await fh.stat());
+            // An fd already open on the file has the newest header.
+            meta = this._openFiles.get(key)?.meta ?? {...await this._readHeader(fh), dirty: false};
+
+            if (wantsTruncate && meta.fileSize > 0) {
+                await this._resize(fh, 0, meta);
+                meta.dirty = false;
+            }
+        } catch (e) {
+            await fh.close();
+            throw e;
+        }
+
+        const vfd = this._handler.allocHandle({
+            fh: fh,
+            path: path,
+            realPath: dpath,
+            flags: flags
+        });
+
+        this._attachFileMeta(vfd, key, meta, false);
+
+        return vfd;
+    }
+
+    /**
+     * read
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     */
+    public async read(path: string, fd: number, length: number, offset: number): Promise<Buffer> {
+        const {fh} = this._handler.getHandle(fd);
+
+        if (!fh) {
+            throw new Error(`Filehandle not found: ${fd}`);
+        }
+
+        return this._readRange(fh, await this._getFileMeta(fd, fh), length, offset);
+    }
+
+    /**
+     * Read and decrypt a plaintext range of a file
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     * @private
+     */
+    private async _readRange(fh: fs.FileHandle, meta: CryptFSFileMeta, length: number, offset: number): Promise<Buffer> {
+        const fileSize = meta.fileSize;
+
+        if (offset >= fileSize) {
+            return Buffer.alloc(0);
+        }
+
+        const toReadTotal = Math.min(length, fileSize - offset);
+        const out = Buffer.alloc(toReadTotal);
+
+        const firstBlock = Math.floor(offset / meta.blockSize);
+        const lastBlock = Math.floor((offset + toReadTotal - 1) / meta.blockSize);
+
+        if (meta.compression !== 'none') {
+            for (let block = firstBlock; block <= lastBlock; block++) {
+                // eslint-disable-next-line no-await-in-loop
+                const plain = await this._readBlock(fh, meta, block, fileSize);
+                const blockPlainStart = block * meta.blockSize;
+                const sliceStart = Math.max(offset, blockPlainStart) - blockPlainStart;
+                const sliceEnd = Math.min(offset + toReadTotal, blockPlainStart + plain.length) - blockPlainStart;
+
+                plain.copy(out, blockPlainStart + sliceStart - offset, sliceStart, sliceEnd);
+            }
+
+            return out;
+        }
+
+        // Blocks are contiguous on disk, so the whole touched range is one
+        // syscall. Cipher work stays per-block (GCM = per-block IV + tag).
+        const readStart = this._blockDiskOffset(meta, firstBlock);
+        const lastBlockOnDiskLen =
+            this._plainLenOfBlock(meta, lastBlock, fileSize) + CryptFS.BLOCK_OVERHEAD;
+        const readLen = this._blockDiskOffset(meta, lastBlock) + lastBlockOnDiskLen - readStart;
+
+        const onDiskBuf = Buffer.alloc(readLen);
+        const {bytesRead} = await fh.read(onDiskBuf, 0, readLen, readStart);
+
+        if (bytesRead < readLen) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block range truncated on disk');
+        }
+
+        let done = 0;
+        let cursor = 0;
+
+        for (let block = firstBlock; block <= lastBlock; block++) {
+            const blockPlainStart = block * meta.blockSize;
+            const plainLen = this._plainLenOfBlock(meta, block, fileSize);
+            const onDiskLen = plainLen + CryptFS.BLOCK_OVERHEAD;
+
+            const plain = this._decryptBlock(
+                meta,
+                block,
+                onDiskBuf.subarray(cursor, cursor + onDiskLen),
+                fileSize
+            );
+
+            const sliceStart = Math.max(offset, blockPlainStart) - blockPlainStart;
+            const sliceEnd = Math.min(offset + toReadTotal, blockPlainStart + plainLen) - blockPlainStart;
+
+            plain.copy(out, done, sliceStart, sliceEnd);
+            done += sliceEnd - sliceStart;
+            cursor += onDiskLen;
+        }
+
+        return out;
+    }
+
+    /**
+     * read dir
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        const fullPath = await this._mapPath(path);
+        const names: string[] = [];
+
+        for (const {dirent, name} of await this._listDir(fullPath)) {
+            if (name !== null) {
+                names.push(name);
+                continue;
+            }
+
+            const diskPath = tpath.join(fullPath, dirent.name);
+
+            this._logger?.(VirtualFSLoggerLevel.warn, `CryptFS: cannot decode directory entry ${diskPath}`);
+
+            if (this._options.undecodableNames === 'fail') {
+                throw new ErrnoFuseCb(Fuse.EIO, `Undecodable directory entry: ${diskPath}`);
+            }
+
+            if (this._options.undecodableNames === 'escape') {
+                names.push(`${CryptFS.RAW_NAME_PREFIX}${dirent.name}`);
+            }
+        }
+
+        return names;
+    }
+
+    /**
+     * release
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async release(path: string, fd: number): Promise<void> {
+        const { fh, realPath } = this._handler.getHandle(fd);
+
+        if (fh) {
+            try {
+                await this._flushFileSizeIfDirty(fd, fh);
+            } finally {
+                await fh.close();
+                this._handler.freeHandle(fd);
+                this._detachFileMeta(fd);
+            }
+
+            if (this._modifiedFds.delete(fd)) {
+                await this._touchMetaRecord(realPath);
+            }
+        }
+    }
+
+    /**
+     * rename
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async rename(src: string, dest: string): Promise<void> {
+        const fullSrc = await this._mapPath(src);
+        const fullDest = await this._mapNewPath(dest);
+
+        await this._writeLongName(dest, fullDest);
+
+        try {
+            await fs.rename(fullSrc, fullDest);
+        } catch (e) {
+            // An "empty" target directory still holds its IV file.
+            if (!ErrorUtils.isFsError(e) || (e.code !== 'ENOTEMPTY' && e.code !== 'EEXIST')) {
+                throw e;
+            }
+
+            const entries = await fs.readdir(fullDest);
+
+            if (entries.length !== 1 || entries[0] !== CryptFS.DIRIV_FILENAME) {
+                throw e;
+            }
+
+            const ivPath = tpath.join(fullDest, CryptFS.DIRIV_FILENAME);
+            const iv = await fs.readFile(ivPath);
+            await fs.rm(ivPath);
+
+            try {
+                await fs.rename(fullSrc, fullDest);
+            } catch (retryErr) {
+                await fs.writeFile(ivPath, iv, {flag: 'wx', mode: 0o444});
+                throw retryErr;
+            }
+        } finally {
+            this._forgetDirIvs(fullSrc);
+            this._forgetDirIvs(fullDest);
+        }
+
+        if (fullSrc !== fullDest) {
+            await this._removeLongName(fullSrc);
+            await this._renameMetaRecord(fullSrc, fullDest);
+            await this._touchMetaRecord(tpath.dirname(fullSrc));
+
+            if (tpath.dirname(fullDest) !== tpath.dirname(fullSrc)) {
+                await this._touchMetaRecord(tpath.dirname(fullDest));
+            }
+        }
+    }
+
+    /**
+     * rmdir
      * @param {string} path
-     * @return {Stats}
      */
-    public async getattr(path: string): Promise<Stats> {
-        const fullPath = path === '/' ? this._options.baseDir : this._mapPath(path);
+    public async rmdir(path: string): Promise<void> {
+        const fullPath = await this._mapPath(path);
 
-        const tstat = await fs.lstat(fullPath);
+        try {
+            const files = (await fs.readdir(fullPath)).filter((fn) => fn !== CryptFS.DIRIV_FILENAME);
 
-        if (tstat.isDirectory()) {
-            return {
-                atime: tstat.atime,
-                mtime: tstat.mtime,
-                ctime: tstat.ctime,
-                size: tstat.size,
-                mode: tstat.mode,
-                uid: tstat.uid,
-                gid: tstat.gid
-            } as any;
+            if (files.length > 0) {
+                throw new ErrnoFuseCb(Fuse.ENOTEMPTY, 'Directory not empty');
+            }
+
+            await fs.rm(tpath.join(fullPath, CryptFS.DIRIV_FILENAME), {force: true});
+            await fs.rmdir(fullPath);
+            this._forgetDirIvs(fullPath);
+            await this._removeLongName(fullPath);
+            await this._removeMetaRecord(fullPath);
+            await this._touchMetaRecord(tpath.dirname(fullPath));
+        } catch (e) {
+            if (e instanceof ErrnoFuseCb) {
+                throw e;
+            }
+
+            if (ErrorUtils.isFsError(e)) {
+                switch (e.code) {
+                    case 'ENOENT':
+                        throw new ErrnoFuseCb(Fuse.ENOENT);
+                }
+            }
+
+            throw new ErrnoFuseCb(Fuse.EIO, 'Failed to remove directory');
         }
+    }
 
-        // symlinks ----------------------------------------------------------------------------------------------------
+    /**
+     * unlink
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        const dpath = await this._mapPath(path);
 
-        if (tstat.isSymbolicLink()) {
-            let targetLen = 0;
-            try {
-                const onDisk = await fs.readlink(fullPath);
-                targetLen = this._decodeName(onDisk.toString()).length;
-            } catch {
-                // unreadable target — keep size 0 so ls shows something sane
+        await fs.unlink(dpath);
+        await this._removeLongName(dpath);
+        await this._removeMetaRecord(dpath);
+        await this._touchMetaRecord(tpath.dirname(dpath));
+    }
+
+    /**
+     * flush — no-op; encryption + write are synchronous from the caller's view
+     * and the actual handle close happens in release().
+     * @param {string} _path
+     * @param {number} _fd
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async flush(_path: string, _fd: number): Promise<void> {
+        // no-op
+    }
+
+    /**
+     * fsync / fdatasync — flush the encrypted file's kernel buffers to disk.
+     * @param {string} _path
+     * @param {number} fd
+     * @param {boolean} datasync true = fdatasync, false = full fsync
+     */
+    public async fsync(_path: string, fd: number, datasync: boolean): Promise<void> {
+        const {fh} = this._handler.getHandle(fd);
+
+        if (!fh) {
+            throw new Error(`Filehandle not found: ${fd}`);
+        }
+
+        await this._flushFileSizeIfDirty(fd, fh);
+
+        if (datasync) {
+            await fh.datasync();
+        } else {
+            await fh.sync();
+        }
+    }
+
+    /**
+     * symlink — the on-disk symlink stores the target string encrypted
+     * with AES-256-GCM and a random IV. The kernel never resolves the
+     * on-disk target directly; readlink() decrypts it before returning.
+     * @param {string} target
+     * @param {string} linkPath
+     */
+    public async symlink(target: string, linkPath: string): Promise<void> {
+        const encodedTarget = this._encryptLinkTarget(target);
+        const dpath = await this._mapNewPath(linkPath);
+
+        await this._writeLongName(linkPath, dpath);
+        await fs.symlink(encodedTarget, dpath);
+        await this._initMetaRecord(dpath, 0o777);
+        await this._touchMetaRecord(tpath.dirname(dpath));
+    }
+
+    /**
+     * readlink — read and decrypt the symlink target.
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        const onDisk = await fs.readlink(await this._mapPath(path));
+        return this._decryptLinkTarget(onDisk.toString());
+    }
+
+    /**
+     * link — hard link two encoded names onto the same encrypted inode. The
+     * encrypted file (header + per-block IVs/tags) is shared by both names.
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async link(src: string, dest: string): Promise<void> {
+        const fullDest = await this._mapNewPath(dest);
+
+        const fullSrc = await this._mapPath(src);
+
+        await this._writeLongName(dest, fullDest);
+        await fs.link(fullSrc, fullDest);
+
+        if (this._options.metadataPrivacy) {
+            // Each name keeps its own record, starting as a copy.
+            await this._writeMetaRecord(fullDest, await this._loadMetaRecord(fullSrc));
+            await this._touchMetaRecord(tpath.dirname(fullDest));
+        }
+    }
+
+    /**
+     * mknod — only regular files (S_IFREG) are accepted. The on-disk file is
+     * created with the standard CryptFS header (filesize=0 + fresh content
+     * key) so subsequent reads return zero bytes.
+     * @param {string} path
+     * @param {number} mode
+     * @param {number} _dev
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async mknod(path: string, mode: number, _dev: number): Promise<void> {
+        // eslint-disable-next-line no-bitwise
+        const isRegular = (constants.S_IFMT & mode) === constants.S_IFREG;
+
+        if (!isRegular) {
+            throw new ErrnoFuseCb(Fuse.ENOSYS, 'CryptFS only supports regular files via mknod');
+        }
+
+        const dpath = await this._mapNewPath(path);
+        const flags =
+            // eslint-disable-next-line no-bitwise
+            constants.O_CREAT |
+            constants.O_EXCL |
+            constants.O_WRONLY;
+
+        await this._writeLongName(path, dpath);
+
+        const fh = await fs.open(dpath, flags, mode);
+
+        try {
+            await this._writeFileSize(fh, this._newFileMeta());
+        } finally {
+            await fh.close();
+        }
+
+        await this._initMetaRecord(dpath, mode);
+        await this._touchMetaRecord(tpath.dirname(dpath));
+    }
+
+    /**
+     * Shared resize implementation used by truncate() and ftruncate().
+     * Re-encrypts the boundary block(s) when shrinking lands mid-block or
+     * when extending grows past the old (possibly partial) trailing block.
+     *
+     * @param {fs.FileHandle} fh
+     * @param {number} newSize
+     * @param {CryptFSFileMeta} [knownMeta] Pre-parsed header to avoid
+     *   re-reading it (e.g. from the per-fd cache in ftruncate). Its
+     *   fileSize is updated to the new size.
+     * @private
+     */
+    private async _resize(fh: fs.FileHandle, newSize: number, knownMeta?: CryptFSFileMeta): Promise<void> {
+        const meta = knownMeta ?? await this._readHeader(fh);
+        const oldSize = meta.fileSize;
+
+        if (newSize === oldSize) {
+            return;
+        }
+
+        if (meta.compression !== 'none') {
+            // The table on disk is sealed for the old size.
+            await this._blockTable(fh, meta);
+        }
+
+        const oldNumBlocks = this._numBlocks(meta, oldSize);
+        const newNumBlocks = this._numBlocks(meta, newSize);
+
+        if (newSize < oldSize) {
+            // Shrink: re-encrypt the new last block if shrinking mid-block or
+            // if it was not the last block before (final marker, v6).
+            if (newNumBlocks > 0) {
+                const lastBlock = newNumBlocks - 1;
+                const oldPlainLen = this._plainLenOfBlock(meta, lastBlock, oldSize);
+                const newPlainLen = this._plainLenOfBlock(meta, lastBlock, newSize);
+
+                if (newPlainLen < oldPlainLen || newNumBlocks < oldNumBlocks) {
+                    const plain = await this._readBlock(fh, meta, lastBlock, oldSize);
+                    await this._writeBlock(fh, meta, lastBlock, plain.subarray(0, newPlainLen), newSize);
+                }
             }
 
-            // Return the live lstat Stats with the size patched to the
-            // decoded target length. Returning a plain object would lose
-            // the helper methods (isSymbolicLink etc.) consumers rely on.
-            (tstat as Stats & {size: number;}).size = targetLen;
+            // Cut off the old tail; _writeFileSize() pads up again if needed.
+            // A compressed file drops its blocks with the table.
+            if (meta.compression === 'none') {
+                await fh.truncate(this._physicalSize(meta, newSize));
+            }
+        } else {
+            // Extend: pad/grow the old trailing block to a full block (if it
+            // was partial) and append zero-filled blocks up to the new size.
+            // The new blocks before the last one stay holes if the file may
+            // have them.
+            const startBlock = oldNumBlocks > 0 ? oldNumBlocks - 1 : 0;
+            const mayHole = this._mayHole(meta);
+
+            if (mayHole && newNumBlocks - 1 > oldNumBlocks) {
+                meta.sparse = true;
+                await this._dropPadding(fh, meta, oldSize);
+            }
+
+            for (let block = startBlock; block < newNumBlocks; block++) {
+                if (mayHole && block >= oldNumBlocks && block < newNumBlocks - 1) {
+                    continue;
+                }
+
+                const newPlain = Buffer.alloc(this._plainLenOfBlock(meta, block, newSize));
+
+                if (block < oldNumBlocks) {
+                    // eslint-disable-next-line no-await-in-loop
+                    (await this._readBlock(fh, meta, block, oldSize)).copy(newPlain);
+                }
+
+                // eslint-disable-next-line no-await-in-loop
+                await this._writeBlock(fh, meta, block, newPlain, newSize);
+            }
+        }
+
+        // Update filesize in header.
+        meta.fileSize = newSize;
+        await this._writeFileSize(fh, meta);
+    }
+
+    /**
+     * Rewrite a file of an older format version into the current one: new
+     * file id, new content key, the configured block size, every block
+     * re-encrypted. The result is
+     * written to a temporary file next to the original and renamed over it,
+     * so an interrupted upgrade leaves the original intact. Must not run
+     * while the file is open; hard links to the file are split.
+     * @param {string} path
+     * @return {boolean} false if the file already had the current version
+     */
+    public async upgradeFile(path: string): Promise<boolean> {
+        const dpath = await this._mapPath(path);
+        const tmpPath = `${dpath}${CryptFS.UPGRADE_TMP_SUFFIX}`;
+        const src = await fs.open(dpath, 'r');
+
+        try {
+            const oldMeta = await this._readHeader(src);
+
+            if (oldMeta.version === CryptFS.VERSION) {
+                return false;
+            }
+
+            await this._writeReencrypted(
+                src,
+                oldMeta.fileSize,
+                (length, offset) => this._readRange(src, oldMeta, length, offset),
+                tmpPath
+            );
+        } finally {
+            await src.close();
+        }
+
+        await fs.rename(tmpPath, dpath);
+
+        return true;
+    }
+
+    /**
+     * Write the contents of an open file as a new file of the current
+     * format (new file id, new content key, this instance's master key,
+     * block size and padding). The plaintext comes from `readPlain`, which
+     * may decrypt with another key or format. Mode and timestamps of `src`
+     * are carried over, the result is synced before returning.
+     * @param {fs.FileHandle} src
+     * @param {number} fileSize
+     * @param {Function} readPlain
+     * @param {string} dstPath
+     * @private
+     */
+    private async _writeReencrypted(
+        src: fs.FileHandle,
+        fileSize: number,
+        readPlain: (length: number, offset: number) => Promise<Buffer>,
+        dstPath: string
+    ): Promise<void> {
+        const st = await src.stat();
+        const newMeta = {...this._newFileMeta(), fileSize: fileSize};
+        const dst = await fs.open(dstPath, 'w', st.mode);
+
+        try {
+            const numBlocks = this._numBlocks(newMeta, newMeta.fileSize);
+
+            // Block sizes may differ, so go through the plaintext.
+            for (let block = 0; block < numBlocks; block++) {
+                // eslint-disable-next-line no-await-in-loop
+                const plain = await readPlain(
+                    this._plainLenOfBlock(newMeta, block, newMeta.fileSize),
+                    block * newMeta.blockSize
+                );
+
+                // eslint-disable-next-line no-await-in-loop
+                await this._writeBlock(dst, newMeta, block, plain, newMeta.fileSize);
+            }
+
+            // Header, padding and the block table of a compressed file
+            await this._writeFileSize(dst, newMeta);
+            await dst.sync();
+        } catch (e) {
+            await dst.close();
+            await fs.rm(dstPath, {force: true});
+            throw e;
+        }
+
+        await dst.close();
+        await utimes(dstPath, st.atime, st.mtime);
+    }
+
+    /**
+     * Upgrade a storage of an older release below a directory: every
+     * regular file to the current format version (see `upgradeFile()`),
+     * legacy directories to per-directory name encryption and symlink
+     * targets to random-IV encryption. Safe to re-run after an interruption.
+     * @param {string} path
+     * @return {string[]} Paths of the upgraded entries
+     */
+    public async upgrade(path: string = '/'): Promise<string[]> {
+        const fullPath = await this._mapPath(path);
+        const upgraded: string[] = [];
+
+        if (await this._upgradeDirNames(fullPath)) {
+            upgraded.push(path);
+        }
+
+        for (const {dirent, name} of await this._listDir(fullPath)) {
+            if (name === null) {
+                // foreign files
+                continue;
+            }
+
+            const childPath = tpath.posix.join(path, name);
+
+            if (dirent.isDirectory()) {
+                // eslint-disable-next-line no-await-in-loop
+                upgraded.push(...await this.upgrade(childPath));
+                continue;
+            }
+
+            if (dirent.isSymbolicLink()) {
+                // eslint-disable-next-line no-await-in-loop
+                if (await this._upgradeLinkTarget(tpath.join(fullPath, dirent.name))) {
+                    upgraded.push(childPath);
+                }
+                continue;
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            if (dirent.isFile() && await this.upgradeFile(childPath)) {
+                upgraded.push(childPath);
+            }
+        }
+
+        return upgraded;
+    }
+
+    /**
+     * Rewrite the version 1 (AES-CTR) files below a directory, which
+     * `_readHeader()` rejects, as files of the current format version. A
+     * file counts as version 1 if it has no magic and its size matches the
+     * size in its version 1 header; other files are left alone. Version 1
+     * carries no authentication, so the key is only vouched for by the
+     * entry names decoding. Each file is replaced through a temporary file
+     * like in `upgradeFile()`, after it was copied to `backupDir` under its
+     * on-disk path if one is given. Must run on an unmounted storage.
+     * @param {string} path
+     * @param {boolean} dryRun Only report the files that would be migrated
+     * @param {string|null} backupDir Keep a copy of every version 1 file here
+     * @return {CryptFSMigrationResult[]} One result per version 1 file
+     */
+    public async migrateV1(
+        path: string = '/',
+        dryRun: boolean = false,
+        backupDir: string|null = null
+    ): Promise<CryptFSMigrationResult[]> {
+        const fullPath = await this._mapPath(path);
+        const results: CryptFSMigrationResult[] = [];
+
+        for (const {dirent, name} of await this._listDir(fullPath)) {
+            if (name === null) {
+                continue;
+            }
+
+            const childPath = tpath.posix.join(path, name);
 
-            return tstat;
-        }
+            if (dirent.isDirectory()) {
+                // eslint-disable-next-line no-await-in-loop
+                results.push(...await this.migrateV1(childPath, dryRun, backupDir));
+                continue;
+            }
 
-        // files -------------------------------------------------------------------------------------------------------
+            if (!dirent.isFile()) {
+                continue;
+            }
 
-        let fileSize = 0;
+            // eslint-disable-next-line no-await-in-loop
+            const result = await this._migrateV1File(tpath.join(fullPath, dirent.name), childPath, dryRun, backupDir);
 
-        if (tstat.size >= CryptFS.META_SIZE) {
-            const fh = await fs.open(fullPath, 'r');
-            try {
-                fileSize = await this._readHeader(fh);
-            } finally {
-                await fh.close();
+            if (result !== null) {
+                results.push(result);
             }
         }
 
-        return {
-            atime: tstat.atime,
-            mtime: tstat.mtime,
-            ctime: tstat.ctime,
-            size: fileSize,
-            mode: tstat.mode,
-            uid: tstat.uid,
-            gid: tstat.gid
-        } as any;
+        return results;
     }
 
     /**
-     * Set attr
+     * Migrate one file if it is a version 1 file, see `migrateV1()`
+     * @param {string} dpath
      * @param {string} path
-     * @param {Partial<Stats>} attr
+     * @param {boolean} dryRun
+     * @param {string|null} backupDir
+     * @return {CryptFSMigrationResult|null} null if the file is not version 1
+     * @private
      */
-    public async setattr(path: string, attr: Partial<Stats>): Promise<void> {
-        const isRoot = path === '/';
-        const dpath = isRoot ? this._options.baseDir : this._mapPath(path);
+    private async _migrateV1File(
+        dpath: string,
+        path: string,
+        dryRun: boolean,
+        backupDir: string|null
+    ): Promise<CryptFSMigrationResult|null> {
+        const tmpPath = `${dpath}${CryptFS.UPGRADE_TMP_SUFFIX}`;
+        let v1: CryptFSV1Header|null = null;
+        let backupPath: string|null = null;
 
-        let st: Stats;
         try {
-            st = await stat(dpath);
-        } catch {
-            throw new ErrnoFuseCb(Fuse.ENOENT, 'File not found');
-        }
+            const src = await fs.open(dpath, 'r');
 
-        if (isRoot && attr.size !== undefined) {
-            return;
-        }
+            try {
+                v1 = await this._readV1Header(src);
 
-        if (attr.mode !== undefined) {
-            await chmod(dpath, attr.mode);
+                if (v1 === null) {
+                    return null;
+                }
+
+                if (dryRun) {
+                    return {path: path, fileSize: v1.fileSize, status: 'dry-run'};
+                }
+
+                if (backupDir !== null) {
+                    backupPath = tpath.join(backupDir, tpath.relative(this._options.baseDir, dpath));
+                    await fs.mkdir(tpath.dirname(backupPath), {recursive: true});
+                    await fs.copyFile(dpath, backupPath);
+                }
+
+                const header = v1;
+
+                await this._writeReencrypted(
+                    src,
+                    header.fileSize,
+                    (length, offset) => this._readV1Range(src, header, length, offset),
+                    tmpPath
+                );
+            } finally {
+                await src.close();
+            }
+
+            await fs.rename(tmpPath, dpath);
+        } catch (e) {
+            return {
+                path: path,
+                fileSize: v1 === null ? null : v1.fileSize,
+                status: 'failed',
+                error: e instanceof Error ? e.message : String(e)
+            };
         }
 
-        if (attr.size !== undefined) {
-            await truncate(dpath, attr.size);
+        if (backupPath === null) {
+            return {path: path, fileSize: v1.fileSize, status: 'migrated'};
         }
 
-        if (attr.uid !== undefined || attr.gid !== undefined) {
-            await chown(
-                dpath,
-                attr.uid ?? st.uid,
-                attr.gid ?? st.gid
-            );
+        return {path: path, fileSize: v1.fileSize, status: 'migrated', backupPath: backupPath};
+    }
+
+    /**
+     * Read the header of a version 1 file
+     * @param {fs.FileHandle} fh
+     * @return {CryptFSV1Header|null} null if the file is not version 1
+     * @private
+     */
+    private async _readV1Header(fh: fs.FileHandle): Promise<CryptFSV1Header|null> {
+        const buf = Buffer.alloc(CryptFS.V1_HEADER_SIZE);
+        const {bytesRead} = await fh.read(buf, 0, buf.length, 0);
+
+        if (bytesRead < buf.length || buf.subarray(0, 4).equals(CryptFS.MAGIC)) {
+            return null;
         }
 
-        if (attr.atime !== undefined || attr.mtime !== undefined) {
-            await utimes(
-                dpath,
-                attr.atime ?? st.atime,
-                attr.mtime ?? st.mtime
-            );
+        const fileSize = buf.readBigInt64BE(0);
+        const st = await fh.stat();
+
+        if (fileSize !== BigInt(st.size - CryptFS.V1_HEADER_SIZE)) {
+            return null;
         }
+
+        return {
+            fileSize: Number(fileSize),
+            nonce: buf.subarray(CryptFS.V1_NONCE_OFFSET)
+        };
     }
 
     /**
-     * mkdir
-     * @param {string} path
-     * @param {number} mode
+     * Decrypt a plaintext range of a version 1 file. CTR mode, so the
+     * counter of the first touched AES block is the nonce plus its index.
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSV1Header} v1
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     * @private
      */
-    public async mkdir(path: string, mode: number): Promise<void> {
-        await fs.mkdir(this._mapPath(path), {mode: mode});
+    private async _readV1Range(fh: fs.FileHandle, v1: CryptFSV1Header, length: number, offset: number): Promise<Buffer> {
+        if (offset >= v1.fileSize) {
+            return Buffer.alloc(0);
+        }
+
+        const firstBlock = Math.floor(offset / CryptFS.AES_BLOCK);
+        const blockStart = firstBlock * CryptFS.AES_BLOCK;
+        const skip = offset - blockStart;
+        const ct = Buffer.alloc(skip + Math.min(length, v1.fileSize - offset));
+        const {bytesRead} = await fh.read(ct, 0, ct.length, CryptFS.V1_HEADER_SIZE + blockStart);
+
+        if (bytesRead < ct.length) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS v1 file truncated on disk');
+        }
+
+        // 128 bit big endian counter, wrapping around
+        const counter = (BigInt(`0x${v1.nonce.toString('hex')}`) + BigInt(firstBlock)) % (2n ** 128n);
+        const iv = Buffer.from(counter.toString(16).padStart(32, '0'), 'hex');
+        const decipher = crypto.createDecipheriv('aes-256-ctr', this._options.encryptionKey, iv);
+
+        return Buffer.concat([decipher.update(ct), decipher.final()]).subarray(skip);
     }
 
     /**
-     * open
+     * Check the storage below a directory without changing it: every name
+     * must decode, every file header validate and every block
+     * authenticate, and each file must be exactly as long as its header
+     * says. Symlink targets, directory IV files and metadata records are
+     * checked as well, leftover sidecars and temporary files are reported
+     * as foreign. Run it on an unmounted storage, an open file may not have
+     * its size written yet.
      * @param {string} path
-     * @param {number} flags
-     * @return {number}
+     * @return {CryptFSVerifyReport}
      */
-    public async open(path: string, flags: number): Promise<number> {
-        const dpath = this._mapPath(path);
-        const fh = await fs.open(dpath, flags);
+    public async verify(path: string = '/'): Promise<CryptFSVerifyReport> {
+        const report: CryptFSVerifyReport = {checked: 0, issues: []};
 
-        return this._handler.allocHandle({
-            fh: fh,
-            path: path,
-            realPath: dpath,
-            flags: flags
-        });
+        await this._verifyDir(await this._mapPath(path), path, report);
+
+        return report;
     }
 
     /**
-     * read
-     * @param {string} path
-     * @param {number} fd
-     * @param {number} length
-     * @param {number} offset
-     * @return {Buffer}
+     * Verify the entries of an on-disk directory and recurse into its
+     * subdirectories, see `verify()`
+     * @param {string} dirPath
+     * @param {string} mountPath
+     * @param {CryptFSVerifyReport} report
+     * @private
      */
-    public async read(path: string, fd: number, length: number, offset: number): Promise<Buffer> {
-        const {fh} = this._handler.getHandle(fd);
+    private async _verifyDir(dirPath: string, mountPath: string, report: CryptFSVerifyReport): Promise<void> {
+        const issue = (kind: CryptFSVerifyIssue['kind'], path: string|null, fn: string, message: string): void => {
+            report.issues.push({
+                kind: kind,
+                path: path,
+                diskPath: tpath.relative(this._options.baseDir, tpath.join(dirPath, fn)),
+                message: message
+            });
+        };
 
-        if (!fh) {
-            throw new Error(`Filehandle not found: ${fd}`);
+        let entries: CryptFSDirEntry[];
+
+        try {
+            entries = await this._listDir(dirPath);
+        } catch (e) {
+            issue('corrupt', mountPath, CryptFS.DIRIV_FILENAME, e instanceof Error ? e.message : String(e));
+            return;
         }
 
-        const fileSize = await this._getCachedFileSize(fd, fh);
+        for (const fn of await fs.readdir(dirPath)) {
+            if (fn.endsWith(CryptFS.UPGRADE_TMP_SUFFIX)) {
+                report.checked++;
+                issue('foreign', null, fn, 'Leftover of an interrupted upgrade or key rotation');
+                continue;
+            }
+
+            const suffix = [CryptFS.META_SUFFIX, CryptFS.LONGNAME_SIDECAR_SUFFIX].find((sfx) => fn.endsWith(sfx));
 
-        if (offset >= fileSize) {
-            return Buffer.alloc(0);
+            if (suffix === undefined || (suffix === CryptFS.LONGNAME_SIDECAR_SUFFIX && !fn.startsWith(CryptFS.LONGNAME_PREFIX))) {
+                continue;
+            }
+
+            report.checked++;
+
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                await fs.lstat(tpath.join(dirPath, fn.slice(0, -suffix.length)));
+            } catch {
+                issue('foreign', null, fn, 'Sidecar file without its entry');
+            }
         }
 
-        const toReadTotal = Math.min(length, fileSize - offset);
-        const out = Buffer.alloc(toReadTotal);
+        for (const {dirent, name} of entries) {
+            report.checked++;
 
-        const firstBlock = Math.floor(offset / this._options.blockSize);
-        const lastBlock = Math.floor((offset + toReadTotal - 1) / this._options.blockSize);
+            if (name === null) {
+                const looksEncrypted = this._isLongName(dirent.name) || CryptFS.ENCRYPTED_NAME_PATTERN.test(dirent.name);
 
-        // Blocks are contiguous on disk, so the whole touched range is one
-        // syscall. Cipher work stays per-block (GCM = per-block IV + tag).
-        const readStart = this._blockDiskOffset(firstBlock);
-        const lastBlockOnDiskLen =
-            this._plainLenOfBlock(lastBlock, fileSize) + CryptFS.BLOCK_OVERHEAD;
-        const readLen = this._blockDiskOffset(lastBlock) + lastBlockOnDiskLen - readStart;
+                if (looksEncrypted) {
+                    issue('undecodable', null, dirent.name, 'Name does not decode — wrong key, corruption or missing sidecar');
+                } else {
+                    issue('foreign', null, dirent.name, 'Not a CryptFS entry');
+                }
+                continue;
+            }
 
-        const onDiskBuf = Buffer.alloc(readLen);
-        const {bytesRead} = await fh.read(onDiskBuf, 0, readLen, readStart);
+            const childPath = tpath.posix.join(mountPath, name);
+            const childDiskPath = tpath.join(dirPath, dirent.name);
 
-        if (bytesRead < readLen) {
-            throw new ErrnoFuseCb(Fuse.EIO, 'CryptFS block range truncated on disk');
-        }
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                await this._readMetaRecord(childDiskPath);
+            } catch (e) {
+                issue('corrupt', childPath, `${dirent.name}${CryptFS.META_SUFFIX}`, e instanceof Error ? e.message : String(e));
+            }
 
-        let done = 0;
-        let cursor = 0;
+            if (dirent.isDirectory()) {
+                // eslint-disable-next-line no-await-in-loop
+                await this._verifyDir(childDiskPath, childPath, report);
+                continue;
+            }
 
-        for (let block = firstBlock; block <= lastBlock; block++) {
-            const blockPlainStart = block * this._options.blockSize;
-            const plainLen = this._plainLenOfBlock(block, fileSize);
-            const onDiskLen = plainLen + CryptFS.BLOCK_OVERHEAD;
+            if (dirent.isSymbolicLink()) {
+                try {
+                    // eslint-disable-next-line no-await-in-loop
+                    this._decryptLinkTarget((await fs.readlink(childDiskPath)).toString());
+                } catch {
+                    issue('corrupt', childPath, dirent.name, 'Symlink target does not decrypt');
+                }
+                continue;
+            }
 
-            const plain = this._decryptBlock(
-                block,
-                onDiskBuf.subarray(cursor, cursor + onDiskLen)
-            );
+            if (!dirent.isFile()) {
+                issue('foreign', childPath, dirent.name, 'Not a regular file, directory or symlink');
+                continue;
+            }
 
-            const sliceStart = Math.max(offset, blockPlainStart) - blockPlainStart;
-            const sliceEnd = Math.min(offset + toReadTotal, blockPlainStart + plainLen) - blockPlainStart;
+            // eslint-disable-next-line no-await-in-loop
+            const problem = await this._verifyFile(childDiskPath);
 
-            plain.copy(out, done, sliceStart, sliceEnd);
-            done += sliceEnd - sliceStart;
-            cursor += onDiskLen;
+            if (problem !== null) {
+                issue(problem.kind, childPath, dirent.name, problem.message);
+            }
         }
-
-        return out;
     }
 
     /**
-     * read dir
-     * @param {string} path
-     * @return {string[]}
+     * Verify the header, length and blocks of an on-disk file
+     * @param {string} dpath
+     * @return {Pick<CryptFSVerifyIssue, 'kind'|'message'>|null} null if the file is intact
+     * @private
      */
-    public async readdir(path: string): Promise<string[]> {
-        const fullPath = path === '/' ? this._options.baseDir : this._mapPath(path);
+    private async _verifyFile(dpath: string): Promise<Pick<CryptFSVerifyIssue, 'kind'|'message'>|null> {
+        const fh = await fs.open(dpath, 'r');
+
+        try {
+            const st = await fh.stat();
+            let meta: CryptFSFileMeta;
 
-        return (await fs.readdir(fullPath)).map((fn) => {
             try {
-                return this._decodeName(fn);
-            } catch {
-                return '???';
+                meta = await this._readHeader(fh);
+            } catch (e) {
+                if (await this._readV1Header(fh) !== null) {
+                    return {kind: 'corrupt', message: 'Version 1 (AES-CTR) file, see migrateV1()'};
+                }
+
+                const head = Buffer.alloc(8);
+                await fh.read(head, 0, head.length, 0);
+                const version = head.readUInt32BE(4);
+                const truncated = st.size < CryptFS.META_SIZE || (
+                    head.subarray(0, 4).equals(CryptFS.MAGIC) &&
+                    version >= CryptFS.MIN_VERSION &&
+                    version <= CryptFS.VERSION &&
+                    st.size < this._headerSize(version)
+                );
+
+                return {kind: truncated ? 'truncated' : 'corrupt', message: e instanceof Error ? e.message : String(e)};
             }
-        });
+
+            if (meta.compression !== 'none') {
+                try {
+                    await this._blockTable(fh, meta);
+                } catch (e) {
+                    return {kind: 'corrupt', message: e instanceof Error ? e.message : String(e)};
+                }
+            }
+
+            const expected = this._paddedSize(meta, meta.fileSize);
+
+            if (st.size !== expected) {
+                return {
+                    kind: st.size < expected ? 'truncated' : 'corrupt',
+                    message: `${st.size} bytes on disk, the header implies ${expected}`
+                };
+            }
+
+            for (let block = 0; block < this._numBlocks(meta, meta.fileSize); block++) {
+                try {
+                    // eslint-disable-next-line no-await-in-loop
+                    await this._readRange(fh, meta, meta.blockSize, block * meta.blockSize);
+                } catch (e) {
+                    return {kind: 'corrupt', message: `Block ${block}: ${e instanceof Error ? e.message : String(e)}`};
+                }
+            }
+
+            return null;
+        } finally {
+            await fh.close();
+        }
     }
 
     /**
-     * release
-     * @param {string} path
-     * @param {number} fd
+     * Re-encrypt the whole storage from this instance's master key to
+     * `newKey`: every file body (as a new file of the current format), name,
+     * symlink target and metadata record. Must run on an unmounted storage.
+     *
+     * Every entry is switched in one step, its name last, and a directory is
+     * renamed only after everything below it, so each entry is fully under
+     * one of the two keys and an entry whose name decrypts with the new key
+     * is done. A journal in the storage root pins both keys and keeps the
+     * storage from being mounted until the rotation completed; calling
+     * `rotateKey()` again with the same keys resumes it. Hard links are
+     * split.
+     * @param {Buffer} newKey
+     * @return {number} Number of entries rotated
      */
-    public async release(path: string, fd: number): Promise<void> {
-        const { fh } = this._handler.getHandle(fd);
+    public async rotateKey(newKey: Buffer): Promise<number> {
+        if (newKey.equals(this._options.encryptionKey)) {
+            throw new Error('The new key must differ from the current key');
+        }
 
-        if (fh) {
-            try {
-                await this._flushFileSizeIfDirty(fd, fh);
-            } finally {
-                await fh.close();
-                this._handler.freeHandle(fd);
-                this._metaCache.delete(fd);
+        const target = new CryptFS({...this._options, encryptionKey: newKey});
+        const journalPath = tpath.join(this._options.baseDir, CryptFS.ROTATION_JOURNAL_FILENAME);
+        let journal: CryptFSRotationJournal;
+
+        try {
+            journal = JSON.parse(await fs.readFile(journalPath, 'utf8')) as CryptFSRotationJournal;
+        } catch (e) {
+            if (!ErrorUtils.isFsError(e) || e.code !== 'ENOENT') {
+                throw e;
             }
+
+            const now = new Date().toISOString();
+
+            journal = {
+                version: 1,
+                oldKeyCheck: this._keyCheck(),
+                newKeyCheck: target._keyCheck(),
+                started: now,
+                updated: now,
+                rotated: 0
+            };
+
+            await this._writeRotationJournal(journal);
+        }
+
+        if (journal.oldKeyCheck !== this._keyCheck() || journal.newKeyCheck !== target._keyCheck()) {
+            throw new Error('The key rotation in progress was started with other keys');
         }
+
+        await this._rotateDir(target, this._options.baseDir, journal);
+        await fs.rm(journalPath);
+
+        return journal.rotated;
     }
 
     /**
-     * rename
-     * @param {string} src
-     * @param {string} dest
+     * Key check value of the master key, base64
+     * @return {string}
+     * @private
      */
-    public async rename(src: string, dest: string): Promise<void> {
-        const fullSrc = this._mapPath(src);
-        const fullDest = this._mapPath(dest);
+    private _keyCheck(): string {
+        return this._deriveKey('njsfscrypt key check').toString('base64');
+    }
+
+    /**
+     * Write the rotation journal atomically (tmp file + rename)
+     * @param {CryptFSRotationJournal} journal
+     * @private
+     */
+    private async _writeRotationJournal(journal: CryptFSRotationJournal): Promise<void> {
+        const journalPath = tpath.join(this._options.baseDir, CryptFS.ROTATION_JOURNAL_FILENAME);
+        const tmpPath = `${journalPath}${CryptFS.UPGRADE_TMP_SUFFIX}`;
 
-        return fs.rename(fullSrc, fullDest);
+        await fs.writeFile(tmpPath, JSON.stringify(journal, null, 2), {mode: 0o600});
+        await fs.rename(tmpPath, journalPath);
     }
 
     /**
-     * rmdir
-     * @param {string} path
+     * Rotate the entries of an on-disk directory to the key of `target`,
+     * then checkpoint the journal
+     * @param {CryptFS} target Instance with the new key
+     * @param {string} dirPath
+     * @param {CryptFSRotationJournal} journal
+     * @private
      */
-    public async rmdir(path: string): Promise<void> {
-        const fullPath = this._mapPath(path);
+    private async _rotateDir(target: CryptFS, dirPath: string, journal: CryptFSRotationJournal): Promise<void> {
+        const isRoot = dirPath === this._options.baseDir;
+        const dirIv = await this._dirIv(dirPath);
+
+        for (const fn of await fs.readdir(dirPath)) {
+            const fullPath = tpath.join(dirPath, fn);
+
+            if (
+                (isRoot && (fn === CryptVault.CONFIG_FILENAME || fn === CryptFS.ROTATION_JOURNAL_FILENAME)) ||
+                fn === CryptFS.DIRIV_FILENAME
+            ) {
+                continue;
+            }
 
-        try {
-            const files = await fs.readdir(fullPath);
+            // Leftovers of an interrupted step are written again.
+            if (fn.endsWith(CryptFS.UPGRADE_TMP_SUFFIX)) {
+                // eslint-disable-next-line no-await-in-loop
+                await fs.rm(fullPath, {force: true});
+                continue;
+            }
 
-            if (files.length > 0) {
-                throw new ErrnoFuseCb(Fuse.ENOTEMPTY, 'Directory not empty');
+            if (fn.endsWith(CryptFS.META_SUFFIX) || fn.endsWith(CryptFS.LONGNAME_SIDECAR_SUFFIX)) {
+                // eslint-disable-next-line no-await-in-loop
+                await this._removeOrphanedSidecar(fullPath);
+                continue;
             }
 
-            await fs.rmdir(this._mapPath(path));
-        } catch (e) {
-            if (e instanceof ErrnoFuseCb) {
-                throw e;
+            let encName: string;
+
+            try {
+                encName = this._isLongName(fn)
+                    // eslint-disable-next-line no-await-in-loop
+                    ? await fs.readFile(`${fullPath}${CryptFS.LONGNAME_SIDECAR_SUFFIX}`, 'utf8')
+                    : fn;
+            } catch {
+                continue;
             }
 
-            if (ErrorUtils.isFsError(e)) {
-                switch (e.code) {
-                    case 'ENOENT':
-                        throw new ErrnoFuseCb(Fuse.ENOENT);
-                }
+            let name: string;
+
+            try {
+                target._decodeName(encName, dirIv);
+                // already rotated
+                continue;
+            } catch {
+                // still under the old key
             }
 
-            throw new ErrnoFuseCb(Fuse.EIO, 'Failed to remove directory');
+            try {
+                name = this._decodeName(encName, dirIv);
+            } catch {
+                // foreign file
+                continue;
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            await this._rotateEntry(target, dirPath, fn, name, journal);
         }
-    }
 
-    /**
-     * unlink
-     * @param {string} path
-     */
-    public async unlink(path: string): Promise<void> {
-        return fs.unlink(this._mapPath(path));
+        await this._writeRotationJournal({...journal, updated: new Date().toISOString()});
     }
 
     /**
-     * flush — no-op; encryption + write are synchronous from the caller's view
-     * and the actual handle close happens in release().
-     * @param {string} _path
-     * @param {number} _fd
+     * Rotate one entry: write it under its new name (directories after
+     * their contents), then remove the old one
+     * @param {CryptFS} target Instance with the new key
+     * @param {string} dirPath
+     * @param {string} fn Current on-disk name
+     * @param {string} name Plaintext name
+     * @param {CryptFSRotationJournal} journal
+     * @private
      */
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    public async flush(_path: string, _fd: number): Promise<void> {
-        // no-op
-    }
+    private async _rotateEntry(
+        target: CryptFS,
+        dirPath: string,
+        fn: string,
+        name: string,
+        journal: CryptFSRotationJournal
+    ): Promise<void> {
+        const fullPath = tpath.join(dirPath, fn);
+        const newEncName = target._encodeName(name, await this._dirIv(dirPath));
+        const newPath = tpath.join(dirPath, target._diskName(newEncName));
+        const st = await fs.lstat(fullPath);
+
+        if (st.isDirectory()) {
+            await this._rotateDir(target, fullPath, journal);
+        }
 
-    /**
-     * fsync / fdatasync — flush the encrypted file's kernel buffers to disk.
-     * @param {string} _path
-     * @param {number} fd
-     * @param {boolean} datasync true = fdatasync, false = full fsync
-     */
-    public async fsync(_path: string, fd: number, datasync: boolean): Promise<void> {
-        const {fh} = this._handler.getHandle(fd);
+        if (target._isLongName(tpath.basename(newPath))) {
+            await fs.writeFile(`${newPath}${CryptFS.LONGNAME_SIDECAR_SUFFIX}`, newEncName);
+        }
 
-        if (!fh) {
-            throw new Error(`Filehandle not found: ${fd}`);
+        const record = await this._readMetaRecord(fullPath);
+
+        if (record !== null) {
+            await target._writeMetaRecord(newPath, record);
         }
 
-        await this._flushFileSizeIfDirty(fd, fh);
+        if (st.isFile() || st.isSymbolicLink()) {
+            const tmpPath = `${newPath}${CryptFS.UPGRADE_TMP_SUFFIX}`;
 
-        if (datasync) {
-            await fh.datasync();
+            if (st.isSymbolicLink()) {
+                const linkTarget = this._decryptLinkTarget((await fs.readlink(fullPath)).toString());
+                await fs.symlink(target._encryptLinkTarget(linkTarget), tmpPath);
+            } else {
+                const src = await fs.open(fullPath, 'r');
+
+                try {
+                    const meta = await this._readHeader(src);
+
+                    await target._writeReencrypted(
+                        src,
+                        meta.fileSize,
+                        (length, offset) => this._readRange(src, meta, length, offset),
+                        tmpPath
+                    );
+                } finally {
+                    await src.close();
+                }
+            }
+
+            await fs.rename(tmpPath, newPath);
+            await fs.unlink(fullPath);
         } else {
-            await fh.sync();
+            await fs.rename(fullPath, newPath);
+            this._forgetDirIvs(fullPath);
         }
-    }
 
-    /**
-     * symlink — the on-disk symlink stores the target string encrypted with
-     * the same name-encoding as filenames. The kernel never resolves the
-     * on-disk target directly; readlink() decrypts it before returning.
-     * @param {string} target
-     * @param {string} linkPath
-     */
-    public async symlink(target: string, linkPath: string): Promise<void> {
-        const encodedTarget = this._encodeName(target);
-        await fs.symlink(encodedTarget, this._mapPath(linkPath));
+        await this._removeLongName(fullPath);
+        await this._removeMetaRecord(fullPath);
+        journal.rotated++;
     }
 
     /**
-     * readlink — read and decrypt the symlink target.
-     * @param {string} path
-     * @return {string}
+     * Remove a long name sidecar or metadata record whose entry is gone
+     * @param {string} sidecarPath
+     * @private
      */
-    public async readlink(path: string): Promise<string> {
-        const onDisk = await fs.readlink(this._mapPath(path));
-        return this._decodeName(onDisk.toString());
-    }
+    private async _removeOrphanedSidecar(sidecarPath: string): Promise<void> {
+        const suffix = sidecarPath.endsWith(CryptFS.META_SUFFIX)
+            ? CryptFS.META_SUFFIX
+            : CryptFS.LONGNAME_SIDECAR_SUFFIX;
 
-    /**
-     * link — hard link two encoded names onto the same encrypted inode. The
-     * encrypted file (header + per-block IVs/tags) is shared by both names.
-     * @param {string} src
-     * @param {string} dest
-     */
-    public async link(src: string, dest: string): Promise<void> {
-        await fs.link(this._mapPath(src), this._mapPath(dest));
+        try {
+            await fs.lstat(sidecarPath.slice(0, -suffix.length));
+        } catch (e) {
+            if (ErrorUtils.isFsError(e) && e.code === 'ENOENT') {
+                await fs.rm(sidecarPath, {force: true});
+                return;
+            }
+
+            throw e;
+        }
     }
 
     /**
-     * mknod — only regular files (S_IFREG) are accepted. The on-disk file is
-     * created with the standard CryptFS header (filesize=0 + fresh nonce) so
-     * subsequent reads return zero bytes.
-     * @param {string} path
-     * @param {number} mode
-     * @param {number} _dev
+     * Give a legacy directory its IV file and re-encode the names of its
+     * entries with it. Entries still carrying a legacy name after an
+     * interruption are picked up by the next run.
+     * @param {string} dirPath
+     * @return {boolean} true if anything changed
+     * @private
      */
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    public async mknod(path: string, mode: number, _dev: number): Promise<void> {
-        // eslint-disable-next-line no-bitwise
-        const isRegular = (constants.S_IFMT & mode) === constants.S_IFREG;
+    private async _upgradeDirNames(dirPath: string): Promise<boolean> {
+        let dirIv = await this._dirIv(dirPath);
+        let changed = false;
 
-        if (!isRegular) {
-            throw new ErrnoFuseCb(Fuse.ENOSYS, 'CryptFS only supports regular files via mknod');
+        if (dirIv === null) {
+            dirIv = await this._createDirIv(dirPath);
+            changed = true;
         }
 
-        const dpath = this._mapPath(path);
-        const flags =
-            // eslint-disable-next-line no-bitwise
-            constants.O_CREAT |
-            constants.O_EXCL |
-            constants.O_WRONLY;
+        for (const fn of await fs.readdir(dirPath)) {
+            let name: string;
 
-        const fh = await fs.open(dpath, flags, mode);
+            try {
+                name = this._decodeLegacyName(fn);
+            } catch {
+                continue;
+            }
 
-        try {
-            await fh.write(this._buildHeader(0), 0, CryptFS.META_SIZE, 0);
-        } finally {
-            await fh.close();
+            const newPath = tpath.join(dirPath, this._encodeName(name, dirIv));
+
+            // eslint-disable-next-line no-await-in-loop
+            await fs.rename(tpath.join(dirPath, fn), newPath);
+            // Records of legacy names were bound while the directory had no IV.
+            // eslint-disable-next-line no-await-in-loop
+            await this._renameMetaRecord(tpath.join(dirPath, fn), newPath, null, dirIv);
+            changed = true;
         }
+
+        if (changed) {
+            this._forgetDirIvs(dirPath);
+            this._dirIvCache.set(dirPath, dirIv);
+        }
+
+        return changed;
     }
 
     /**
-     * Shared resize implementation used by truncate() and ftruncate().
-     * Re-encrypts the boundary block(s) when shrinking lands mid-block or
-     * when extending grows past the old (possibly partial) trailing block.
-     *
-     * @param {fs.FileHandle} fh
-     * @param {number} newSize
-     * @param {number} [knownOldSize] Pre-known old plaintext size to avoid
-     *   re-reading the header (e.g. from the per-fd cache in ftruncate).
+     * Re-encrypt a symlink target of an older release
+     * @param {string} linkPath On-disk path of the symlink
+     * @return {boolean} true if the target was rewritten
      * @private
      */
-    private async _resize(fh: fs.FileHandle, newSize: number, knownOldSize?: number): Promise<void> {
-        const oldSize = knownOldSize ?? await this._readHeader(fh);
+    private async _upgradeLinkTarget(linkPath: string): Promise<boolean> {
+        const onDisk = (await fs.readlink(linkPath)).toString();
 
-        if (newSize === oldSize) {
-            return;
+        if (this._decryptCurrentLinkTarget(onDisk) !== null) {
+            return false;
         }
 
-        const oldNumBlocks = this._numBlocks(oldSize);
-        const newNumBlocks = this._numBlocks(newSize);
-
-        if (newSize < oldSize) {
-            // Shrink: re-encrypt the new last block if shrinking mid-block.
-            if (newNumBlocks > 0) {
-                const lastBlock = newNumBlocks - 1;
-                const oldPlainLen = this._plainLenOfBlock(lastBlock, oldSize);
-                const newPlainLen = this._plainLenOfBlock(lastBlock, newSize);
-
-                if (newPlainLen < oldPlainLen) {
-                    const onDiskLen = oldPlainLen + CryptFS.BLOCK_OVERHEAD;
-                    const onDiskBuf = Buffer.alloc(onDiskLen);
-                    await fh.read(onDiskBuf, 0, onDiskLen, this._blockDiskOffset(lastBlock));
-                    const plain = this._decryptBlock(lastBlock, onDiskBuf);
-                    const truncated = plain.subarray(0, newPlainLen);
-                    const encrypted = this._encryptBlock(lastBlock, truncated);
-                    await fh.write(encrypted, 0, encrypted.length, this._blockDiskOffset(lastBlock));
-                }
-            }
-            await fh.truncate(this._physicalSize(newSize));
-        } else {
-            // Extend: pad/grow the old trailing block to a full block (if it
-            // was partial) and append zero-filled blocks up to the new size.
-            const startBlock = oldNumBlocks > 0 ? oldNumBlocks - 1 : 0;
-            for (let block = startBlock; block < newNumBlocks; block++) {
-                const newPlainLen = this._plainLenOfBlock(block, newSize);
+        let target: string;
 
-                let existing: Buffer;
-                if (block < oldNumBlocks) {
-                    const existingOnDiskLen =
-                        this._plainLenOfBlock(block, oldSize) + CryptFS.BLOCK_OVERHEAD;
-                    const onDiskBuf = Buffer.alloc(existingOnDiskLen);
-                    // eslint-disable-next-line no-await-in-loop
-                    await fh.read(onDiskBuf, 0, existingOnDiskLen, this._blockDiskOffset(block));
-                    // eslint-disable-next-line no-await-in-loop
-                    existing = this._decryptBlock(block, onDiskBuf);
-                } else {
-                    existing = Buffer.alloc(0);
-                }
+        try {
+            target = this._decodeLegacyName(onDisk);
+        } catch {
+            // not ours
+            return false;
+        }
 
-                const newPlain = Buffer.alloc(newPlainLen);
-                existing.copy(newPlain, 0, 0, Math.min(existing.length, newPlainLen));
+        const tmpPath = `${linkPath}${CryptFS.UPGRADE_TMP_SUFFIX}`;
 
-                const encrypted = this._encryptBlock(block, newPlain);
-                // eslint-disable-next-line no-await-in-loop
-                await fh.write(encrypted, 0, encrypted.length, this._blockDiskOffset(block));
-            }
-        }
+        await fs.rm(tmpPath, {force: true});
+        await fs.symlink(this._encryptLinkTarget(target), tmpPath);
+        await fs.rename(tmpPath, linkPath);
 
-        // Update filesize in header.
-        const sizeBuf = Buffer.alloc(8);
-        sizeBuf.writeBigInt64BE(BigInt(newSize), 0);
-        await fh.write(sizeBuf, 0, 8, CryptFS.HEADER_FILESIZE_OFFSET);
+        return true;
     }
 
     /**
@@ -892,9 +3819,28 @@ export class CryptFS implements VirtualFSEntry {
             throw new ErrnoFuseCb(Fuse.EINVAL);
         }
 
-        const fh = await fs.open(this._mapPath(path), 'r+');
+        const dpath = await this._mapPath(path);
+
+        await this._resizePath(dpath, size);
+        await this._touchMetaRecord(dpath);
+    }
+
+    /**
+     * Resize the file at an on-disk path
+     * @param {string} dpath
+     * @param {number} size
+     * @private
+     */
+    private async _resizePath(dpath: string, size: number): Promise<void> {
+        const fh = await fs.open(dpath, 'r+');
         try {
-            await this._resize(fh, size);
+            const open = this._openFiles.get(CryptFS._openFileKey(await fh.stat()));
+
+            await this._resize(fh, size, open?.meta);
+
+            if (open !== undefined) {
+                open.meta.dirty = false;
+            }
         } finally {
             await fh.close();
         }
@@ -917,17 +3863,96 @@ export class CryptFS implements VirtualFSEntry {
             throw new ErrnoFuseCb(Fuse.EINVAL);
         }
 
-        const oldSize = await this._getCachedFileSize(fd, fh);
-        await this._resize(fh, size, oldSize);
+        const meta = await this._getFileMeta(fd, fh);
 
-        // _resize already persisted the new filesize to the header.
-        const entry = this._metaCache.get(fd);
-        if (entry) {
-            entry.fileSize = size;
-            entry.dirty = false;
-        } else {
-            this._metaCache.set(fd, {fileSize: size, dirty: false});
+        // An unchanged size leaves a pending header update to release().
+        if (size !== meta.fileSize) {
+            await this._resize(fh, size, meta);
+
+            // _resize already persisted the new filesize to the header.
+            meta.dirty = false;
+        }
+
+        this._modifiedFds.add(fd);
+    }
+
+    /**
+     * fallocate. Blocks past the size are no part of a file, so a KEEP_SIZE
+     * allocation changes nothing and a growing one extends the file like
+     * ftruncate; no space is reserved ahead. A punched or zeroed range reads
+     * as zeros afterwards, its whole blocks become holes where the file may
+     * have them.
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     */
+    public async fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        const {fh} = this._handler.getHandle(fd);
+
+        if (!fh) {
+            throw new ErrnoFuseCb(Fuse.EBADF);
+        }
+
+        const request = FallocateUtils.parse(mode, offset, length);
+        const meta = await this._getFileMeta(fd, fh);
+        const size = meta.fileSize;
+
+        if (request.zero && offset < size) {
+            await this._zeroRange(path, fd, fh, meta, offset, Math.min(request.end, size));
+        }
+
+        if (!request.keepSize && request.end > size) {
+            await this.ftruncate(path, fd, request.end);
+        }
+    }
+
+    /**
+     * Make a range inside a file read as zeros. Its whole blocks, except
+     * the last block of the file, are zeroed on disk to holes if the file
+     * may have them; everything else is written as zeros.
+     * @param {string} path
+     * @param {number} fd
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} start
+     * @param {number} end Exclusive, at most the file size
+     * @private
+     */
+    private async _zeroRange(
+        path: string,
+        fd: number,
+        fh: fs.FileHandle,
+        meta: CryptFSFileMeta & {dirty: boolean;},
+        start: number,
+        end: number
+    ): Promise<void> {
+        const firstHole = Math.ceil(start / meta.blockSize);
+        const holeEnd = Math.min(Math.floor(end / meta.blockSize), this._numBlocks(meta, meta.fileSize) - 1);
+        const write = (buffer: Buffer, position: number): Promise<number> => this.write(path, fd, buffer, position);
+
+        if (!this._mayHole(meta) || firstHole >= holeEnd) {
+            await FallocateUtils.writeZeros(write, start, end);
+            return;
+        }
+
+        await FallocateUtils.writeZeros(write, start, firstHole * meta.blockSize);
+        await FallocateUtils.writeZeros(write, holeEnd * meta.blockSize, end);
+
+        // The flag is on disk before the first hole below the stored size.
+        if (!meta.sparse) {
+            meta.sparse = true;
+            meta.dirty = false;
+            await this._writeFileSize(fh, meta);
         }
+
+        await FallocateUtils.writeZeros(
+            (buffer, position) => fh.write(buffer, 0, buffer.length, position),
+            this._blockDiskOffset(meta, firstHole),
+            this._blockDiskOffset(meta, holeEnd)
+        );
+        this._modifiedFds.add(fd);
     }
 
     /**
@@ -948,35 +3973,47 @@ export class CryptFS implements VirtualFSEntry {
         const writeLen = buffer.length;
         const writeEnd = offset + writeLen;
 
-        const fileSize = await this._getCachedFileSize(fd, fh);
-        const oldNumBlocks = this._numBlocks(fileSize);
+        const meta = await this._getFileMeta(fd, fh);
+        const fileSize = meta.fileSize;
+        const oldNumBlocks = this._numBlocks(meta, fileSize);
         const oldLastBlock = oldNumBlocks - 1;
         const oldLastPlainLen = oldLastBlock >= 0
-            ? fileSize - (oldLastBlock * this._options.blockSize)
+            ? fileSize - (oldLastBlock * meta.blockSize)
             : 0;
 
         const newFileSize = Math.max(fileSize, writeEnd);
-        const newNumBlocks = this._numBlocks(newFileSize);
+        const newNumBlocks = this._numBlocks(meta, newFileSize);
         const newLastBlock = newNumBlocks - 1;
 
-        const firstTouched = Math.floor(offset / this._options.blockSize);
-        const lastTouched = Math.floor((writeEnd - 1) / this._options.blockSize);
+        const firstTouched = Math.floor(offset / meta.blockSize);
+        const lastTouched = Math.floor((writeEnd - 1) / meta.blockSize);
 
         // If the file grows past an old partial trailing block, that block is
         // no longer the trailing block — it must be re-encrypted as a full
-        // blockSize block.
+        // blockSize block. From v6 on a full trailing block loses its final
+        // marker and is re-encrypted too.
         let firstAffected = firstTouched;
         if (
             oldLastBlock >= 0 &&
-            oldLastPlainLen < this._options.blockSize &&
+            (oldLastPlainLen < meta.blockSize || meta.version >= 6) &&
             newLastBlock > oldLastBlock &&
             oldLastBlock < firstTouched
         ) {
             firstAffected = oldLastBlock;
         }
 
-        const lastAffected = Math.max(lastTouched, newLastBlock);
+        // Blocks between the old end and the write are new as well. Blocks
+        // behind the write only change if it grows the file.
+        firstAffected = Math.min(firstAffected, oldNumBlocks);
+        const lastAffected = writeEnd > fileSize ? newLastBlock : lastTouched;
+
+        if (meta.compression !== 'none') {
+            return this._writeCompressed(fd, fh, meta, buffer, offset, firstAffected);
+        }
+
+        const mayHole = this._mayHole(meta);
         let bytesWritten = 0;
+        let holes = false;
 
         // Identify the range of blocks whose existing ciphertext we still
         // need (on-disk blocks that aren't fully overwritten). Coalesce
@@ -985,8 +4022,8 @@ export class CryptFS implements VirtualFSEntry {
         let firstReadBlock = -1;
         let lastReadBlock = -1;
         for (let block = firstAffected; block <= lastAffected; block++) {
-            const blockPlainStart = block * this._options.blockSize;
-            const newBlockPlainLen = this._plainLenOfBlock(block, newFileSize);
+            const blockPlainStart = block * meta.blockSize;
+            const newBlockPlainLen = this._plainLenOfBlock(meta, block, newFileSize);
             const writeFullyCoversBlock =
                 offset <= blockPlainStart &&
                 writeEnd >= blockPlainStart + newBlockPlainLen;
@@ -1002,11 +4039,11 @@ export class CryptFS implements VirtualFSEntry {
         let readBuf: Buffer | null = null;
         let readBufStart = 0;
         if (firstReadBlock >= 0) {
-            readBufStart = this._blockDiskOffset(firstReadBlock);
+            readBufStart = this._blockDiskOffset(meta, firstReadBlock);
             const lastReadOnDiskLen =
-                this._plainLenOfBlock(lastReadBlock, fileSize) + CryptFS.BLOCK_OVERHEAD;
+                this._plainLenOfBlock(meta, lastReadBlock, fileSize) + CryptFS.BLOCK_OVERHEAD;
             const readLen =
-                this._blockDiskOffset(lastReadBlock) + lastReadOnDiskLen - readBufStart;
+                this._blockDiskOffset(meta, lastReadBlock) + lastReadOnDiskLen - readBufStart;
             readBuf = Buffer.alloc(readLen);
             const {bytesRead} = await fh.read(readBuf, 0, readLen, readBufStart);
             if (bytesRead < readLen) {
@@ -1014,12 +4051,19 @@ export class CryptFS implements VirtualFSEntry {
             }
         }
 
-        // Encrypt every affected block into a contiguous buffer.
-        const writeChunks: Buffer[] = [];
+        // Encrypt every affected block, consecutive blocks into one buffer.
+        // New blocks the write does not reach stay holes if the file may
+        // have them.
+        const runs: {block: number; chunks: Buffer[];}[] = [];
 
         for (let block = firstAffected; block <= lastAffected; block++) {
-            const blockPlainStart = block * this._options.blockSize;
-            const newBlockPlainLen = this._plainLenOfBlock(block, newFileSize);
+            if (mayHole && block >= oldNumBlocks && block < firstTouched && block < newLastBlock) {
+                holes = true;
+                continue;
+            }
+
+            const blockPlainStart = block * meta.blockSize;
+            const newBlockPlainLen = this._plainLenOfBlock(meta, block, newFileSize);
             const writeFullyCoversBlock =
                 offset <= blockPlainStart &&
                 writeEnd >= blockPlainStart + newBlockPlainLen;
@@ -1027,11 +4071,13 @@ export class CryptFS implements VirtualFSEntry {
             let existing: Buffer;
             if (block < oldNumBlocks && !writeFullyCoversBlock) {
                 const existingOnDiskLen =
-                    this._plainLenOfBlock(block, fileSize) + CryptFS.BLOCK_OVERHEAD;
-                const bufOff = this._blockDiskOffset(block) - readBufStart;
+                    this._plainLenOfBlock(meta, block, fileSize) + CryptFS.BLOCK_OVERHEAD;
+                const bufOff = this._blockDiskOffset(meta, block) - readBufStart;
                 existing = this._decryptBlock(
+                    meta,
                     block,
-                    readBuf!.subarray(bufOff, bufOff + existingOnDiskLen)
+                    readBuf!.subarray(bufOff, bufOff + existingOnDiskLen),
+                    fileSize
                 );
             } else {
                 existing = Buffer.alloc(0);
@@ -1041,7 +4087,7 @@ export class CryptFS implements VirtualFSEntry {
             existing.copy(newPlain, 0, 0, Math.min(existing.length, newBlockPlainLen));
 
             const sliceStart = Math.max(offset, blockPlainStart);
-            const sliceEnd = Math.min(writeEnd, blockPlainStart + this._options.blockSize);
+            const sliceEnd = Math.min(writeEnd, blockPlainStart + meta.blockSize);
 
             if (sliceStart < sliceEnd) {
                 const srcStart = sliceStart - offset;
@@ -1051,27 +4097,259 @@ export class CryptFS implements VirtualFSEntry {
                 bytesWritten += copyLen;
             }
 
-            writeChunks.push(this._encryptBlock(block, newPlain));
+            const sealed = this._encryptBlock(meta, block, newPlain, newFileSize);
+            const run = runs[runs.length - 1] as typeof runs[number]|undefined;
+
+            if (run !== undefined && run.block + run.chunks.length === block) {
+                run.chunks.push(sealed);
+            } else {
+                runs.push({block: block, chunks: [sealed]});
+            }
         }
 
-        // Single coalesced write covering every affected block.
-        const writeBuf = Buffer.concat(writeChunks);
-        await fh.write(
-            writeBuf, 0, writeBuf.length, this._blockDiskOffset(firstAffected)
-        );
+        if (holes) {
+            meta.sparse = true;
+            await this._dropPadding(fh, meta, fileSize);
+        }
 
-        // Update the cached filesize; persist is deferred to release()/fsync().
+        // The grown size reaches the header before the old last block is
+        // sealed as a middle one, so other instances and a crash after the
+        // write find a header that matches the blocks. Padding follows in
+        // release()/fsync().
         if (newFileSize !== fileSize) {
-            const entry = this._metaCache.get(fd);
-            if (entry) {
-                entry.fileSize = newFileSize;
-                entry.dirty = true;
+            meta.fileSize = newFileSize;
+            meta.dirty = true;
+            await this._writeHeaderSize(fh, meta);
+        }
+
+        // One coalesced write per run of blocks.
+        for (const run of runs) {
+            const writeBuf = Buffer.concat(run.chunks);
+            // eslint-disable-next-line no-await-in-loop
+            await fh.write(writeBuf, 0, writeBuf.length, this._blockDiskOffset(meta, run.block));
+        }
+
+        this._modifiedFds.add(fd);
+
+        return bytesWritten;
+    }
+
+    /**
+     * write() for a compressed file: blocks have no fixed place, so each
+     * affected block is read, merged and stored on its own.
+     * @param {number} fd
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {Buffer} buffer
+     * @param {number} offset
+     * @param {number} firstAffected First block to rewrite, at most the old block count
+     * @return {number}
+     * @private
+     */
+    private async _writeCompressed(
+        fd: number,
+        fh: fs.FileHandle,
+        meta: CryptFSFileMeta & {dirty: boolean;},
+        buffer: Buffer,
+        offset: number,
+        firstAffected: number
+    ): Promise<number> {
+        const fileSize = meta.fileSize;
+        const writeEnd = offset + buffer.length;
+        const newFileSize = Math.max(fileSize, writeEnd);
+        const oldNumBlocks = this._numBlocks(meta, fileSize);
+
+        // Moved blocks only reach the disk with the table.
+        this._modifiedFds.add(fd);
+        meta.dirty = true;
+
+        for (let block = firstAffected; block <= Math.floor((writeEnd - 1) / meta.blockSize); block++) {
+            const blockPlainStart = block * meta.blockSize;
+            const newPlain = Buffer.alloc(this._plainLenOfBlock(meta, block, newFileSize));
+            const writeFullyCoversBlock = offset <= blockPlainStart && writeEnd >= blockPlainStart + newPlain.length;
+
+            if (block < oldNumBlocks && !writeFullyCoversBlock) {
+                // eslint-disable-next-line no-await-in-loop
+                (await this._readBlock(fh, meta, block, fileSize)).copy(newPlain);
+            }
+
+            if (offset < blockPlainStart + newPlain.length && writeEnd > blockPlainStart) {
+                buffer.copy(newPlain, Math.max(offset - blockPlainStart, 0), Math.max(blockPlainStart - offset, 0));
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            await this._writeBlock(fh, meta, block, newPlain, newFileSize);
+        }
+
+        meta.fileSize = newFileSize;
+
+        return buffer.length;
+    }
+
+    /**
+     * Readable stream of the plaintext of a file. Chunks are aligned to the
+     * block size of the file (the first one ends at a block boundary) and a
+     * block is only read and decrypted when the consumer asks for it.
+     * @param {string} path
+     * @param {CryptFSReadStreamOptions} options
+     * @return {Readable}
+     */
+    public createReadStream(path: string, options: CryptFSReadStreamOptions = {}): Readable {
+        const end = options.end === undefined ? Infinity : options.end + 1;
+
+        return Readable.from(this._streamBlocks(path, options.start ?? 0, end), {objectMode: false});
+    }
+
+    /**
+     * Writable stream into a file, created or truncated when the stream
+     * opens. Full blocks are encrypted and written as they fill up, without
+     * reading anything back; the last block and the filesize are written
+     * when the stream ends. A failed stream leaves an empty file.
+     * @param {string} path
+     * @param {CryptFSWriteStreamOptions} options
+     * @return {Writable}
+     */
+    public createWriteStream(path: string, options: CryptFSWriteStreamOptions = {}): Writable {
+        let fd = -1;
+        let fh: fs.FileHandle;
+        let meta: CryptFSFileMeta & {dirty: boolean;};
+        let pending: Buffer[] = [];
+        let pendingLen = 0;
+        let nextBlock = 0;
+
+        const close = async(): Promise<void> => {
+            if (fd !== -1) {
+                const openFd = fd;
+                fd = -1;
+                this._modifiedFds.add(openFd);
+                await this.release(path, openFd);
+            }
+        };
+
+        return new Writable({
+            construct: (cb): void => {
+                (async(): Promise<void> => {
+                    fd = await this.create(path, options.mode ?? 0o666);
+                    fh = this._handler.getHandle(fd).fh!;
+                    meta = await this._getFileMeta(fd, fh);
+                })().then(() => cb(), cb);
+            },
+            write: (chunk: Buffer, _encoding, cb): void => {
+                pending.push(chunk);
+                pendingLen += chunk.length;
+
+                // The last block is held back until the stream ends, only
+                // then is it known to be the final one.
+                const count = Math.floor((pendingLen - 1) / meta.blockSize);
+
+                if (count === 0) {
+                    cb();
+                    return;
+                }
+
+                const data = Buffer.concat(pending);
+                const blocksLen = count * meta.blockSize;
+
+                pending = [data.subarray(blocksLen)];
+                pendingLen -= blocksLen;
+
+                this._writeBlocks(fh, meta, nextBlock, data.subarray(0, blocksLen), ((nextBlock + count) * meta.blockSize) + 1)
+                .then(() => {
+                    nextBlock += count;
+                    cb();
+                }, cb);
+            },
+            final: (cb): void => {
+                (async(): Promise<void> => {
+                    meta.fileSize = (nextBlock * meta.blockSize) + pendingLen;
+                    meta.dirty = true;
+
+                    if (pendingLen > 0) {
+                        await this._writeBlocks(fh, meta, nextBlock, Buffer.concat(pending), meta.fileSize);
+                    }
+
+                    await close();
+                })().then(() => cb(), cb);
+            },
+            destroy: (err, cb): void => {
+                if (fd !== -1) {
+                    // Rewrite the header with size 0 so the blocks written
+                    // so far are cut off again.
+                    meta.fileSize = 0;
+                    meta.dirty = true;
+                }
+
+                close().then(() => cb(err), () => cb(err));
+            }
+        });
+    }
+
+    /**
+     * Read a plaintext range of a file block by block
+     * @param {string} path
+     * @param {number} start
+     * @param {number} end Exclusive
+     * @private
+     */
+    private async* _streamBlocks(path: string, start: number, end: number): AsyncGenerator<Buffer> {
+        const fd = await this.open(path, constants.O_RDONLY);
+
+        try {
+            const {fh} = this._handler.getHandle(fd);
+            const meta = await this._getFileMeta(fd, fh!);
+            const stop = Math.min(end, meta.fileSize);
+            let offset = start;
+
+            while (offset < stop) {
+                const block = Math.floor(offset / meta.blockSize);
+                const blockEnd = (block * meta.blockSize) + this._plainLenOfBlock(meta, block, meta.fileSize);
+
+                // eslint-disable-next-line no-await-in-loop
+                const chunk = await this._readRange(fh!, meta, Math.min(blockEnd, stop) - offset, offset);
+
+                offset += chunk.length;
+                yield chunk;
+            }
+        } finally {
+            await this.release(path, fd);
+        }
+    }
+
+    /**
+     * Encrypt consecutive blocks and write them with one call, without
+     * reading back what is on disk
+     * @param {fs.FileHandle} fh
+     * @param {CryptFSFileMeta} meta
+     * @param {number} firstBlock
+     * @param {Buffer} data Plaintext starting at `firstBlock`, whole blocks
+     *   unless it ends the file
+     * @param {number} fileSize Plaintext size the blocks are written for
+     * @private
+     */
+    private async _writeBlocks(fh: fs.FileHandle, meta: CryptFSFileMeta, firstBlock: number, data: Buffer, fileSize: number): Promise<void> {
+        const chunks: Buffer[] = [];
+        let cursor = 0;
+
+        for (let block = firstBlock; cursor < data.length; block++) {
+            const plainLen = this._plainLenOfBlock(meta, block, fileSize);
+            const plain = data.subarray(cursor, cursor + plainLen);
+
+            cursor += plainLen;
+
+            if (meta.compression === 'none') {
+                chunks.push(this._encryptBlock(meta, block, plain, fileSize));
             } else {
-                this._metaCache.set(fd, {fileSize: newFileSize, dirty: true});
+                // eslint-disable-next-line no-await-in-loop
+                await this._writeBlock(fh, meta, block, plain, fileSize);
             }
         }
 
-        return bytesWritten;
+        if (chunks.length === 0) {
+            return;
+        }
+
+        const writeBuf = Buffer.concat(chunks);
+        await fh.write(writeBuf, 0, writeBuf.length, this._blockDiskOffset(meta, firstBlock));
     }
 
 }
\ No newline at end of file
@@ -0,0 +1,1327 @@
+import Fuse, {StatFs} from 'fuse-native';
+import {constants, Stats} from 'node:fs';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as tpath from 'path';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {FallocateUtils} from '../Utils/FallocateUtils.js';
+import {CryptFS} from './CryptFS.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+interface DedupFSOptions {
+    baseDir: string;
+    encryptionKey: Buffer;
+
+    /**
+     * Chunk size the content-defined chunking aims for, a power of two
+     * (default DedupFS.DEFAULT_AVERAGE_CHUNK_SIZE). Chunks are cut between a
+     * quarter and four times of it. Changing it only affects what is
+     * written from then on, and shared regions are found again once both
+     * sides were written with the same size.
+     */
+    averageChunkSize?: number;
+}
+
+/**
+ * One chunk of a file, its id is HMAC-SHA256 of its plaintext
+ */
+interface DedupFSChunk {
+    id: Buffer;
+    length: number;
+}
+
+/**
+ * Content of a file: its size and its chunks in order, `starts` holds the
+ * plaintext offset of every chunk
+ */
+interface DedupFSManifest {
+    size: number;
+    chunks: DedupFSChunk[];
+    starts: number[];
+}
+
+/**
+ * Open file, shared by every fd open on its path
+ */
+interface DedupFSOpenFile {
+
+    /**
+     * Path the file is open under, follows renames
+     */
+    path: string;
+
+    /**
+     * Open fds of the file
+     */
+    fds: Set<number>;
+
+    /**
+     * Writable tree fd the manifest is saved through, kept open until the
+     * last fd is released. A CryptFS fd caches the file size, so the
+     * manifest is always written through the same one. null while the file
+     * is only open for reading.
+     */
+    fd: number|null;
+    manifest: DedupFSManifest;
+
+    /**
+     * Writes not cut into chunks yet, in the order they came in
+     */
+    pending: {offset: number; data: Buffer;}[];
+    pendingSize: number;
+
+    /**
+     * Manifest changed since it was read or last written
+     */
+    dirty: boolean;
+}
+
+/**
+ * A chunk file found by `collectGarbage()`
+ */
+interface DedupFSChunkFile {
+
+    /**
+     * Id (hex), empty for a temporary file
+     */
+    id: string;
+    path: string;
+}
+
+/**
+ * Deduplicating FileSystem: file contents are cut into chunks by
+ * content-defined chunking (a gear hash keyed from the master key), and
+ * every chunk is stored once in the chunk directory, named by its id
+ * HMAC-SHA256(plaintext) and sealed with AES-256-GCM like a CryptFS block.
+ * Names, directories, symlinks and attributes live in a CryptFS storage
+ * below the tree directory, whose files hold manifests: the file size and
+ * the ids and lengths of its chunks. Identical files and regions shared
+ * between files, also at shifted offsets, are stored once.
+ *
+ * Writes are collected per open file and cut into chunks when the file is
+ * read, synced or closed, or once MAX_PENDING_SIZE bytes are pending; only
+ * the chunks around the written ranges are cut again. Chunks no manifest
+ * refers to any more stay until `collectGarbage()`. All fds open on a path
+ * share its manifest and pending writes, and every release writes it; hard
+ * links of a file opened under different names do not.
+ */
+export class DedupFS implements VirtualFSEntry {
+
+    /**
+     * Directory below baseDir holding the chunks
+     */
+    public static readonly CHUNK_DIRNAME = 'chunks';
+
+    /**
+     * Directory below baseDir holding the CryptFS storage of the manifests
+     */
+    public static readonly TREE_DIRNAME = 'tree';
+
+    /**
+     * Average chunk size unless configured otherwise
+     */
+    public static readonly DEFAULT_AVERAGE_CHUNK_SIZE = 64 * 1024;
+
+    /**
+     * Manifest layout: 4 magic + 4 version + 8 size, then per chunk 32 id +
+     * 4 length
+     */
+    private static readonly MANIFEST_MAGIC = Buffer.from('NJSm', 'ascii');
+    private static readonly MANIFEST_VERSION = 1;
+    private static readonly MANIFEST_HEADER_SIZE = 16;
+    private static readonly MANIFEST_ENTRY_SIZE = 36;
+    private static readonly ID_SIZE = 32;
+
+    /**
+     * Bytes per read call while loading a manifest
+     */
+    private static readonly MANIFEST_READ_SIZE = 1024 * 1024;
+
+    /**
+     * Pending writes of an open file are cut into chunks at this size
+     */
+    private static readonly MAX_PENDING_SIZE = 8 * 1024 * 1024;
+
+    /**
+     * Bytes assembled at once while cutting a region into chunks
+     */
+    private static readonly REGION_PIECE_SIZE = 1024 * 1024;
+
+    /**
+     * Decrypted chunks kept for reads
+     */
+    private static readonly CHUNK_CACHE_SIZE = 32;
+
+    /**
+     * Suffix of a chunk file that is still being written
+     */
+    private static readonly TMP_SUFFIX = '.tmp';
+
+    /**
+     * Age after which `collectGarbage()` takes a temporary chunk file for
+     * the leftover of an interrupted write, in ms
+     */
+    private static readonly TMP_GRACE_PERIOD = 60 * 60 * 1000;
+
+    /**
+     * Options
+     * @private
+     */
+    private _options: Required<DedupFSOptions>;
+
+    /**
+     * Storage of the names and manifests
+     * @private
+     */
+    private _tree: CryptFS;
+
+    /**
+     * Keys of the chunk ids and the chunk contents
+     * @private
+     */
+    private _idKey: Buffer;
+    private _chunkKey: Buffer;
+
+    /**
+     * Gear table of the chunking
+     * @private
+     */
+    private _gear: Uint32Array = new Uint32Array(256);
+
+    /**
+     * Open files by fd
+     * @private
+     */
+    private _handles: Map<number, DedupFSOpenFile> = new Map();
+
+    /**
+     * Open files by path
+     * @private
+     */
+    private _openFiles: Map<string, DedupFSOpenFile> = new Map();
+
+    /**
+     * Chunk cutting and manifest saves in progress. `collectGarbage()`
+     * waits until none is left, and new ones wait for it.
+     * @private
+     */
+    private _busy: number = 0;
+
+    /**
+     * Waiting for `_busy` to drop to zero
+     * @private
+     */
+    private _idleWaiters: (() => void)[] = [];
+
+    /**
+     * Running `collectGarbage()`
+     * @private
+     */
+    private _collecting: Promise<number>|null = null;
+
+    /**
+     * Ids (hex) of chunks known to be on disk
+     * @private
+     */
+    private _storedChunks: Set<string> = new Set();
+
+    /**
+     * Recently read chunks by id (hex), oldest first
+     * @private
+     */
+    private _chunkCache: Map<string, Buffer> = new Map();
+
+    /**
+     * Constructor
+     * @param {DedupFSOptions} options
+     */
+    public constructor(options: DedupFSOptions) {
+        const average = options.averageChunkSize ?? DedupFS.DEFAULT_AVERAGE_CHUNK_SIZE;
+
+        // eslint-disable-next-line no-bitwise
+        if (!Number.isInteger(average) || average < 256 || average > 4 * 1024 * 1024 || (average & (average - 1)) !== 0) {
+            throw new Error(`Invalid DedupFS average chunk size: ${average}`);
+        }
+
+        this._options = {...options, averageChunkSize: average};
+        this._tree = new CryptFS({
+            baseDir: tpath.join(options.baseDir, DedupFS.TREE_DIRNAME),
+            encryptionKey: options.encryptionKey
+        });
+        this._idKey = this._deriveKey('njsfscrypt chunk id');
+        this._chunkKey = this._deriveKey('njsfscrypt chunk');
+
+        const gear = Buffer.from(crypto.hkdfSync('sha256', options.encryptionKey, Buffer.alloc(0), 'njsfscrypt chunk gear', 1024));
+
+        for (let i = 0; i < this._gear.length; i++) {
+            this._gear[i] = gear.readUInt32BE(i * 4);
+        }
+    }
+
+    /**
+     * Init, creates the chunk and tree directories
+     */
+    public async init(): Promise<void> {
+        const st = await fs.stat(this._options.baseDir);
+
+        if (!st.isDirectory()) {
+            throw new Error(`baseDir is not a directory: ${this._options.baseDir}`);
+        }
+
+        await fs.mkdir(tpath.join(this._options.baseDir, DedupFS.CHUNK_DIRNAME), {recursive: true});
+        await fs.mkdir(tpath.join(this._options.baseDir, DedupFS.TREE_DIRNAME), {recursive: true});
+        await this._tree.init();
+    }
+
+    /**
+     * is Init
+     * @return {boolean}
+     */
+    public isInit(): boolean {
+        return this._tree.isInit();
+    }
+
+    /**
+     * Access file/directory
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async access(path: string, mode: number): Promise<void> {
+        await this._tree.access(path, mode);
+    }
+
+    /**
+     * Create file with an empty manifest
+     * @param {string} path
+     * @param {number} mode
+     * @return {number}
+     */
+    public async create(path: string, mode: number): Promise<number> {
+        const fd = await this._tree.create(path, mode);
+
+        try {
+            await this._attach(path, fd, true, true);
+        } catch (e) {
+            await this._tree.release(path, fd);
+            throw e;
+        }
+
+        return fd;
+    }
+
+    /**
+     * Open file and load its manifest
+     * @param {string} path
+     * @param {number} flags
+     * @return {number}
+     */
+    public async open(path: string, flags: number): Promise<number> {
+        const fd = await this._tree.open(path, flags);
+
+        try {
+            // eslint-disable-next-line no-bitwise
+            await this._attach(path, fd, (flags & (constants.O_WRONLY | constants.O_RDWR)) !== 0, (flags & constants.O_TRUNC) !== 0);
+        } catch (e) {
+            await this._tree.release(path, fd);
+            throw e;
+        }
+
+        return fd;
+    }
+
+    /**
+     * Read buffer
+     * @param {string} _path
+     * @param {number} fd
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async read(_path: string, fd: number, length: number, offset: number): Promise<Buffer> {
+        const file = this._getHandle(fd);
+
+        await this._applyPending(file);
+
+        return this._readRange(file.manifest, length, offset);
+    }
+
+    /**
+     * Write buffer, collected until the next read, sync or close
+     * @param {string} _path
+     * @param {number} fd
+     * @param {Buffer} buffer
+     * @param {number} offset
+     * @return {number}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async write(_path: string, fd: number, buffer: Buffer, offset: number): Promise<number> {
+        const file = this._getHandle(fd);
+
+        if (buffer.length > 0) {
+            file.pending.push({offset: offset, data: Buffer.from(buffer)});
+            file.pendingSize += buffer.length;
+        }
+
+        if (file.pendingSize >= DedupFS.MAX_PENDING_SIZE) {
+            await this._applyPending(file);
+        }
+
+        return buffer.length;
+    }
+
+    /**
+     * ftruncate
+     * @param {string} _path
+     * @param {number} fd
+     * @param {number} size
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async ftruncate(_path: string, fd: number, size: number): Promise<void> {
+        if (size < 0) {
+            throw new ErrnoFuseCb(Fuse.EINVAL);
+        }
+
+        const file = this._getHandle(fd);
+
+        await this._applyPending(file);
+
+        await this._withoutCollecting(async() => {
+            const manifest = file.manifest;
+
+            file.dirty = true;
+
+            if (size < manifest.size) {
+                const index = this._chunkAt(manifest, size);
+                const start = manifest.starts[index];
+                const chunks = manifest.chunks.slice(0, index);
+
+                // The chunk across the new end is cut there, like every last chunk.
+                if (start < size) {
+                    chunks.push(await this._storeChunk(await this._readRange(manifest, size - start, start)));
+                }
+
+                DedupFS._setChunks(manifest, chunks, size);
+            } else if (size > manifest.size) {
+                await this._replaceRegion(manifest, this._tailStart(manifest), size, [], size);
+            }
+        });
+    }
+
+    /**
+     * fallocate, zeros are written like any data and share their chunks
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     */
+    public async fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        const file = this._getHandle(fd);
+        const request = FallocateUtils.parse(mode, offset, length);
+
+        await this._applyPending(file);
+
+        const size = file.manifest.size;
+
+        if (request.zero) {
+            await FallocateUtils.writeZeros((buffer, position) => this.write(path, fd, buffer, position), offset, Math.min(request.end, size));
+        }
+
+        if (!request.keepSize && request.end > size) {
+            await this.ftruncate(path, fd, request.end);
+        }
+    }
+
+    /**
+     * truncate
+     * @param {string} path
+     * @param {number} size
+     */
+    public async truncate(path: string, size: number): Promise<void> {
+        const fd = await this.open(path, constants.O_RDWR);
+
+        try {
+            await this.ftruncate(path, fd, size);
+        } finally {
+            await this.release(path, fd);
+        }
+    }
+
+    /**
+     * Get attr, files report the size from their manifest
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async getattr(path: string): Promise<Stats> {
+        const st = await this._tree.getattr(path);
+
+        // eslint-disable-next-line no-bitwise
+        if ((st.mode & constants.S_IFMT) !== constants.S_IFREG) {
+            return st;
+        }
+
+        // The manifest on disk lags behind the writes to an open file.
+        const file = this._openFiles.get(path);
+
+        if (file !== undefined) {
+            st.size = DedupFS._openSize(file);
+            return st;
+        }
+
+        const fd = await this._tree.open(path, constants.O_RDONLY);
+
+        try {
+            const header = await this._tree.read(path, fd, DedupFS.MANIFEST_HEADER_SIZE, 0);
+            st.size = header.length === 0 ? 0 : DedupFS._manifestSize(header);
+        } finally {
+            await this._tree.release(path, fd);
+        }
+
+        return st;
+    }
+
+    /**
+     * Set attr, a size goes through truncate()
+     * @param {string} path
+     * @param {Partial<Stats>} attr
+     */
+    public async setattr(path: string, attr: Partial<Stats>): Promise<void> {
+        const {size, ...rest} = attr;
+
+        if (size !== undefined) {
+            await this.truncate(path, size);
+        }
+
+        await this._tree.setattr(path, rest);
+    }
+
+    /**
+     * statfs
+     * @param {string} path
+     * @return {StatFs}
+     */
+    public async statfs(path: string): Promise<StatFs> {
+        return this._tree.statfs(path);
+    }
+
+    /**
+     * mkdir
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async mkdir(path: string, mode: number): Promise<void> {
+        await this._tree.mkdir(path, mode);
+    }
+
+    /**
+     * Read dir
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        return this._tree.readdir(path);
+    }
+
+    /**
+     * Release, cuts pending writes and writes the manifest
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async release(path: string, fd: number): Promise<void> {
+        const file = this._handles.get(fd);
+
+        if (file === undefined) {
+            return;
+        }
+
+        this._handles.delete(fd);
+        file.fds.delete(fd);
+
+        try {
+            await this._saveManifest(path, file);
+        } finally {
+            if (file.fds.size === 0 && this._openFiles.get(file.path) === file) {
+                this._openFiles.delete(file.path);
+            }
+
+            if (fd !== file.fd) {
+                await this._tree.release(path, fd);
+            }
+
+            if (file.fds.size === 0 && file.fd !== null) {
+                await this._tree.release(path, file.fd);
+            }
+        }
+    }
+
+    /**
+     * Rename
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async rename(src: string, dest: string): Promise<void> {
+        await this._tree.rename(src, dest);
+
+        const prefix = `${src}/`;
+        const moved = [...this._openFiles.values()].filter(({path}) => path === src || path.startsWith(prefix));
+
+        this._openFiles.delete(dest);
+
+        for (const file of moved) {
+            this._openFiles.delete(file.path);
+            file.path = `${dest}${file.path.slice(src.length)}`;
+            this._openFiles.set(file.path, file);
+        }
+    }
+
+    /**
+     * Remove dir
+     * @param {string} path
+     */
+    public async rmdir(path: string): Promise<void> {
+        await this._tree.rmdir(path);
+    }
+
+    /**
+     * unlink, the chunks stay until collectGarbage()
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        await this._tree.unlink(path);
+
+        // Its fds keep the file, a new file under the path is another one.
+        this._openFiles.delete(path);
+    }
+
+    /**
+     * flush
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async flush(path: string, fd: number): Promise<void> {
+        await this._tree.flush(path, fd);
+    }
+
+    /**
+     * fsync, cuts pending writes and writes the manifest first
+     * @param {string} path
+     * @param {number} fd
+     * @param {boolean} datasync
+     */
+    public async fsync(path: string, fd: number, datasync: boolean): Promise<void> {
+        const file = this._getHandle(fd);
+
+        await this._saveManifest(path, file);
+        await this._tree.fsync(path, file.fd ?? fd, datasync);
+    }
+
+    /**
+     * symlink
+     * @param {string} target
+     * @param {string} linkPath
+     */
+    public async symlink(target: string, linkPath: string): Promise<void> {
+        await this._tree.symlink(target, linkPath);
+    }
+
+    /**
+     * readlink
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        return this._tree.readlink(path);
+    }
+
+    /**
+     * link, both names share the manifest
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async link(src: string, dest: string): Promise<void> {
+        await this._tree.link(src, dest);
+    }
+
+    /**
+     * mknod, a new regular file has an empty manifest
+     * @param {string} path
+     * @param {number} mode
+     * @param {number} dev
+     */
+    public async mknod(path: string, mode: number, dev: number): Promise<void> {
+        await this._tree.mknod(path, mode, dev);
+    }
+
+    /**
+     * Remove every chunk no manifest refers to, and temporary chunk files
+     * older than TMP_GRACE_PERIOD, left by interrupted writes. Files open in
+     * this instance count as referring to their chunks. Chunk cutting and
+     * manifest saves of this instance wait while it runs; other instances
+     * on the same baseDir must not write meanwhile.
+     * @return {number} Number of removed chunk files
+     */
+    public async collectGarbage(): Promise<number> {
+        while (this._collecting !== null) {
+            // eslint-disable-next-line no-await-in-loop
+            await this._collecting.catch(() => 0);
+        }
+
+        const collecting = this._collect();
+        this._collecting = collecting;
+
+        try {
+            return await collecting;
+        } finally {
+            if (this._collecting === collecting) {
+                this._collecting = null;
+            }
+        }
+    }
+
+    /**
+     * Garbage collection once no chunk cutting or manifest save is running
+     * @return {number} Number of removed chunk files
+     * @private
+     */
+    private async _collect(): Promise<number> {
+        if (this._busy > 0) {
+            await new Promise<void>((resolve) => {
+                this._idleWaiters.push(resolve);
+            });
+        }
+
+        const chunkDir = tpath.join(this._options.baseDir, DedupFS.CHUNK_DIRNAME);
+        const candidates: DedupFSChunkFile[] = [];
+        const tmpBefore = Date.now() - DedupFS.TMP_GRACE_PERIOD;
+
+        for (const prefix of await fs.readdir(chunkDir)) {
+            // eslint-disable-next-line no-await-in-loop
+            for (const name of await fs.readdir(tpath.join(chunkDir, prefix))) {
+                const path = tpath.join(chunkDir, prefix, name);
+                const isTmp = name.endsWith(DedupFS.TMP_SUFFIX);
+
+                // A young temporary file may belong to a write of another instance.
+                // eslint-disable-next-line no-await-in-loop
+                if (isTmp && (await fs.stat(path)).mtimeMs >= tmpBefore) {
+                    continue;
+                }
+
+                candidates.push({id: isTmp ? '' : `${prefix}${name}`, path: path});
+            }
+        }
+
+        const used = new Set<string>();
+
+        await this._markUsed('/', used);
+
+        // Files unlinked while open are only left in _handles.
+        for (const file of new Set(this._handles.values())) {
+            for (const {id} of file.manifest.chunks) {
+                used.add(id.toString('hex'));
+            }
+        }
+
+        let removed = 0;
+
+        for (const {id, path} of candidates) {
+            if (!used.has(id)) {
+                this._storedChunks.delete(id);
+                this._chunkCache.delete(id);
+                // eslint-disable-next-line no-await-in-loop
+                await fs.rm(path, {force: true});
+                removed++;
+            }
+        }
+
+        return removed;
+    }
+
+    /**
+     * Add the chunk ids of every file below a directory
+     * @param {string} dirPath
+     * @param {Set<string>} used
+     * @private
+     */
+    private async _markUsed(dirPath: string, used: Set<string>): Promise<void> {
+        for (const name of await this._tree.readdir(dirPath)) {
+            const path = tpath.posix.join(dirPath, name);
+            // eslint-disable-next-line no-await-in-loop
+            const st = await this._tree.getattr(path);
+            // eslint-disable-next-line no-bitwise
+            const type = st.mode & constants.S_IFMT;
+
+            if (type === constants.S_IFDIR) {
+                // eslint-disable-next-line no-await-in-loop
+                await this._markUsed(path, used);
+            } else if (type === constants.S_IFREG) {
+                // eslint-disable-next-line no-await-in-loop
+                const fd = await this._tree.open(path, constants.O_RDONLY);
+
+                try {
+                    // eslint-disable-next-line no-await-in-loop
+                    for (const {id} of (await this._loadManifest(path, fd)).chunks) {
+                        used.add(id.toString('hex'));
+                    }
+                } finally {
+                    // eslint-disable-next-line no-await-in-loop
+                    await this._tree.release(path, fd);
+                }
+            }
+        }
+    }
+
+    /**
+     * Derive a subkey of the master key with HKDF-SHA256
+     * @param {string} info
+     * @return {Buffer}
+     * @private
+     */
+    private _deriveKey(info: string): Buffer {
+        return Buffer.from(crypto.hkdfSync('sha256', this._options.encryptionKey, Buffer.alloc(0), info, 32));
+    }
+
+    /**
+     * Run chunk cutting or a manifest save, not while `collectGarbage()`
+     * runs. Must not nest.
+     * @param {Function} fn
+     * @return {T}
+     * @private
+     */
+    private async _withoutCollecting<T>(fn: () => Promise<T>): Promise<T> {
+        while (this._collecting !== null) {
+            // eslint-disable-next-line no-await-in-loop
+            await this._collecting.catch(() => 0);
+        }
+
+        this._busy++;
+
+        try {
+            return await fn();
+        } finally {
+            this._busy--;
+
+            if (this._busy === 0) {
+                for (const resolve of this._idleWaiters.splice(0)) {
+                    resolve();
+                }
+            }
+        }
+    }
+
+    /**
+     * Add a tree fd to the open file of its path, or open the file. A
+     * writable fd becomes the one the manifest is saved through if there is
+     * none, or if it truncated the file, since that went past the size the
+     * old one caches.
+     * @param {string} path
+     * @param {number} fd
+     * @param {boolean} writable
+     * @param {boolean} truncated The manifest is empty now
+     * @private
+     */
+    private async _attach(path: string, fd: number, writable: boolean, truncated: boolean): Promise<void> {
+        let file = this._openFiles.get(path);
+
+        if (file === undefined) {
+            file = {
+                path: path,
+                fds: new Set(),
+                fd: writable ? fd : null,
+                manifest: truncated ? {size: 0, chunks: [], starts: []} : await this._loadManifest(path, fd),
+                pending: [],
+                pendingSize: 0,
+                dirty: truncated
+            };
+
+            this._openFiles.set(path, file);
+        } else if (truncated) {
+            const previous = file.fd;
+
+            DedupFS._setChunks(file.manifest, [], 0);
+            file.pending = [];
+            file.pendingSize = 0;
+            file.dirty = true;
+            file.fd = fd;
+
+            if (previous !== null && !file.fds.has(previous)) {
+                await this._tree.release(path, previous);
+            }
+        } else if (writable && file.fd === null) {
+            file.fd = fd;
+        }
+
+        file.fds.add(fd);
+        this._handles.set(fd, file);
+    }
+
+    /**
+     * Return an open file
+     * @param {number} fd
+     * @return {DedupFSOpenFile}
+     * @private
+     */
+    private _getHandle(fd: number): DedupFSOpenFile {
+        const file = this._handles.get(fd);
+
+        if (file === undefined) {
+            throw new ErrnoFuseCb(Fuse.EBADF, `Bad file descriptor: ${fd}`);
+        }
+
+        return file;
+    }
+
+    /**
+     * Read and parse the manifest of an open tree file. An empty file (as
+     * left by mknod) is an empty manifest.
+     * @param {string} path
+     * @param {number} fd
+     * @return {DedupFSManifest}
+     * @private
+     */
+    private async _loadManifest(path: string, fd: number): Promise<DedupFSManifest> {
+        const parts: Buffer[] = [];
+        let part = await this._tree.read(path, fd, DedupFS.MANIFEST_READ_SIZE, 0);
+        let offset = 0;
+
+        while (part.length > 0) {
+            parts.push(part);
+            offset += part.length;
+            // eslint-disable-next-line no-await-in-loop
+            part = await this._tree.read(path, fd, DedupFS.MANIFEST_READ_SIZE, offset);
+        }
+
+        const raw = Buffer.concat(parts);
+        const manifest: DedupFSManifest = {size: 0, chunks: [], starts: []};
+
+        if (raw.length === 0) {
+            return manifest;
+        }
+
+        if ((raw.length - DedupFS.MANIFEST_HEADER_SIZE) % DedupFS.MANIFEST_ENTRY_SIZE !== 0) {
+            throw new ErrnoFuseCb(Fuse.EIO, `DedupFS manifest has a partial entry: ${path}`);
+        }
+
+        const chunks: DedupFSChunk[] = [];
+
+        for (let pos = DedupFS.MANIFEST_HEADER_SIZE; pos < raw.length; pos += DedupFS.MANIFEST_ENTRY_SIZE) {
+            chunks.push({
+                id: Buffer.from(raw.subarray(pos, pos + DedupFS.ID_SIZE)),
+                length: raw.readUInt32BE(pos + DedupFS.ID_SIZE)
+            });
+        }
+
+        DedupFS._setChunks(manifest, chunks, DedupFS._manifestSize(raw));
+
+        const chunked = manifest.chunks.length === 0
+            ? 0
+            : manifest.starts[manifest.starts.length - 1] + manifest.chunks[manifest.chunks.length - 1].length;
+
+        if (chunked !== manifest.size) {
+            throw new ErrnoFuseCb(Fuse.EIO, `DedupFS manifest chunks do not add up to its size: ${path}`);
+        }
+
+        return manifest;
+    }
+
+    /**
+     * Cut pending writes into chunks and write the manifest if it changed
+     * @param {string} path
+     * @param {DedupFSOpenFile} file
+     * @private
+     */
+    private async _saveManifest(path: string, file: DedupFSOpenFile): Promise<void> {
+        await this._applyPending(file);
+        await this._withoutCollecting(() => this._writeManifest(path, file));
+    }
+
+    /**
+     * Write the manifest of an open file if it changed
+     * @param {string} path
+     * @param {DedupFSOpenFile} file
+     * @private
+     */
+    private async _writeManifest(path: string, file: DedupFSOpenFile): Promise<void> {
+        if (!file.dirty) {
+            return;
+        }
+
+        if (file.fd === null) {
+            throw new ErrnoFuseCb(Fuse.EBADF, `DedupFS file is not open for writing: ${path}`);
+        }
+
+        const fd = file.fd;
+        const {size, chunks} = file.manifest;
+        const raw = Buffer.alloc(DedupFS.MANIFEST_HEADER_SIZE + (chunks.length * DedupFS.MANIFEST_ENTRY_SIZE));
+
+        DedupFS.MANIFEST_MAGIC.copy(raw, 0);
+        raw.writeUInt32BE(DedupFS.MANIFEST_VERSION, 4);
+        raw.writeBigUInt64BE(BigInt(size), 8);
+
+        chunks.forEach(({id, length}, index) => {
+            const pos = DedupFS.MANIFEST_HEADER_SIZE + (index * DedupFS.MANIFEST_ENTRY_SIZE);
+
+            id.copy(raw, pos);
+            raw.writeUInt32BE(length, pos + DedupFS.ID_SIZE);
+        });
+
+        file.dirty = false;
+        await this._tree.write(path, fd, raw, 0);
+        await this._tree.ftruncate(path, fd, raw.length);
+    }
+
+    /**
+     * Cut the pending writes of an open file into chunks. Every write
+     * widens to the chunks it touches, the tail chunk if it grows the file;
+     * overlapping ranges are cut again together, back to front so the chunk
+     * indexes in front stay valid.
+     * @param {DedupFSOpenFile} file
+     * @private
+     */
+    private async _applyPending(file: DedupFSOpenFile): Promise<void> {
+        if (file.pending.length === 0) {
+            return;
+        }
+
+        await this._withoutCollecting(() => this._cutPending(file));
+    }
+
+    /**
+     * `_applyPending()` while no garbage collection runs
+     * @param {DedupFSOpenFile} file
+     * @private
+     */
+    private async _cutPending(file: DedupFSOpenFile): Promise<void> {
+        const pending = file.pending;
+        const manifest = file.manifest;
+
+        if (pending.length === 0) {
+            return;
+        }
+
+        const newSize = DedupFS._openSize(file);
+
+        file.pending = [];
+        file.pendingSize = 0;
+        file.dirty = true;
+
+        const ranges = pending.map(({offset, data}) => {
+            const end = offset + data.length;
+            let hi = end;
+
+            if (end <= manifest.size) {
+                const last = this._chunkAt(manifest, end - 1);
+                hi = manifest.starts[last] + manifest.chunks[last].length;
+            }
+
+            return {
+                lo: offset < manifest.size ? manifest.starts[this._chunkAt(manifest, offset)] : this._tailStart(manifest),
+                hi: hi
+            };
+        }).sort((a, b) => a.lo - b.lo);
+
+        const merged = [ranges[0]];
+
+        for (const range of ranges.slice(1)) {
+            const last = merged[merged.length - 1];
+
+            if (range.lo <= last.hi) {
+                last.hi = Math.max(last.hi, range.hi);
+            } else {
+                merged.push(range);
+            }
+        }
+
+        for (const {lo, hi} of merged.reverse()) {
+            // eslint-disable-next-line no-await-in-loop
+            await this._replaceRegion(manifest, lo, hi, pending, newSize);
+        }
+    }
+
+    /**
+     * Cut a chunk aligned region again: its old content (zeros past the old
+     * end) with the writes laid over it in order, replacing its chunks. The
+     * region is assembled piece by piece, so it may be larger than memory.
+     * @param {DedupFSManifest} manifest
+     * @param {number} lo Start of a chunk, or the old end
+     * @param {number} hi End of a chunk, or past the old end
+     * @param {{offset: number; data: Buffer;}[]} writes
+     * @param {number} size Size of the manifest afterwards
+     * @private
+     */
+    private async _replaceRegion(
+        manifest: DedupFSManifest,
+        lo: number,
+        hi: number,
+        writes: {offset: number; data: Buffer;}[],
+        size: number
+    ): Promise<void> {
+        const chunks: DedupFSChunk[] = [];
+        let carry = Buffer.alloc(0);
+
+        for (let pos = lo; pos < hi; pos += DedupFS.REGION_PIECE_SIZE) {
+            const length = Math.min(DedupFS.REGION_PIECE_SIZE, hi - pos);
+            const piece = Buffer.alloc(length);
+
+            // eslint-disable-next-line no-await-in-loop
+            (await this._readRange(manifest, length, pos)).copy(piece);
+
+            for (const {offset, data} of writes) {
+                if (offset < pos + length && offset + data.length > pos) {
+                    data.copy(piece, Math.max(offset - pos, 0), Math.max(pos - offset, 0));
+                }
+            }
+
+            const buf = carry.length > 0 ? Buffer.concat([carry, piece]) : piece;
+            const isLast = pos + length >= hi;
+            let start = 0;
+
+            for (let end = this._nextCut(buf, start, isLast); end !== -1; end = this._nextCut(buf, start, isLast)) {
+                // eslint-disable-next-line no-await-in-loop
+                chunks.push(await this._storeChunk(buf.subarray(start, end)));
+                start = end;
+            }
+
+            carry = buf.subarray(start);
+        }
+
+        const first = lo < manifest.size ? this._chunkAt(manifest, lo) : manifest.chunks.length;
+        const after = hi < manifest.size ? this._chunkAt(manifest, hi) : manifest.chunks.length;
+
+        DedupFS._setChunks(manifest, manifest.chunks.slice(0, first).concat(chunks, manifest.chunks.slice(after)), size);
+    }
+
+    /**
+     * End of the chunk starting at `start` by the gear hash: the first
+     * position after the minimum size where the masked hash is zero, at the
+     * latest the maximum size. -1 if `buf` ends before a cut is known; at
+     * the end of a region the rest is the last chunk.
+     * @param {Buffer} buf
+     * @param {number} start
+     * @param {boolean} isLast `buf` ends the region
+     * @return {number}
+     * @private
+     */
+    private _nextCut(buf: Buffer, start: number, isLast: boolean): number {
+        const average = this._options.averageChunkSize;
+        const min = average / 4;
+        const max = average * 4;
+        const mask = average - 1;
+        const limit = Math.min(buf.length, start + max);
+        let hash = 0;
+
+        if (start >= buf.length) {
+            return -1;
+        }
+
+        for (let i = start + min; i < limit; i++) {
+            // eslint-disable-next-line no-bitwise
+            hash = ((hash << 1) + this._gear[buf[i]]) >>> 0;
+
+            // eslint-disable-next-line no-bitwise
+            if ((hash & mask) === 0) {
+                return i + 1;
+            }
+        }
+
+        if (limit === start + max) {
+            return limit;
+        }
+
+        return isLast ? buf.length : -1;
+    }
+
+    /**
+     * Store a chunk unless a chunk with its id exists. It is written to a
+     * temporary name and renamed, so a chunk file is always complete.
+     * @param {Buffer} plain
+     * @return {DedupFSChunk}
+     * @private
+     */
+    private async _storeChunk(plain: Buffer): Promise<DedupFSChunk> {
+        const id = crypto.createHmac('sha256', this._idKey).update(plain).digest();
+        const hex = id.toString('hex');
+
+        if (!this._storedChunks.has(hex)) {
+            const path = this._chunkPath(hex);
+
+            try {
+                await fs.access(path);
+            } catch {
+                const tmpPath = `${path}.${crypto.randomBytes(8).toString('hex')}${DedupFS.TMP_SUFFIX}`;
+
+                await fs.mkdir(tpath.dirname(path), {recursive: true});
+                await fs.writeFile(tmpPath, CryptFS.sealBlock(this._chunkKey, plain, id));
+                await fs.rename(tmpPath, path);
+            }
+
+            this._storedChunks.add(hex);
+        }
+
+        return {id: id, length: plain.length};
+    }
+
+    /**
+     * Read and decrypt a chunk
+     * @param {DedupFSChunk} chunk
+     * @return {Buffer}
+     * @private
+     */
+    private async _loadChunk(chunk: DedupFSChunk): Promise<Buffer> {
+        const hex = chunk.id.toString('hex');
+        const cached = this._chunkCache.get(hex);
+
+        if (cached !== undefined) {
+            this._chunkCache.delete(hex);
+            this._chunkCache.set(hex, cached);
+            return cached;
+        }
+
+        let sealed: Buffer;
+
+        try {
+            sealed = await fs.readFile(this._chunkPath(hex));
+        } catch {
+            throw new ErrnoFuseCb(Fuse.EIO, `DedupFS chunk missing: ${hex}`);
+        }
+
+        let plain: Buffer;
+
+        try {
+            plain = CryptFS.openBlock(this._chunkKey, sealed, chunk.id);
+        } catch {
+            throw new ErrnoFuseCb(Fuse.EIO, `DedupFS chunk does not authenticate: ${hex}`);
+        }
+
+        if (plain.length !== chunk.length) {
+            throw new ErrnoFuseCb(Fuse.EIO, `DedupFS chunk has ${plain.length} bytes, the manifest says ${chunk.length}: ${hex}`);
+        }
+
+        this._chunkCache.set(hex, plain);
+
+        if (this._chunkCache.size > DedupFS.CHUNK_CACHE_SIZE) {
+            this._chunkCache.delete(this._chunkCache.keys().next().value!);
+        }
+
+        return plain;
+    }
+
+    /**
+     * Read a plaintext range of a manifest
+     * @param {DedupFSManifest} manifest
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     * @private
+     */
+    private async _readRange(manifest: DedupFSManifest, length: number, offset: number): Promise<Buffer> {
+        if (offset >= manifest.size) {
+            return Buffer.alloc(0);
+        }
+
+        const out = Buffer.alloc(Math.min(length, manifest.size - offset));
+
+        for (let done = 0, index = this._chunkAt(manifest, offset); done < out.length; index++) {
+            // eslint-disable-next-line no-await-in-loop
+            const plain = await this._loadChunk(manifest.chunks[index]);
+
+            done += plain.copy(out, done, offset + done - manifest.starts[index]);
+        }
+
+        return out;
+    }
+
+    /**
+     * Index of the chunk holding a plaintext offset below the size
+     * @param {DedupFSManifest} manifest
+     * @param {number} offset
+     * @return {number}
+     * @private
+     */
+    private _chunkAt(manifest: DedupFSManifest, offset: number): number {
+        let lo = 0;
+        let hi = manifest.starts.length - 1;
+
+        while (lo < hi) {
+            const mid = Math.ceil((lo + hi) / 2);
+
+            if (manifest.starts[mid] <= offset) {
+                lo = mid;
+            } else {
+                hi = mid - 1;
+            }
+        }
+
+        return lo;
+    }
+
+    /**
+     * Start of the last chunk, which was cut at the end of the file and is
+     * cut again when the file grows
+     * @param {DedupFSManifest} manifest
+     * @return {number}
+     * @private
+     */
+    private _tailStart(manifest: DedupFSManifest): number {
+        return manifest.starts.length === 0 ? 0 : manifest.starts[manifest.starts.length - 1];
+    }
+
+    /**
+     * Path of a chunk file
+     * @param {string} hex
+     * @return {string}
+     * @private
+     */
+    private _chunkPath(hex: string): string {
+        return tpath.join(this._options.baseDir, DedupFS.CHUNK_DIRNAME, hex.slice(0, 2), hex.slice(2));
+    }
+
+    /**
+     * Size of an open file including its pending writes
+     * @param {DedupFSOpenFile} file
+     * @return {number}
+     * @private
+     */
+    private static _openSize(file: DedupFSOpenFile): number {
+        return file.pending.reduce((size, {offset, data}) => Math.max(size, offset + data.length), file.manifest.size);
+    }
+
+    /**
+     * Replace the chunks and size of a manifest and recompute the chunk
+     * offsets
+     * @param {DedupFSManifest} manifest
+     * @param {DedupFSChunk[]} chunks
+     * @param {number} size
+     * @private
+     */
+    private static _setChunks(manifest: DedupFSManifest, chunks: DedupFSChunk[], size: number): void {
+        let start = 0;
+
+        manifest.size = size;
+        manifest.chunks = chunks;
+        manifest.starts = chunks.map(({length}) => {
+            const chunkStart = start;
+            start += length;
+            return chunkStart;
+        });
+    }
+
+    /**
+     * File size from a manifest header
+     * @param {Buffer} header
+     * @return {number}
+     * @private
+     */
+    private static _manifestSize(header: Buffer): number {
+        if (
+            header.length < DedupFS.MANIFEST_HEADER_SIZE ||
+            !header.subarray(0, 4).equals(DedupFS.MANIFEST_MAGIC) ||
+            header.readUInt32BE(4) !== DedupFS.MANIFEST_VERSION
+        ) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'DedupFS manifest header is invalid');
+        }
+
+        return Number(header.readBigUInt64BE(8));
+    }
+
+}
\ No newline at end of file
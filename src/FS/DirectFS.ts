@@ -2,6 +2,7 @@ import Fuse, {StatFs} from 'fuse-native';
 import {stat, lstat, mkdir, readdir, rename, rmdir, chmod, chown, truncate, utimes, unlink, symlink, readlink, link} from 'node:fs/promises';
 import tpath from 'path';
 import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {FallocateFlag, FallocateUtils} from '../Utils/FallocateUtils.js';
 import {VirtualFSEntry} from './VirtualFSEntry.js';
 import {VirtualFSHandler} from './VirtualFSHandler.js';
 import {constants} from 'node:fs';
@@ -159,6 +160,44 @@ export class DirectFS implements VirtualFSEntry {
         await fh.truncate(size);
     }
 
+    /**
+     * fallocate. Node exposes no fallocate(2), so like the other backends
+     * an allocation grows the file with ftruncate and reserves no space, and
+     * a KEEP_SIZE allocation changes nothing. FALLOC_FL_ZERO_RANGE writes
+     * zeros over the part of the range inside the file. FALLOC_FL_PUNCH_HOLE
+     * would have to free space and fails with EOPNOTSUPP.
+     * @param {string} _path
+     * @param {number} fd
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async fallocate(_path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        const { fh } = this._handler.getHandle(fd);
+
+        if (!fh) {
+            throw new ErrnoFuseCb(Fuse.EBADF);
+        }
+
+        const request = FallocateUtils.parse(mode, offset, length);
+
+        // eslint-disable-next-line no-bitwise
+        if ((mode & FallocateFlag.PUNCH_HOLE) !== 0) {
+            throw new ErrnoFuseCb(Fuse.EOPNOTSUPP, 'Punching a hole needs fallocate(2)');
+        }
+
+        const { size } = await fh.stat();
+
+        if (request.zero) {
+            await FallocateUtils.writeZeros((buffer, position) => fh.write(buffer, 0, buffer.length, position), offset, Math.min(request.end, size));
+        }
+
+        if (!request.keepSize && request.end > size) {
+            await fh.truncate(request.end);
+        }
+    }
+
     /**
      * Get attr (uses lstat so symlinks are returned as links, not their targets).
      * @param {string} path
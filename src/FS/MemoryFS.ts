@@ -0,0 +1,842 @@
+import Fuse, {StatFs} from 'fuse-native';
+import {constants, Stats} from 'node:fs';
+import * as tpath from 'path';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {FallocateUtils} from '../Utils/FallocateUtils.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+/**
+ * Memory FileSystem options
+ */
+interface MemoryFSOptions {
+
+    /**
+     * Upper limit for the bytes of file content held, writes beyond it fail
+     * with ENOSPC (default: no limit)
+     */
+    maxSize?: number;
+}
+
+/**
+ * An inode: a file, directory or symlink. Hard links share the node.
+ */
+interface MemoryFSNode {
+    ino: number;
+
+    /**
+     * File type and permission bits
+     */
+    mode: number;
+    uid: number;
+    gid: number;
+
+    /**
+     * Number of directory entries pointing to a file or symlink
+     */
+    nlink: number;
+    atime: Date;
+    mtime: Date;
+    ctime: Date;
+    birthtime: Date;
+
+    /**
+     * Content of a file, `size` bytes are used
+     */
+    data: Buffer;
+    size: number;
+
+    /**
+     * Entries of a directory
+     */
+    children: Map<string, MemoryFSNode>;
+
+    /**
+     * Target of a symlink
+     */
+    target: string;
+}
+
+/**
+ * Open file
+ */
+interface MemoryFSHandle {
+    node: MemoryFSNode;
+    flags: number;
+}
+
+/**
+ * Memory FileSystem: files, directories, symlinks and hard links with modes
+ * and timestamps kept in process memory. Everything is gone when the
+ * process ends, which makes it a scratch mount or a backend for tests.
+ * Permissions are stored but not checked, like in the other entries.
+ */
+export class MemoryFS implements VirtualFSEntry {
+
+    /**
+     * Block size reported by getattr and statfs
+     */
+    private static readonly BLOCK_SIZE = 4096;
+
+    /**
+     * Device id reported by getattr
+     */
+    private static readonly DEV = 0x4d454d;
+
+    /**
+     * Options
+     * @private
+     */
+    private _options: MemoryFSOptions;
+
+    /**
+     * Root directory, null until init
+     * @private
+     */
+    private _root: MemoryFSNode|null = null;
+
+    /**
+     * Open files by fd
+     * @private
+     */
+    private _handles: Map<number, MemoryFSHandle> = new Map();
+
+    /**
+     * Next free fd
+     * @private
+     */
+    private _nextFD = 1;
+
+    /**
+     * Next free inode number
+     * @private
+     */
+    private _nextIno = 1;
+
+    /**
+     * Bytes of file content held
+     * @private
+     */
+    private _usedSize = 0;
+
+    /**
+     * Constructor
+     * @param {MemoryFSOptions} options
+     */
+    public constructor(options: MemoryFSOptions = {}) {
+        this._options = options;
+    }
+
+    /**
+     * Init, creates the empty root directory
+     */
+    public async init(): Promise<void> {
+        // eslint-disable-next-line no-bitwise
+        this._root ??= this._newNode(constants.S_IFDIR | 0o755);
+    }
+
+    /**
+     * is Init
+     * @return {boolean}
+     */
+    public isInit(): boolean {
+        return this._root !== null;
+    }
+
+    /**
+     * Access file/directory, only checks that it exists
+     * @param {string} path
+     * @param {number} _mode
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async access(path: string, _mode: number): Promise<void> {
+        this._lookup(path);
+    }
+
+    /**
+     * Create file, an existing file is truncated
+     * @param {string} path
+     * @param {number} mode
+     * @return {number}
+     */
+    public async create(path: string, mode: number): Promise<number> {
+        const [parent, name] = this._lookupParent(path);
+        let node = parent.children.get(name);
+
+        if (node === undefined) {
+            // eslint-disable-next-line no-bitwise
+            node = this._newNode(constants.S_IFREG | (mode & 0o7777));
+            this._addChild(parent, name, node);
+        } else if (MemoryFS._isType(node, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        } else {
+            this._resize(node, 0);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        return this._allocHandle(node, constants.O_CREAT | constants.O_TRUNC | constants.O_RDWR);
+    }
+
+    /**
+     * Open file
+     * @param {string} path
+     * @param {number} flags
+     * @return {number}
+     */
+    public async open(path: string, flags: number): Promise<number> {
+        const node = this._lookup(path);
+        // eslint-disable-next-line no-bitwise
+        const writable = (flags & (constants.O_WRONLY | constants.O_RDWR)) !== 0;
+
+        if (writable && MemoryFS._isType(node, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        if (writable && (flags & constants.O_TRUNC) !== 0) {
+            this._resize(node, 0);
+        }
+
+        return this._allocHandle(node, flags);
+    }
+
+    /**
+     * Read buffer
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     */
+    public async read(path: string, fd: number, length: number, offset: number): Promise<Buffer> {
+        const {node} = this._getHandle(fd);
+
+        if (offset >= node.size) {
+            return Buffer.alloc(0);
+        }
+
+        return Buffer.from(node.data.subarray(offset, Math.min(node.size, offset + length)));
+    }
+
+    /**
+     * Write buffer
+     * @param {string} path
+     * @param {number} fd
+     * @param {Buffer} buffer
+     * @param {number} offset
+     * @return {number}
+     */
+    public async write(path: string, fd: number, buffer: Buffer, offset: number): Promise<number> {
+        const {node} = this._getHandle(fd);
+        const end = offset + buffer.length;
+
+        if (end > node.size) {
+            this._resize(node, end);
+        } else {
+            this._touch(node);
+        }
+
+        buffer.copy(node.data, offset);
+
+        return buffer.length;
+    }
+
+    /**
+     * ftruncate
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} size
+     */
+    public async ftruncate(path: string, fd: number, size: number): Promise<void> {
+        this._resize(this._getHandle(fd).node, size);
+    }
+
+    /**
+     * fallocate, memory is not reserved ahead
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     */
+    public async fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        const {node} = this._getHandle(fd);
+        const request = FallocateUtils.parse(mode, offset, length);
+
+        if (request.zero && offset < node.size) {
+            node.data.fill(0, offset, Math.min(request.end, node.size));
+            this._touch(node);
+        }
+
+        if (!request.keepSize && request.end > node.size) {
+            this._resize(node, request.end);
+        }
+    }
+
+    /**
+     * truncate
+     * @param {string} path
+     * @param {number} size
+     */
+    public async truncate(path: string, size: number): Promise<void> {
+        const node = this._lookup(path);
+
+        if (!MemoryFS._isType(node, constants.S_IFREG)) {
+            throw new ErrnoFuseCb(MemoryFS._isType(node, constants.S_IFDIR) ? Fuse.EISDIR : Fuse.EINVAL, `Not a regular file: ${path}`);
+        }
+
+        this._resize(node, size);
+    }
+
+    /**
+     * Get attr, symlinks are returned as links, not their targets
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async getattr(path: string): Promise<Stats> {
+        const node = this._lookup(path);
+        const isDir = MemoryFS._isType(node, constants.S_IFDIR);
+        let nlink = node.nlink;
+
+        if (isDir) {
+            nlink = 2;
+
+            for (const child of node.children.values()) {
+                if (MemoryFS._isType(child, constants.S_IFDIR)) {
+                    nlink++;
+                }
+            }
+        }
+
+        const size = isDir ? MemoryFS.BLOCK_SIZE : node.size;
+
+        return {
+            dev: MemoryFS.DEV,
+            ino: node.ino,
+            mode: node.mode,
+            nlink: nlink,
+            uid: node.uid,
+            gid: node.gid,
+            rdev: 0,
+            size: size,
+            blksize: MemoryFS.BLOCK_SIZE,
+            blocks: Math.ceil(size / 512),
+            atime: new Date(node.atime),
+            mtime: new Date(node.mtime),
+            ctime: new Date(node.ctime),
+            birthtime: new Date(node.birthtime),
+            atimeMs: node.atime.getTime(),
+            mtimeMs: node.mtime.getTime(),
+            ctimeMs: node.ctime.getTime(),
+            birthtimeMs: node.birthtime.getTime()
+        } as Stats;
+    }
+
+    /**
+     * Set attr
+     * @param {string} path
+     * @param {Partial<Stats>} attr
+     */
+    public async setattr(path: string, attr: Partial<Stats>): Promise<void> {
+        const node = this._lookup(path);
+
+        if (attr.size !== undefined && MemoryFS._isType(node, constants.S_IFREG)) {
+            this._resize(node, attr.size);
+        }
+
+        if (attr.mode !== undefined) {
+            // eslint-disable-next-line no-bitwise
+            node.mode = (node.mode & constants.S_IFMT) | (attr.mode & 0o7777);
+        }
+
+        node.uid = attr.uid ?? node.uid;
+        node.gid = attr.gid ?? node.gid;
+        node.atime = attr.atime ?? node.atime;
+        node.mtime = attr.mtime ?? node.mtime;
+        node.ctime = new Date();
+    }
+
+    /**
+     * statfs, the totals follow `maxSize` if set
+     * @param {string} _path
+     * @return {StatFs}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async statfs(_path: string): Promise<StatFs> {
+        const used = Math.ceil(this._usedSize / MemoryFS.BLOCK_SIZE);
+        const blocks = this._options.maxSize === undefined
+            ? Math.max(1000000, used * 2)
+            : Math.floor(this._options.maxSize / MemoryFS.BLOCK_SIZE);
+        const free = Math.max(0, blocks - used);
+
+        return {
+            bsize: MemoryFS.BLOCK_SIZE,
+            frsize: MemoryFS.BLOCK_SIZE,
+            blocks: blocks,
+            bfree: free,
+            bavail: free,
+            files: 1000000,
+            ffree: 1000000,
+            favail: 1000000,
+            fsid: MemoryFS.DEV,
+            flag: 0,
+            namemax: 255
+        };
+    }
+
+    /**
+     * mkdir
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async mkdir(path: string, mode: number): Promise<void> {
+        const [parent, name] = this._lookupParent(path);
+
+        if (parent.children.has(name)) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${path}`);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        this._addChild(parent, name, this._newNode(constants.S_IFDIR | (mode & 0o7777)));
+    }
+
+    /**
+     * Read dir
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        return [...this._lookupDir(path).children.keys()];
+    }
+
+    /**
+     * Release
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async release(path: string, fd: number): Promise<void> {
+        this._handles.delete(fd);
+    }
+
+    /**
+     * Rename, replaces an existing destination like rename(2)
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async rename(src: string, dest: string): Promise<void> {
+        const [srcParent, srcName] = this._lookupParent(src);
+        const [destParent, destName] = this._lookupParent(dest);
+        const node = srcParent.children.get(srcName);
+
+        if (node === undefined) {
+            throw new ErrnoFuseCb(Fuse.ENOENT, `No such file or directory: ${src}`);
+        }
+
+        const existing = destParent.children.get(destName);
+
+        if (existing === node) {
+            return;
+        }
+
+        const isDir = MemoryFS._isType(node, constants.S_IFDIR);
+
+        if (isDir && this._isAncestor(node, destParent)) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Can not move a directory into itself: ${src}`);
+        }
+
+        if (existing !== undefined) {
+            const existingIsDir = MemoryFS._isType(existing, constants.S_IFDIR);
+
+            if (isDir && !existingIsDir) {
+                throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${dest}`);
+            }
+
+            if (!isDir && existingIsDir) {
+                throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${dest}`);
+            }
+
+            if (existingIsDir && existing.children.size > 0) {
+                throw new ErrnoFuseCb(Fuse.ENOTEMPTY, `Directory not empty: ${dest}`);
+            }
+
+            this._removeChild(destParent, destName);
+        }
+
+        srcParent.children.delete(srcName);
+        destParent.children.set(destName, node);
+
+        const now = new Date();
+        node.ctime = now;
+        srcParent.mtime = now;
+        srcParent.ctime = now;
+        destParent.mtime = now;
+        destParent.ctime = now;
+    }
+
+    /**
+     * Remove dir
+     * @param {string} path
+     */
+    public async rmdir(path: string): Promise<void> {
+        if (this._lookupDir(path) === this._root) {
+            throw new ErrnoFuseCb(Fuse.EBUSY, 'Can not remove the root directory');
+        }
+
+        const [parent, name] = this._lookupParent(path);
+
+        if (parent.children.get(name)!.children.size > 0) {
+            throw new ErrnoFuseCb(Fuse.ENOTEMPTY, `Directory not empty: ${path}`);
+        }
+
+        this._removeChild(parent, name);
+    }
+
+    /**
+     * unlink
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        const [parent, name] = this._lookupParent(path);
+        const node = parent.children.get(name);
+
+        if (node === undefined) {
+            throw new ErrnoFuseCb(Fuse.ENOENT, `No such file or directory: ${path}`);
+        }
+
+        if (MemoryFS._isType(node, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        }
+
+        this._removeChild(parent, name);
+    }
+
+    /**
+     * flush, nothing is buffered
+     * @param {string} _path
+     * @param {number} _fd
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async flush(_path: string, _fd: number): Promise<void> {
+        // no-op
+    }
+
+    /**
+     * fsync, there is no disk to sync to
+     * @param {string} _path
+     * @param {number} fd
+     * @param {boolean} _datasync
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async fsync(_path: string, fd: number, _datasync: boolean): Promise<void> {
+        this._getHandle(fd);
+    }
+
+    /**
+     * symlink — create a symbolic link at `linkPath` pointing to `target`.
+     * @param {string} target
+     * @param {string} linkPath
+     */
+    public async symlink(target: string, linkPath: string): Promise<void> {
+        const [parent, name] = this._lookupParent(linkPath);
+
+        if (parent.children.has(name)) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${linkPath}`);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        const node = this._newNode(constants.S_IFLNK | 0o777);
+        node.target = target;
+        node.size = Buffer.byteLength(target);
+
+        this._addChild(parent, name, node);
+    }
+
+    /**
+     * readlink — return the target of the symlink at path.
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        const node = this._lookup(path);
+
+        if (!MemoryFS._isType(node, constants.S_IFLNK)) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Not a symlink: ${path}`);
+        }
+
+        return node.target;
+    }
+
+    /**
+     * link — hard link `src` to `dest`.
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async link(src: string, dest: string): Promise<void> {
+        const node = this._lookup(src);
+
+        if (MemoryFS._isType(node, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EPERM, `Can not hard link a directory: ${src}`);
+        }
+
+        const [parent, name] = this._lookupParent(dest);
+
+        if (parent.children.has(name)) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${dest}`);
+        }
+
+        node.nlink++;
+        node.ctime = new Date();
+        this._addChild(parent, name, node);
+    }
+
+    /**
+     * mknod — only regular files (S_IFREG) are supported; everything else gets ENOSYS.
+     * @param {string} path
+     * @param {number} mode
+     * @param {number} _dev
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async mknod(path: string, mode: number, _dev: number): Promise<void> {
+        // eslint-disable-next-line no-bitwise
+        if ((mode & constants.S_IFMT) !== constants.S_IFREG) {
+            throw new ErrnoFuseCb(Fuse.ENOSYS, 'Only regular files are supported via mknod');
+        }
+
+        const [parent, name] = this._lookupParent(path);
+
+        if (parent.children.has(name)) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${path}`);
+        }
+
+        this._addChild(parent, name, this._newNode(mode));
+    }
+
+    /**
+     * Find the node of a path. Symlinks are not followed, paths reach the
+     * entry already resolved.
+     * @param {string} path
+     * @return {MemoryFSNode}
+     * @private
+     */
+    private _lookup(path: string): MemoryFSNode {
+        if (this._root === null) {
+            throw new ErrnoFuseCb(Fuse.EIO, 'MemoryFS is not initialized');
+        }
+
+        let node = this._root;
+
+        for (const name of path.split('/').filter(Boolean)) {
+            if (!MemoryFS._isType(node, constants.S_IFDIR)) {
+                throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${path}`);
+            }
+
+            const child = node.children.get(name);
+
+            if (child === undefined) {
+                throw new ErrnoFuseCb(Fuse.ENOENT, `No such file or directory: ${path}`);
+            }
+
+            node = child;
+        }
+
+        return node;
+    }
+
+    /**
+     * Find the node of a path that must be a directory
+     * @param {string} path
+     * @return {MemoryFSNode}
+     * @private
+     */
+    private _lookupDir(path: string): MemoryFSNode {
+        const node = this._lookup(path);
+
+        if (!MemoryFS._isType(node, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${path}`);
+        }
+
+        return node;
+    }
+
+    /**
+     * Find the parent directory of a path and the last name
+     * @param {string} path
+     * @return {[MemoryFSNode, string]}
+     * @private
+     */
+    private _lookupParent(path: string): [MemoryFSNode, string] {
+        const name = tpath.posix.basename(path);
+
+        if (name === '') {
+            throw new ErrnoFuseCb(Fuse.EEXIST, 'The root directory always exists');
+        }
+
+        if (Buffer.byteLength(name) > 255) {
+            throw new ErrnoFuseCb(Fuse.ENAMETOOLONG, `Name too long: ${name}`);
+        }
+
+        return [this._lookupDir(tpath.posix.dirname(path)), name];
+    }
+
+    /**
+     * Is `dir` the node itself or below it
+     * @param {MemoryFSNode} node
+     * @param {MemoryFSNode} dir
+     * @return {boolean}
+     * @private
+     */
+    private _isAncestor(node: MemoryFSNode, dir: MemoryFSNode): boolean {
+        if (node === dir) {
+            return true;
+        }
+
+        for (const child of node.children.values()) {
+            if (MemoryFS._isType(child, constants.S_IFDIR) && this._isAncestor(child, dir)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Create a node owned by the process user
+     * @param {number} mode Type and permission bits
+     * @return {MemoryFSNode}
+     * @private
+     */
+    private _newNode(mode: number): MemoryFSNode {
+        const now = new Date();
+
+        return {
+            ino: this._nextIno++,
+            mode: mode,
+            uid: process.getuid?.() ?? 0,
+            gid: process.getgid?.() ?? 0,
+            nlink: 1,
+            atime: now,
+            mtime: now,
+            ctime: now,
+            birthtime: now,
+            data: Buffer.alloc(0),
+            size: 0,
+            children: new Map(),
+            target: ''
+        };
+    }
+
+    /**
+     * Add a directory entry
+     * @param {MemoryFSNode} parent
+     * @param {string} name
+     * @param {MemoryFSNode} node
+     * @private
+     */
+    private _addChild(parent: MemoryFSNode, name: string, node: MemoryFSNode): void {
+        parent.children.set(name, node);
+        this._touch(parent);
+    }
+
+    /**
+     * Remove a directory entry; the content of a file goes with its last
+     * link, open fds keep reading it until they are released
+     * @param {MemoryFSNode} parent
+     * @param {string} name
+     * @private
+     */
+    private _removeChild(parent: MemoryFSNode, name: string): void {
+        const node = parent.children.get(name)!;
+
+        parent.children.delete(name);
+        this._touch(parent);
+
+        node.nlink--;
+        node.ctime = new Date();
+
+        if (node.nlink === 0 && MemoryFS._isType(node, constants.S_IFREG)) {
+            this._usedSize -= node.size;
+        }
+    }
+
+    /**
+     * Set the size of a file, new bytes are zero. The buffer grows in
+     * doubling steps so sequential writes do not copy the file every time.
+     * @param {MemoryFSNode} node
+     * @param {number} size
+     * @private
+     */
+    private _resize(node: MemoryFSNode, size: number): void {
+        const counted = node.nlink > 0;
+
+        if (counted && this._options.maxSize !== undefined && this._usedSize + size - node.size > this._options.maxSize) {
+            throw new ErrnoFuseCb(Fuse.ENOSPC, 'MemoryFS is full');
+        }
+
+        if (size > node.data.length) {
+            const data = Buffer.alloc(Math.max(size, node.data.length * 2));
+            node.data.copy(data, 0, 0, node.size);
+            node.data = data;
+        } else if (size < node.size) {
+            node.data.fill(0, size, node.size);
+        }
+
+        if (counted) {
+            this._usedSize += size - node.size;
+        }
+
+        node.size = size;
+        this._touch(node);
+    }
+
+    /**
+     * Update mtime and ctime after a change
+     * @param {MemoryFSNode} node
+     * @private
+     */
+    private _touch(node: MemoryFSNode): void {
+        const now = new Date();
+        node.mtime = now;
+        node.ctime = now;
+    }
+
+    /**
+     * Open a node
+     * @param {MemoryFSNode} node
+     * @param {number} flags
+     * @return {number}
+     * @private
+     */
+    private _allocHandle(node: MemoryFSNode, flags: number): number {
+        const fd = this._nextFD++;
+        this._handles.set(fd, {node: node, flags: flags});
+        return fd;
+    }
+
+    /**
+     * Return an open file
+     * @param {number} fd
+     * @return {MemoryFSHandle}
+     * @private
+     */
+    private _getHandle(fd: number): MemoryFSHandle {
+        const handle = this._handles.get(fd);
+
+        if (!handle) {
+            throw new ErrnoFuseCb(Fuse.EBADF, `Invalid FD ${fd}`);
+        }
+
+        return handle;
+    }
+
+    /**
+     * Check the file type bits of a node
+     * @param {MemoryFSNode} node
+     * @param {number} type S_IFDIR, S_IFREG, ...
+     * @return {boolean}
+     * @private
+     */
+    private static _isType(node: MemoryFSNode, type: number): boolean {
+        // eslint-disable-next-line no-bitwise
+        return (node.mode & constants.S_IFMT) === type;
+    }
+
+}
\ No newline at end of file
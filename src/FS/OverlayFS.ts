@@ -0,0 +1,859 @@
+import Fuse, {StatFs} from 'fuse-native';
+import {constants, Stats} from 'node:fs';
+import * as tpath from 'path';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {ErrorUtils} from '../Utils/ErrorUtils.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+/**
+ * Where a path was found
+ */
+interface OverlayFSLocation {
+    entry: VirtualFSEntry;
+    st: Stats;
+    isUpper: boolean;
+}
+
+/**
+ * Open file: the layer that opened it and its fd there
+ */
+interface OverlayFSHandle {
+    entry: VirtualFSEntry;
+    fd: number;
+}
+
+/**
+ * Overlay FileSystem: a writable upper entry stacked over a read-only lower
+ * entry. Paths in the upper layer hide the same paths in the lower one,
+ * directories in both are merged. The lower entry is never written:
+ *
+ * - a lower file, symlink or directory is copied up into the upper layer on
+ *   its first change (open for writing, setattr, truncate, link)
+ * - a deleted lower path is hidden by an empty whiteout file
+ *   `.wh.<name>` next to it in the upper layer
+ * - a directory created where the lower layer had one is marked opaque by
+ *   an empty `.wh..wh..opq` file, so the old lower entries do not show
+ *   through
+ *
+ * Names starting with `.wh.` are reserved. Directories that exist in the
+ * lower layer can not be renamed (EXDEV; `mv` then copies and deletes),
+ * and a copy-up splits hard links of the lower layer.
+ */
+export class OverlayFS implements VirtualFSEntry {
+
+    /**
+     * Prefix of a whiteout file
+     */
+    public static readonly WHITEOUT_PREFIX = '.wh.';
+
+    /**
+     * Marker file of an opaque directory
+     */
+    public static readonly OPAQUE_NAME = '.wh..wh..opq';
+
+    /**
+     * Bytes per read call while copying a file up
+     */
+    private static readonly COPY_CHUNK_SIZE = 64 * 1024;
+
+    /**
+     * Open flags that need write access
+     */
+    // eslint-disable-next-line no-bitwise
+    private static readonly WRITE_FLAGS = constants.O_WRONLY | constants.O_RDWR | constants.O_TRUNC | constants.O_APPEND;
+
+    /**
+     * Writable layer
+     * @private
+     */
+    private _upper: VirtualFSEntry;
+
+    /**
+     * Read-only layer
+     * @private
+     */
+    private _lower: VirtualFSEntry;
+
+    /**
+     * Open files by fd
+     * @private
+     */
+    private _handles: Map<number, OverlayFSHandle> = new Map();
+
+    /**
+     * Next free fd
+     * @private
+     */
+    private _nextFD = 1;
+
+    /**
+     * Constructor
+     * @param {VirtualFSEntry} upper Writable layer
+     * @param {VirtualFSEntry} lower Read-only layer
+     */
+    public constructor(upper: VirtualFSEntry, lower: VirtualFSEntry) {
+        this._upper = upper;
+        this._lower = lower;
+    }
+
+    /**
+     * Init both layers unless already done
+     */
+    public async init(): Promise<void> {
+        if (!this._lower.isInit()) {
+            await this._lower.init();
+        }
+
+        if (!this._upper.isInit()) {
+            await this._upper.init();
+        }
+    }
+
+    /**
+     * is Init
+     * @return {boolean}
+     */
+    public isInit(): boolean {
+        return this._upper.isInit() && this._lower.isInit();
+    }
+
+    /**
+     * Access file/directory
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async access(path: string, mode: number): Promise<void> {
+        await (await this._locate(path)).entry.access(path, mode);
+    }
+
+    /**
+     * Create file in the upper layer
+     * @param {string} path
+     * @param {number} mode
+     * @return {number}
+     */
+    public async create(path: string, mode: number): Promise<number> {
+        OverlayFS._checkName(path);
+
+        const existing = await this._tryLocate(path);
+
+        if (existing !== null && OverlayFS._isType(existing.st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        }
+
+        await this._prepareUpperPath(path);
+
+        return this._allocHandle(this._upper, await this._upper.create(path, mode));
+    }
+
+    /**
+     * Open file; opening a lower file for writing copies it up first
+     * @param {string} path
+     * @param {number} flags
+     * @return {number}
+     */
+    public async open(path: string, flags: number): Promise<number> {
+        const location = await this._locate(path);
+        let entry = location.entry;
+
+        // eslint-disable-next-line no-bitwise
+        if (!location.isUpper && (flags & OverlayFS.WRITE_FLAGS) !== 0) {
+            // eslint-disable-next-line no-bitwise
+            await this._copyUp(path, (flags & constants.O_TRUNC) === 0);
+            entry = this._upper;
+        }
+
+        return this._allocHandle(entry, await entry.open(path, flags));
+    }
+
+    /**
+     * Read buffer
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     */
+    public async read(path: string, fd: number, length: number, offset: number): Promise<Buffer> {
+        const handle = this._getHandle(fd);
+        return handle.entry.read(path, handle.fd, length, offset);
+    }
+
+    /**
+     * Write buffer
+     * @param {string} path
+     * @param {number} fd
+     * @param {Buffer} buffer
+     * @param {number} offset
+     * @return {number}
+     */
+    public async write(path: string, fd: number, buffer: Buffer, offset: number): Promise<number> {
+        const handle = this._getHandle(fd);
+        return handle.entry.write(path, handle.fd, buffer, offset);
+    }
+
+    /**
+     * ftruncate
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} size
+     */
+    public async ftruncate(path: string, fd: number, size: number): Promise<void> {
+        const handle = this._getHandle(fd);
+        await handle.entry.ftruncate(path, handle.fd, size);
+    }
+
+    /**
+     * fallocate
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     */
+    public async fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        const handle = this._getHandle(fd);
+        await handle.entry.fallocate(path, handle.fd, mode, offset, length);
+    }
+
+    /**
+     * truncate
+     * @param {string} path
+     * @param {number} size
+     */
+    public async truncate(path: string, size: number): Promise<void> {
+        await this._copyUp(path, size > 0);
+        await this._upper.truncate(path, size);
+    }
+
+    /**
+     * Get attr from the layer that shows the path
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async getattr(path: string): Promise<Stats> {
+        return (await this._locate(path)).st;
+    }
+
+    /**
+     * Set attr, copies a lower path up first
+     * @param {string} path
+     * @param {Partial<Stats>} attr
+     */
+    public async setattr(path: string, attr: Partial<Stats>): Promise<void> {
+        await this._copyUp(path, attr.size !== 0);
+        await this._upper.setattr(path, attr);
+    }
+
+    /**
+     * statfs of the upper layer, where everything is written
+     * @param {string} _path
+     * @return {StatFs}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async statfs(_path: string): Promise<StatFs> {
+        return this._upper.statfs('/');
+    }
+
+    /**
+     * mkdir, opaque if the lower layer has something at the path
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async mkdir(path: string, mode: number): Promise<void> {
+        OverlayFS._checkName(path);
+
+        if (await this._tryLocate(path) !== null) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${path}`);
+        }
+
+        const lowerExists = await OverlayFS._stat(this._lower, path) !== null;
+
+        await this._prepareUpperPath(path);
+        await this._upper.mkdir(path, mode);
+
+        if (lowerExists) {
+            await this._createMarker(tpath.posix.join(path, OverlayFS.OPAQUE_NAME));
+        }
+    }
+
+    /**
+     * Read dir, merging both layers
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        const location = await this._locate(path);
+
+        if (!OverlayFS._isType(location.st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${path}`);
+        }
+
+        const names = new Set<string>();
+        const hidden = new Set<string>();
+        let opaque = false;
+
+        if (location.isUpper) {
+            for (const name of await this._upper.readdir(path)) {
+                if (name === OverlayFS.OPAQUE_NAME) {
+                    opaque = true;
+                } else if (name.startsWith(OverlayFS.WHITEOUT_PREFIX)) {
+                    hidden.add(name.slice(OverlayFS.WHITEOUT_PREFIX.length));
+                } else {
+                    names.add(name);
+                }
+            }
+        }
+
+        if (!opaque && await this._lowerHas(path)) {
+            const st = await OverlayFS._stat(this._lower, path);
+
+            if (st !== null && OverlayFS._isType(st, constants.S_IFDIR)) {
+                for (const name of await this._lower.readdir(path)) {
+                    if (!hidden.has(name)) {
+                        names.add(name);
+                    }
+                }
+            }
+        }
+
+        return [...names];
+    }
+
+    /**
+     * Release
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async release(path: string, fd: number): Promise<void> {
+        const handle = this._handles.get(fd);
+
+        if (handle === undefined) {
+            return;
+        }
+
+        this._handles.delete(fd);
+        await handle.entry.release(path, handle.fd);
+    }
+
+    /**
+     * Rename inside the upper layer. A lower file is copied up and
+     * whited out at its old path; directories that exist in the lower layer
+     * fail with EXDEV.
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async rename(src: string, dest: string): Promise<void> {
+        OverlayFS._checkName(dest);
+
+        const from = await this._locate(src);
+        const to = await this._tryLocate(dest);
+
+        if (src === dest) {
+            return;
+        }
+
+        const isDir = OverlayFS._isType(from.st, constants.S_IFDIR);
+
+        if (to !== null) {
+            const toIsDir = OverlayFS._isType(to.st, constants.S_IFDIR);
+
+            if (isDir && !toIsDir) {
+                throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${dest}`);
+            }
+
+            if (!isDir && toIsDir) {
+                throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${dest}`);
+            }
+
+            if (toIsDir && (await this.readdir(dest)).length > 0) {
+                throw new ErrnoFuseCb(Fuse.ENOTEMPTY, `Directory not empty: ${dest}`);
+            }
+        }
+
+        const srcLowerHas = await this._lowerHas(src);
+
+        if (isDir && srcLowerHas) {
+            throw new ErrnoFuseCb(Fuse.EXDEV, `Directory of the lower layer can not be renamed: ${src}`);
+        }
+
+        await this._copyUp(src);
+
+        const destLowerExists = await OverlayFS._stat(this._lower, dest) !== null;
+
+        await this._prepareUpperPath(dest);
+
+        if (to !== null && to.isUpper && isDir) {
+            // Only markers are left in an empty merged directory
+            await this._removeMarkers(dest);
+        }
+
+        await this._upper.rename(src, dest);
+
+        if (srcLowerHas) {
+            await this._createMarker(OverlayFS._whiteoutPath(src));
+        }
+
+        if (isDir && destLowerExists) {
+            await this._createMarker(tpath.posix.join(dest, OverlayFS.OPAQUE_NAME));
+        }
+    }
+
+    /**
+     * Remove dir, whited out if the lower layer has it
+     * @param {string} path
+     */
+    public async rmdir(path: string): Promise<void> {
+        const location = await this._locate(path);
+
+        if (!OverlayFS._isType(location.st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${path}`);
+        }
+
+        if (path === '/') {
+            throw new ErrnoFuseCb(Fuse.EBUSY, 'Can not remove the root directory');
+        }
+
+        if ((await this.readdir(path)).length > 0) {
+            throw new ErrnoFuseCb(Fuse.ENOTEMPTY, `Directory not empty: ${path}`);
+        }
+
+        const lowerHas = await this._lowerHas(path);
+
+        if (location.isUpper) {
+            await this._removeMarkers(path);
+            await this._upper.rmdir(path);
+        }
+
+        if (lowerHas) {
+            await this._createMarker(OverlayFS._whiteoutPath(path));
+        }
+    }
+
+    /**
+     * unlink, whited out if the lower layer has it
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        const location = await this._locate(path);
+
+        if (OverlayFS._isType(location.st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        }
+
+        const lowerHas = await this._lowerHas(path);
+
+        if (location.isUpper) {
+            await this._upper.unlink(path);
+        }
+
+        if (lowerHas) {
+            await this._createMarker(OverlayFS._whiteoutPath(path));
+        }
+    }
+
+    /**
+     * flush
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async flush(path: string, fd: number): Promise<void> {
+        const handle = this._getHandle(fd);
+        await handle.entry.flush(path, handle.fd);
+    }
+
+    /**
+     * fsync
+     * @param {string} path
+     * @param {number} fd
+     * @param {boolean} datasync
+     */
+    public async fsync(path: string, fd: number, datasync: boolean): Promise<void> {
+        const handle = this._getHandle(fd);
+        await handle.entry.fsync(path, handle.fd, datasync);
+    }
+
+    /**
+     * symlink — create a symbolic link at `linkPath` pointing to `target`.
+     * @param {string} target
+     * @param {string} linkPath
+     */
+    public async symlink(target: string, linkPath: string): Promise<void> {
+        await this._prepareNewPath(linkPath);
+        await this._upper.symlink(target, linkPath);
+    }
+
+    /**
+     * readlink — return the target of the symlink at path.
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        return (await this._locate(path)).entry.readlink(path);
+    }
+
+    /**
+     * link — hard link `src` to `dest`, a lower `src` is copied up first.
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async link(src: string, dest: string): Promise<void> {
+        if (OverlayFS._isType((await this._locate(src)).st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EPERM, `Can not hard link a directory: ${src}`);
+        }
+
+        await this._prepareNewPath(dest);
+        await this._copyUp(src);
+        await this._upper.link(src, dest);
+    }
+
+    /**
+     * mknod
+     * @param {string} path
+     * @param {number} mode
+     * @param {number} dev
+     */
+    public async mknod(path: string, mode: number, dev: number): Promise<void> {
+        await this._prepareNewPath(path);
+        await this._upper.mknod(path, mode, dev);
+    }
+
+    /**
+     * Find the layer that shows a path
+     * @param {string} path
+     * @return {OverlayFSLocation}
+     * @private
+     */
+    private async _locate(path: string): Promise<OverlayFSLocation> {
+        const location = await this._tryLocate(path);
+
+        if (location === null) {
+            throw new ErrnoFuseCb(Fuse.ENOENT, `No such file or directory: ${path}`);
+        }
+
+        return location;
+    }
+
+    /**
+     * Find the layer that shows a path, null if none does
+     * @param {string} path
+     * @return {OverlayFSLocation|null}
+     * @private
+     */
+    private async _tryLocate(path: string): Promise<OverlayFSLocation|null> {
+        if (path.split('/').some((name) => name.startsWith(OverlayFS.WHITEOUT_PREFIX))) {
+            return null;
+        }
+
+        const upperSt = await OverlayFS._stat(this._upper, path);
+
+        if (upperSt !== null) {
+            return {entry: this._upper, st: upperSt, isUpper: true};
+        }
+
+        if (await this._lowerHas(path)) {
+            const lowerSt = await OverlayFS._stat(this._lower, path);
+
+            if (lowerSt !== null) {
+                return {entry: this._lower, st: lowerSt, isUpper: false};
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Does the lower layer show through at a path: no whiteout on the way
+     * and no upper file or opaque directory above it. The lower layer may
+     * still not have the path.
+     * @param {string} path
+     * @return {boolean}
+     * @private
+     */
+    private async _lowerVisible(path: string): Promise<boolean> {
+        const names = path.split('/').filter(Boolean);
+        let current = '/';
+
+        for (let i = 0; i < names.length; i++) {
+            // eslint-disable-next-line no-await-in-loop
+            if (await OverlayFS._stat(this._upper, tpath.posix.join(current, `${OverlayFS.WHITEOUT_PREFIX}${names[i]}`)) !== null) {
+                return false;
+            }
+
+            current = tpath.posix.join(current, names[i]);
+
+            if (i < names.length - 1) {
+                // eslint-disable-next-line no-await-in-loop
+                const st = await OverlayFS._stat(this._upper, current);
+
+                // eslint-disable-next-line no-await-in-loop
+                if (st !== null && (!OverlayFS._isType(st, constants.S_IFDIR) || await this._isOpaque(current))) {
+                    return false;
+                }
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Is the path visible in the lower layer and present there
+     * @param {string} path
+     * @return {boolean}
+     * @private
+     */
+    private async _lowerHas(path: string): Promise<boolean> {
+        return await this._lowerVisible(path) && await OverlayFS._stat(this._lower, path) !== null;
+    }
+
+    /**
+     * Is an upper directory marked opaque
+     * @param {string} path
+     * @return {boolean}
+     * @private
+     */
+    private async _isOpaque(path: string): Promise<boolean> {
+        return await OverlayFS._stat(this._upper, tpath.posix.join(path, OverlayFS.OPAQUE_NAME)) !== null;
+    }
+
+    /**
+     * Make sure a new name can be created: it must not exist, its parent
+     * is copied up and a whiteout for it is removed
+     * @param {string} path
+     * @private
+     */
+    private async _prepareNewPath(path: string): Promise<void> {
+        OverlayFS._checkName(path);
+
+        if (await this._tryLocate(path) !== null) {
+            throw new ErrnoFuseCb(Fuse.EEXIST, `File exists: ${path}`);
+        }
+
+        await this._prepareUpperPath(path);
+    }
+
+    /**
+     * Copy the parent of a path up and remove a whiteout for the path
+     * @param {string} path
+     * @private
+     */
+    private async _prepareUpperPath(path: string): Promise<void> {
+        await this._copyUpDir(tpath.posix.dirname(path));
+
+        const whiteout = OverlayFS._whiteoutPath(path);
+
+        if (await OverlayFS._stat(this._upper, whiteout) !== null) {
+            await this._upper.unlink(whiteout);
+        }
+    }
+
+    /**
+     * Make sure a directory exists in the upper layer, copying it and its
+     * parents up
+     * @param {string} path
+     * @private
+     */
+    private async _copyUpDir(path: string): Promise<void> {
+        const location = await this._locate(path);
+
+        if (!OverlayFS._isType(location.st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${path}`);
+        }
+
+        if (location.isUpper) {
+            return;
+        }
+
+        await this._copyUpDir(tpath.posix.dirname(path));
+        // eslint-disable-next-line no-bitwise
+        await this._upper.mkdir(path, location.st.mode & 0o7777);
+    }
+
+    /**
+     * Copy a lower path up into the upper layer, with mode and timestamps
+     * @param {string} path
+     * @param {boolean} withData Copy the content of a file too
+     * @private
+     */
+    private async _copyUp(path: string, withData: boolean = true): Promise<void> {
+        const location = await this._locate(path);
+        const st = location.st;
+
+        if (location.isUpper) {
+            return;
+        }
+
+        if (OverlayFS._isType(st, constants.S_IFDIR)) {
+            await this._copyUpDir(path);
+            return;
+        }
+
+        await this._copyUpDir(tpath.posix.dirname(path));
+
+        if (OverlayFS._isType(st, constants.S_IFLNK)) {
+            await this._upper.symlink(await this._lower.readlink(path), path);
+            return;
+        }
+
+        if (!OverlayFS._isType(st, constants.S_IFREG)) {
+            throw new ErrnoFuseCb(Fuse.ENOSYS, `Only files, directories and symlinks can be copied up: ${path}`);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        const fd = await this._upper.create(path, st.mode & 0o7777);
+
+        try {
+            if (withData) {
+                await this._copyData(path, fd);
+            }
+        } finally {
+            await this._upper.release(path, fd);
+        }
+
+        await this._upper.setattr(path, {atime: st.atime, mtime: st.mtime});
+    }
+
+    /**
+     * Copy the content of a lower file into an open upper file
+     * @param {string} path
+     * @param {number} upperFd
+     * @private
+     */
+    private async _copyData(path: string, upperFd: number): Promise<void> {
+        const lowerFd = await this._lower.open(path, constants.O_RDONLY);
+
+        try {
+            let offset = 0;
+
+            for (;;) {
+                // eslint-disable-next-line no-await-in-loop
+                const chunk = await this._lower.read(path, lowerFd, OverlayFS.COPY_CHUNK_SIZE, offset);
+
+                if (chunk.length === 0) {
+                    return;
+                }
+
+                let done = 0;
+
+                while (done < chunk.length) {
+                    // eslint-disable-next-line no-await-in-loop
+                    done += await this._upper.write(path, upperFd, chunk.subarray(done), offset + done);
+                }
+
+                offset += chunk.length;
+            }
+        } finally {
+            await this._lower.release(path, lowerFd);
+        }
+    }
+
+    /**
+     * Create an empty whiteout or opaque marker in the upper layer
+     * @param {string} path
+     * @private
+     */
+    private async _createMarker(path: string): Promise<void> {
+        await this._copyUpDir(tpath.posix.dirname(path));
+
+        const fd = await this._upper.create(path, 0o600);
+        await this._upper.release(path, fd);
+    }
+
+    /**
+     * Remove the whiteouts and the opaque marker of an upper directory
+     * @param {string} path
+     * @private
+     */
+    private async _removeMarkers(path: string): Promise<void> {
+        for (const name of await this._upper.readdir(path)) {
+            if (name.startsWith(OverlayFS.WHITEOUT_PREFIX)) {
+                // eslint-disable-next-line no-await-in-loop
+                await this._upper.unlink(tpath.posix.join(path, name));
+            }
+        }
+    }
+
+    /**
+     * Open a file of a layer
+     * @param {VirtualFSEntry} entry
+     * @param {number} fd
+     * @return {number}
+     * @private
+     */
+    private _allocHandle(entry: VirtualFSEntry, fd: number): number {
+        const vfd = this._nextFD++;
+        this._handles.set(vfd, {entry: entry, fd: fd});
+        return vfd;
+    }
+
+    /**
+     * Return an open file
+     * @param {number} fd
+     * @return {OverlayFSHandle}
+     * @private
+     */
+    private _getHandle(fd: number): OverlayFSHandle {
+        const handle = this._handles.get(fd);
+
+        if (!handle) {
+            throw new ErrnoFuseCb(Fuse.EBADF, `Invalid FD ${fd}`);
+        }
+
+        return handle;
+    }
+
+    /**
+     * Stats of a path in a layer, null if it is not there
+     * @param {VirtualFSEntry} entry
+     * @param {string} path
+     * @return {Stats|null}
+     * @private
+     */
+    private static async _stat(entry: VirtualFSEntry, path: string): Promise<Stats|null> {
+        try {
+            return await entry.getattr(path);
+        } catch (e) {
+            const code = ErrorUtils.toFuseError(e);
+
+            if (code === Fuse.ENOENT || code === Fuse.ENOTDIR) {
+                return null;
+            }
+
+            throw e;
+        }
+    }
+
+    /**
+     * Whiteout path of a path
+     * @param {string} path
+     * @return {string}
+     * @private
+     */
+    private static _whiteoutPath(path: string): string {
+        return tpath.posix.join(tpath.posix.dirname(path), `${OverlayFS.WHITEOUT_PREFIX}${tpath.posix.basename(path)}`);
+    }
+
+    /**
+     * Refuse reserved names
+     * @param {string} path
+     * @private
+     */
+    private static _checkName(path: string): void {
+        if (tpath.posix.basename(path).startsWith(OverlayFS.WHITEOUT_PREFIX)) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Reserved name: ${path}`);
+        }
+    }
+
+    /**
+     * Check the file type bits of a mode
+     * @param {Stats} st
+     * @param {number} type S_IFDIR, S_IFREG, ...
+     * @return {boolean}
+     * @private
+     */
+    private static _isType(st: Stats, type: number): boolean {
+        // eslint-disable-next-line no-bitwise
+        return (st.mode & constants.S_IFMT) === type;
+    }
+
+}
\ No newline at end of file
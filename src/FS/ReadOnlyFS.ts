@@ -0,0 +1,314 @@
+import Fuse, {StatFs} from 'fuse-native';
+import {constants, Stats} from 'node:fs';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+/**
+ * Read-only FileSystem: wraps any entry and answers every operation that
+ * would change it with EROFS. Reads, listings and stats go through
+ * unchanged.
+ */
+export class ReadOnlyFS implements VirtualFSEntry {
+
+    /**
+     * statfs flag of a read-only file system
+     */
+    private static readonly ST_RDONLY = 1;
+
+    /**
+     * Open flags that need write access
+     */
+    // eslint-disable-next-line no-bitwise
+    private static readonly WRITE_FLAGS = constants.O_WRONLY | constants.O_RDWR | constants.O_TRUNC | constants.O_APPEND | constants.O_CREAT;
+
+    /**
+     * Wrapped entry
+     * @private
+     */
+    private _entry: VirtualFSEntry;
+
+    /**
+     * Constructor
+     * @param {VirtualFSEntry} entry
+     */
+    public constructor(entry: VirtualFSEntry) {
+        this._entry = entry;
+    }
+
+    /**
+     * Return the wrapped entry
+     * @return {VirtualFSEntry}
+     */
+    public getEntry(): VirtualFSEntry {
+        return this._entry;
+    }
+
+    /**
+     * Init
+     */
+    public async init(): Promise<void> {
+        await this._entry.init();
+    }
+
+    /**
+     * is Init
+     * @return {boolean}
+     */
+    public isInit(): boolean {
+        return this._entry.isInit();
+    }
+
+    /**
+     * Access file/directory, write access is refused
+     * @param {string} path
+     * @param {number} mode
+     */
+    public async access(path: string, mode: number): Promise<void> {
+        // eslint-disable-next-line no-bitwise
+        if ((mode & constants.W_OK) !== 0) {
+            ReadOnlyFS._refuse('access', path);
+        }
+
+        await this._entry.access(path, mode);
+    }
+
+    /**
+     * Create file
+     * @param {string} path
+     * @param {number} _mode
+     * @return {number}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async create(path: string, _mode: number): Promise<number> {
+        return ReadOnlyFS._refuse('create', path);
+    }
+
+    /**
+     * Open file, only for reading
+     * @param {string} path
+     * @param {number} flags
+     * @return {number}
+     */
+    public async open(path: string, flags: number): Promise<number> {
+        // eslint-disable-next-line no-bitwise
+        if ((flags & ReadOnlyFS.WRITE_FLAGS) !== 0) {
+            ReadOnlyFS._refuse('open for writing', path);
+        }
+
+        return this._entry.open(path, flags);
+    }
+
+    /**
+     * Read buffer
+     * @param {string} path
+     * @param {number} fd
+     * @param {number} length
+     * @param {number} offset
+     * @return {Buffer}
+     */
+    public async read(path: string, fd: number, length: number, offset: number): Promise<Buffer> {
+        return this._entry.read(path, fd, length, offset);
+    }
+
+    /**
+     * Write buffer
+     * @param {string} path
+     * @param {number} _fd
+     * @param {Buffer} _buffer
+     * @param {number} _offset
+     * @return {number}
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async write(path: string, _fd: number, _buffer: Buffer, _offset: number): Promise<number> {
+        return ReadOnlyFS._refuse('write', path);
+    }
+
+    /**
+     * ftruncate
+     * @param {string} path
+     * @param {number} _fd
+     * @param {number} _size
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async ftruncate(path: string, _fd: number, _size: number): Promise<void> {
+        ReadOnlyFS._refuse('ftruncate', path);
+    }
+
+    /**
+     * fallocate
+     * @param {string} path
+     * @param {number} _fd
+     * @param {number} _mode
+     * @param {number} _offset
+     * @param {number} _length
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async fallocate(path: string, _fd: number, _mode: number, _offset: number, _length: number): Promise<void> {
+        ReadOnlyFS._refuse('fallocate', path);
+    }
+
+    /**
+     * truncate
+     * @param {string} path
+     * @param {number} _size
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async truncate(path: string, _size: number): Promise<void> {
+        ReadOnlyFS._refuse('truncate', path);
+    }
+
+    /**
+     * Get attr
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async getattr(path: string): Promise<Stats> {
+        return this._entry.getattr(path);
+    }
+
+    /**
+     * Set attr
+     * @param {string} path
+     * @param {Partial<Stats>} _attr
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async setattr(path: string, _attr: Partial<Stats>): Promise<void> {
+        ReadOnlyFS._refuse('setattr', path);
+    }
+
+    /**
+     * statfs, flagged read-only
+     * @param {string} path
+     * @return {StatFs}
+     */
+    public async statfs(path: string): Promise<StatFs> {
+        const st = await this._entry.statfs(path);
+
+        // eslint-disable-next-line no-bitwise
+        return {...st, flag: st.flag | ReadOnlyFS.ST_RDONLY};
+    }
+
+    /**
+     * mkdir
+     * @param {string} path
+     * @param {number} _mode
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async mkdir(path: string, _mode: number): Promise<void> {
+        ReadOnlyFS._refuse('mkdir', path);
+    }
+
+    /**
+     * Read dir
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        return this._entry.readdir(path);
+    }
+
+    /**
+     * Release
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async release(path: string, fd: number): Promise<void> {
+        await this._entry.release(path, fd);
+    }
+
+    /**
+     * Rename
+     * @param {string} src
+     * @param {string} _dest
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async rename(src: string, _dest: string): Promise<void> {
+        ReadOnlyFS._refuse('rename', src);
+    }
+
+    /**
+     * Remove dir
+     * @param {string} path
+     */
+    public async rmdir(path: string): Promise<void> {
+        ReadOnlyFS._refuse('rmdir', path);
+    }
+
+    /**
+     * unlink
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        ReadOnlyFS._refuse('unlink', path);
+    }
+
+    /**
+     * flush
+     * @param {string} path
+     * @param {number} fd
+     */
+    public async flush(path: string, fd: number): Promise<void> {
+        await this._entry.flush(path, fd);
+    }
+
+    /**
+     * fsync
+     * @param {string} path
+     * @param {number} fd
+     * @param {boolean} datasync
+     */
+    public async fsync(path: string, fd: number, datasync: boolean): Promise<void> {
+        await this._entry.fsync(path, fd, datasync);
+    }
+
+    /**
+     * symlink
+     * @param {string} _target
+     * @param {string} linkPath
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async symlink(_target: string, linkPath: string): Promise<void> {
+        ReadOnlyFS._refuse('symlink', linkPath);
+    }
+
+    /**
+     * readlink
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        return this._entry.readlink(path);
+    }
+
+    /**
+     * link
+     * @param {string} _src
+     * @param {string} dest
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async link(_src: string, dest: string): Promise<void> {
+        ReadOnlyFS._refuse('link', dest);
+    }
+
+    /**
+     * mknod
+     * @param {string} path
+     * @param {number} _mode
+     * @param {number} _dev
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    public async mknod(path: string, _mode: number, _dev: number): Promise<void> {
+        ReadOnlyFS._refuse('mknod', path);
+    }
+
+    /**
+     * Throw EROFS
+     * @param {string} op
+     * @param {string} path
+     * @private
+     */
+    private static _refuse(op: string, path: string): never {
+        throw new ErrnoFuseCb(Fuse.EROFS, `Read-only file system, ${op} refused: ${path}`);
+    }
+
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import {Stats} from 'fs';
 import Fuse, {StatFs} from 'fuse-native';
 import {ErrorUtils} from '../Utils/ErrorUtils.js';
 import {VirtualFSEntry} from './VirtualFSEntry.js';
+import {ReadOnlyFS} from './ReadOnlyFS.js';
 
 export enum VirtualFSLoggerLevel {
     error,
@@ -63,6 +64,12 @@ export interface VirtualFSMountOptions {
      * configured here.
      */
     maxRead?: number;
+
+    /**
+     * Serve every registered entry read-only: operations that would change
+     * anything fail with EROFS (see ReadOnlyFS).
+     */
+    readOnly?: boolean;
 }
 
 /**
@@ -125,6 +132,12 @@ export class VirtualFS {
      */
     private _statsMap = new Map<string, VirtualFSStats>();
 
+    /**
+     * Wrap registered entries in ReadOnlyFS
+     * @private
+     */
+    private readonly _readOnly: boolean;
+
     /**
      * constructor
      * @param {string} mountPath
@@ -147,9 +160,12 @@ export class VirtualFS {
             name,
             kernelCache,
             autoCache,
-            maxRead
+            maxRead,
+            readOnly = false
         } = mountOptions;
 
+        this._readOnly = readOnly;
+
         this._fuse = new Fuse(mountPath, {
             init: this._init.bind(this),
             error: this._error.bind(this),
@@ -193,7 +209,8 @@ export class VirtualFS {
     }
 
     /**
-     * Add VirtualFS implementation to the register
+     * Add VirtualFS implementation to the register. With the `readOnly`
+     * mount option it is served through a ReadOnlyFS.
      * @param {string|RegExp} pattern
      * @param {VirtualFSEntry} instance
      */
@@ -209,7 +226,7 @@ export class VirtualFS {
 
         this._registry.push({
             pattern: regex,
-            instance: instance
+            instance: this._readOnly && !(instance instanceof ReadOnlyFS) ? new ReadOnlyFS(instance) : instance
         });
     }
 
@@ -248,6 +265,19 @@ export class VirtualFS {
         return this._statsMap;
     }
 
+    /**
+     * Resolve a path to the registered entry serving it and the path inside
+     * that entry, for callers that use the tree without mounting it
+     * @param {string} path
+     * @return {{ fs: VirtualFSEntry; relPath: string; }}
+     */
+    public resolve(path: string): {
+        fs: VirtualFSEntry;
+        relPath: string;
+    } {
+        return this._resolve(path);
+    }
+
     /**
      * Resolve by path
      * @param {string} path
@@ -21,6 +21,12 @@ export interface VirtualFSEntry {
     rename(src: string, dest: string): Promise<void>;
     truncate(path: string, size: number): Promise<void>;
     ftruncate(path: string, fd: number, size: number): Promise<void>;
+
+    /**
+     * Library only: fuse-native has no fallocate op, so VirtualFS never
+     * calls it for a mount
+     */
+    fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void>;
     access(path: string, mode: number): Promise<void>;
     statfs(path: string): Promise<StatFs>;
     flush(path: string, fd: number): Promise<void>;
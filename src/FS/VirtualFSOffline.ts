@@ -0,0 +1,366 @@
+import Fuse from 'fuse-native';
+import {constants, createReadStream, Stats} from 'node:fs';
+import * as fs from 'node:fs/promises';
+import {once} from 'node:events';
+import {Writable} from 'node:stream';
+import * as tpath from 'path';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {TarWriter} from '../Utils/TarWriter.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+/**
+ * Entry of `VirtualFSOffline.ls()`
+ */
+export interface VirtualFSOfflineListEntry {
+    name: string;
+    stats: Stats;
+}
+
+/**
+ * Access to a VirtualFSEntry without a FUSE mount: list and read files,
+ * copy files in and out and export a directory tree as tar. Everything goes
+ * through the entry methods, so a CryptFS storage can be used on hosts that
+ * can not load FUSE.
+ */
+export class VirtualFSOffline {
+
+    /**
+     * Bytes per read/write call on the entry
+     */
+    private static readonly CHUNK_SIZE = 64 * 1024;
+
+    /**
+     * Entry
+     * @private
+     */
+    private _entry: VirtualFSEntry;
+
+    /**
+     * Constructor
+     * @param {VirtualFSEntry} entry
+     */
+    public constructor(entry: VirtualFSEntry) {
+        this._entry = entry;
+    }
+
+    /**
+     * Init the entry unless already done
+     */
+    public async init(): Promise<void> {
+        if (!this._entry.isInit()) {
+            await this._entry.init();
+        }
+    }
+
+    /**
+     * List a directory
+     * @param {string} path
+     * @return {VirtualFSOfflineListEntry[]} Sorted by name
+     */
+    public async ls(path: string = '/'): Promise<VirtualFSOfflineListEntry[]> {
+        const list: VirtualFSOfflineListEntry[] = [];
+
+        for (const name of (await this._entry.readdir(path)).sort()) {
+            list.push({
+                name: name,
+                // eslint-disable-next-line no-await-in-loop
+                stats: await this._entry.getattr(tpath.posix.join(path, name))
+            });
+        }
+
+        return list;
+    }
+
+    /**
+     * Write the content of a file to a stream
+     * @param {string} path
+     * @param {Writable} out Stays open
+     * @return {number} Bytes written
+     */
+    public async cat(path: string, out: Writable): Promise<number> {
+        let bytes = 0;
+
+        for await (const chunk of this._readChunks(path)) {
+            bytes += chunk.length;
+
+            if (!out.write(chunk)) {
+                await once(out, 'drain');
+            }
+        }
+
+        return bytes;
+    }
+
+    /**
+     * Copy a file out to a local path, with its mode and timestamps
+     * @param {string} path
+     * @param {string} localPath
+     * @return {number} Bytes copied
+     */
+    public async get(path: string, localPath: string): Promise<number> {
+        const st = await this._fileStats(path);
+        // eslint-disable-next-line no-bitwise
+        const fh = await fs.open(localPath, 'w', st.mode & 0o7777);
+        let bytes = 0;
+
+        try {
+            for await (const chunk of this._readChunks(path)) {
+                await fh.write(chunk, 0, chunk.length, bytes);
+                bytes += chunk.length;
+            }
+        } finally {
+            await fh.close();
+        }
+
+        await fs.utimes(localPath, st.atime, st.mtime);
+
+        return bytes;
+    }
+
+    /**
+     * Copy a local file in, with its mode and timestamps. An existing file
+     * is replaced.
+     * @param {string} localPath
+     * @param {string} path
+     * @return {number} Bytes copied
+     */
+    public async put(localPath: string, path: string): Promise<number> {
+        const st = await fs.stat(localPath);
+
+        if (!st.isFile()) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Not a regular file: ${localPath}`);
+        }
+
+        return this._writeFile(path, st, createReadStream(localPath));
+    }
+
+    /**
+     * Copy a local directory tree in: directories, regular files and
+     * symlinks (targets unchanged). Other file types are skipped.
+     * @param {string} localDir
+     * @param {string} path Created if missing
+     * @return {number} Number of entries copied
+     */
+    public async importDir(localDir: string, path: string): Promise<number> {
+        const st = await fs.stat(localDir);
+
+        if (!st.isDirectory()) {
+            throw new ErrnoFuseCb(Fuse.ENOTDIR, `Not a directory: ${localDir}`);
+        }
+
+        if (!await this._isDirectory(path)) {
+            // eslint-disable-next-line no-bitwise
+            await this._entry.mkdir(path, st.mode & 0o7777);
+        }
+
+        let count = 0;
+
+        for (const dirent of await fs.readdir(localDir, {withFileTypes: true})) {
+            const localChild = tpath.join(localDir, dirent.name);
+            const child = tpath.posix.join(path, dirent.name);
+
+            if (dirent.isDirectory()) {
+                // eslint-disable-next-line no-await-in-loop
+                count += await this.importDir(localChild, child) + 1;
+            } else if (dirent.isSymbolicLink()) {
+                // eslint-disable-next-line no-await-in-loop
+                await this._entry.symlink(await fs.readlink(localChild), child);
+                count++;
+            } else if (dirent.isFile()) {
+                // eslint-disable-next-line no-await-in-loop
+                await this.put(localChild, child);
+                count++;
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Write a tar archive of a file or directory tree to a stream. Names
+     * are relative to `path`; a single file is stored under its base name.
+     * @param {string} path
+     * @param {Writable} out Stays open
+     * @return {number} Number of archived entries
+     */
+    public async exportTar(path: string, out: Writable): Promise<number> {
+        const tar = new TarWriter(out);
+        const st = await this._entry.getattr(path);
+        let count: number;
+
+        if (VirtualFSOffline._isType(st, constants.S_IFDIR)) {
+            count = await this._exportTarDir(tar, path, '');
+        } else {
+            await this._exportTarEntry(tar, path, tpath.posix.basename(path), st);
+            count = 1;
+        }
+
+        await tar.finish();
+
+        return count;
+    }
+
+    /**
+     * Archive the entries of a directory
+     * @param {TarWriter} tar
+     * @param {string} path
+     * @param {string} prefix Archive name of the directory, '' for the top
+     * @return {number}
+     * @private
+     */
+    private async _exportTarDir(tar: TarWriter, path: string, prefix: string): Promise<number> {
+        let count = 0;
+
+        for (const {name, stats} of await this.ls(path)) {
+            const child = tpath.posix.join(path, name);
+            const archiveName = prefix === '' ? name : `${prefix}/${name}`;
+
+            // eslint-disable-next-line no-await-in-loop
+            await this._exportTarEntry(tar, child, archiveName, stats);
+            count++;
+
+            if (VirtualFSOffline._isType(stats, constants.S_IFDIR)) {
+                // eslint-disable-next-line no-await-in-loop
+                count += await this._exportTarDir(tar, child, archiveName);
+            }
+        }
+
+        return count;
+    }
+
+    /**
+     * Archive one entry
+     * @param {TarWriter} tar
+     * @param {string} path
+     * @param {string} archiveName
+     * @param {Stats} st
+     * @private
+     */
+    private async _exportTarEntry(tar: TarWriter, path: string, archiveName: string, st: Stats): Promise<void> {
+        const entry = {
+            name: archiveName,
+            mode: st.mode,
+            uid: st.uid,
+            gid: st.gid,
+            mtime: st.mtime
+        };
+
+        if (VirtualFSOffline._isType(st, constants.S_IFDIR)) {
+            await tar.add({...entry, type: 'directory'});
+        } else if (VirtualFSOffline._isType(st, constants.S_IFLNK)) {
+            await tar.add({...entry, type: 'symlink', linkName: await this._entry.readlink(path)});
+        } else {
+            await tar.add({...entry, type: 'file', size: st.size}, this._readChunks(path));
+        }
+    }
+
+    /**
+     * Create or replace a file from a chunk source and apply mode and
+     * timestamps of `st`
+     * @param {string} path
+     * @param {Stats} st
+     * @param {AsyncIterable<Buffer>} chunks
+     * @return {number} Bytes written
+     * @private
+     */
+    private async _writeFile(path: string, st: Stats, chunks: AsyncIterable<Buffer>): Promise<number> {
+        // eslint-disable-next-line no-bitwise
+        const fd = await this._entry.create(path, st.mode & 0o7777);
+        let bytes = 0;
+
+        try {
+            for await (const chunk of chunks) {
+                let done = 0;
+
+                while (done < chunk.length) {
+                    // eslint-disable-next-line no-await-in-loop
+                    done += await this._entry.write(path, fd, chunk.subarray(done), bytes + done);
+                }
+
+                bytes += chunk.length;
+            }
+        } finally {
+            await this._entry.release(path, fd);
+        }
+
+        await this._entry.setattr(path, {atime: st.atime, mtime: st.mtime});
+
+        return bytes;
+    }
+
+    /**
+     * Read a file chunk by chunk
+     * @param {string} path
+     * @private
+     */
+    private async* _readChunks(path: string): AsyncGenerator<Buffer> {
+        await this._fileStats(path);
+
+        const fd = await this._entry.open(path, constants.O_RDONLY);
+
+        try {
+            let offset = 0;
+
+            for (;;) {
+                // eslint-disable-next-line no-await-in-loop
+                const chunk = await this._entry.read(path, fd, VirtualFSOffline.CHUNK_SIZE, offset);
+
+                if (chunk.length === 0) {
+                    return;
+                }
+
+                offset += chunk.length;
+                yield chunk;
+            }
+        } finally {
+            await this._entry.release(path, fd);
+        }
+    }
+
+    /**
+     * Stats of a path that must be a regular file
+     * @param {string} path
+     * @return {Stats}
+     * @private
+     */
+    private async _fileStats(path: string): Promise<Stats> {
+        const st = await this._entry.getattr(path);
+
+        if (VirtualFSOffline._isType(st, constants.S_IFDIR)) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, `Is a directory: ${path}`);
+        }
+
+        if (!VirtualFSOffline._isType(st, constants.S_IFREG)) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Not a regular file: ${path}`);
+        }
+
+        return st;
+    }
+
+    /**
+     * Is there a directory at path
+     * @param {string} path
+     * @return {boolean}
+     * @private
+     */
+    private async _isDirectory(path: string): Promise<boolean> {
+        try {
+            return VirtualFSOffline._isType(await this._entry.getattr(path), constants.S_IFDIR);
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Check the file type bits of a mode
+     * @param {Stats} st
+     * @param {number} type S_IFDIR, S_IFREG, ...
+     * @return {boolean}
+     * @private
+     */
+    private static _isType(st: Stats, type: number): boolean {
+        // eslint-disable-next-line no-bitwise
+        return (st.mode & constants.S_IFMT) === type;
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,565 @@
+import Fuse from 'fuse-native';
+import {constants, Stats} from 'node:fs';
+import {Readable, Writable} from 'node:stream';
+import * as tpath from 'path';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+import {ErrorUtils} from '../Utils/ErrorUtils.js';
+import {VirtualFS} from './VirtualFS.js';
+import {VirtualFSEntry} from './VirtualFSEntry.js';
+
+/**
+ * Text encodings of Buffer
+ */
+type VirtualFSPromisesEncoding = Exclude<Parameters<Buffer['toString']>[0], undefined>;
+
+/**
+ * Options of `VirtualFSPromises.writeFile()`
+ */
+export interface VirtualFSPromisesWriteOptions {
+    encoding?: VirtualFSPromisesEncoding;
+
+    /**
+     * Mode of a new file, default 0o666
+     */
+    mode?: number;
+
+    /**
+     * 'w' replaces the content, 'a' appends
+     */
+    flag?: 'w'|'a';
+}
+
+/**
+ * Options of `VirtualFSPromises.createReadStream()`
+ */
+export interface VirtualFSPromisesReadStreamOptions {
+    start?: number;
+
+    /**
+     * Last byte to read, inclusive
+     */
+    end?: number;
+    highWaterMark?: number;
+}
+
+/**
+ * Options of `VirtualFSPromises.createWriteStream()`
+ */
+export interface VirtualFSPromisesWriteStreamOptions {
+    mode?: number;
+    flags?: 'w'|'a';
+}
+
+/**
+ * An entry and the path inside it
+ */
+type VirtualFSPromisesTarget = {
+    fs: VirtualFSEntry;
+    relPath: string;
+};
+
+/**
+ * `fs.promises` shaped access to a VirtualFS tree or a single entry,
+ * without mounting: application code can use an encrypted storage
+ * in-process. Paths are absolute inside the tree, relative paths are taken
+ * from '/'. Errors are Node style (`code` 'ENOENT', 'EEXIST', ...).
+ */
+export class VirtualFSPromises {
+
+    /**
+     * Bytes per read call on the entry
+     */
+    private static readonly CHUNK_SIZE = 64 * 1024;
+
+    /**
+     * Hops a path follows through symlinks before giving up with ELOOP
+     */
+    private static readonly MAX_SYMLINK_HOPS = 40;
+
+    /**
+     * Tree or single entry
+     * @private
+     */
+    private _source: VirtualFS|VirtualFSEntry;
+
+    /**
+     * Constructor
+     * @param {VirtualFS|VirtualFSEntry} source A VirtualFS with registered
+     *   entries, or an initialized entry
+     */
+    public constructor(source: VirtualFS|VirtualFSEntry) {
+        this._source = source;
+    }
+
+    /**
+     * Read a whole file
+     * @param {string} path
+     * @param {VirtualFSPromisesEncoding|{encoding?: VirtualFSPromisesEncoding}} options
+     * @return {Buffer|string} A string if an encoding is given
+     */
+    public readFile(path: string): Promise<Buffer>;
+    public readFile(path: string, options: VirtualFSPromisesEncoding|{encoding: VirtualFSPromisesEncoding;}): Promise<string>;
+    public async readFile(path: string, options?: VirtualFSPromisesEncoding|{encoding?: VirtualFSPromisesEncoding;}): Promise<Buffer|string> {
+        const encoding = typeof options === 'string' ? options : options?.encoding;
+
+        return this._callFollowing('open', path, async(target) => {
+            const chunks: Buffer[] = [];
+
+            for await (const chunk of this._readChunks(target, 0, Infinity, VirtualFSPromises.CHUNK_SIZE)) {
+                chunks.push(chunk);
+            }
+
+            const content = Buffer.concat(chunks);
+
+            return encoding === undefined ? content : content.toString(encoding);
+        });
+    }
+
+    /**
+     * Write a whole file, creating it if missing
+     * @param {string} path
+     * @param {string|Uint8Array} data
+     * @param {VirtualFSPromisesEncoding|VirtualFSPromisesWriteOptions} options
+     */
+    public async writeFile(
+        path: string,
+        data: string|Uint8Array,
+        options: VirtualFSPromisesEncoding|VirtualFSPromisesWriteOptions = {}
+    ): Promise<void> {
+        const opts = typeof options === 'string' ? {encoding: options} : options;
+        const buffer = typeof data === 'string' ? Buffer.from(data, opts.encoding ?? 'utf8') : Buffer.from(data);
+
+        await this._callFollowing('open', path, async(target) => {
+            const {fd, position} = await this._openForWrite(target, opts.flag ?? 'w', opts.mode ?? 0o666);
+
+            try {
+                await this._writeAll(target, fd, buffer, position);
+            } finally {
+                await target.fs.release(target.relPath, fd);
+            }
+        });
+    }
+
+    /**
+     * Names of the entries of a directory
+     * @param {string} path
+     * @return {string[]}
+     */
+    public async readdir(path: string): Promise<string[]> {
+        return this._call('scandir', path, (target) => target.fs.readdir(target.relPath));
+    }
+
+    /**
+     * Stats of a path, following symlinks
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async stat(path: string): Promise<Stats> {
+        return this._call('stat', path, async() => this.lstat(await this._followLinks(path)));
+    }
+
+    /**
+     * Stats of a path, symlinks not followed
+     * @param {string} path
+     * @return {Stats}
+     */
+    public async lstat(path: string): Promise<Stats> {
+        return this._call('lstat', path, async(target) => VirtualFSPromises._toStats(await target.fs.getattr(target.relPath)));
+    }
+
+    /**
+     * Target of a symlink
+     * @param {string} path
+     * @return {string}
+     */
+    public async readlink(path: string): Promise<string> {
+        return this._call('readlink', path, (target) => target.fs.readlink(target.relPath));
+    }
+
+    /**
+     * Create a directory
+     * @param {string} path
+     * @param {{recursive?: boolean, mode?: number}} options
+     * @return {string|undefined} With `recursive`, the first directory created
+     */
+    public async mkdir(path: string, options: {recursive?: boolean; mode?: number;} = {}): Promise<string|undefined> {
+        const mode = options.mode ?? 0o777;
+
+        if (!options.recursive) {
+            await this._call('mkdir', path, (target) => target.fs.mkdir(target.relPath, mode));
+            return undefined;
+        }
+
+        let current = '/';
+        let first: string|undefined;
+
+        for (const part of tpath.posix.resolve('/', path).split('/').filter(Boolean)) {
+            current = tpath.posix.join(current, part);
+
+            let exists = true;
+
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                const st = await this.lstat(current);
+
+                // eslint-disable-next-line no-bitwise
+                if ((st.mode & constants.S_IFMT) !== constants.S_IFDIR) {
+                    throw ErrorUtils.toFsError(new ErrnoFuseCb(Fuse.ENOTDIR, 'Not a directory'), 'mkdir', path);
+                }
+            } catch (e) {
+                if (!ErrorUtils.isFsError(e) || e.code !== 'ENOENT') {
+                    throw e;
+                }
+
+                exists = false;
+            }
+
+            if (!exists) {
+                const dir = current;
+                // eslint-disable-next-line no-await-in-loop
+                await this._call('mkdir', dir, (target) => target.fs.mkdir(target.relPath, mode));
+                first ??= dir;
+            }
+        }
+
+        return first;
+    }
+
+    /**
+     * Remove a file, symlink or, with `recursive`, a directory tree
+     * @param {string} path
+     * @param {{recursive?: boolean, force?: boolean}} options `force` ignores a missing path
+     */
+    public async rm(path: string, options: {recursive?: boolean; force?: boolean;} = {}): Promise<void> {
+        let st: Stats;
+
+        try {
+            st = await this.lstat(path);
+        } catch (e) {
+            if (options.force && ErrorUtils.isFsError(e) && e.code === 'ENOENT') {
+                return;
+            }
+
+            throw e;
+        }
+
+        // eslint-disable-next-line no-bitwise
+        if ((st.mode & constants.S_IFMT) !== constants.S_IFDIR) {
+            await this.unlink(path);
+            return;
+        }
+
+        if (!options.recursive) {
+            throw ErrorUtils.toFsError(new ErrnoFuseCb(Fuse.EISDIR, 'Is a directory'), 'rm', path);
+        }
+
+        for (const name of await this.readdir(path)) {
+            // eslint-disable-next-line no-await-in-loop
+            await this.rm(tpath.posix.join(tpath.posix.resolve('/', path), name), options);
+        }
+
+        await this.rmdir(path);
+    }
+
+    /**
+     * Remove a file or symlink
+     * @param {string} path
+     */
+    public async unlink(path: string): Promise<void> {
+        await this._call('unlink', path, (target) => target.fs.unlink(target.relPath));
+    }
+
+    /**
+     * Remove an empty directory
+     * @param {string} path
+     */
+    public async rmdir(path: string): Promise<void> {
+        await this._call('rmdir', path, (target) => target.fs.rmdir(target.relPath));
+    }
+
+    /**
+     * Rename within one entry; across entries it fails with EXDEV
+     * @param {string} src
+     * @param {string} dest
+     */
+    public async rename(src: string, dest: string): Promise<void> {
+        const destTarget = await this._call('rename', dest, async(target) => target);
+
+        await this._call('rename', src, async(target) => {
+            if (target.fs !== destTarget.fs) {
+                throw new ErrnoFuseCb(Fuse.EXDEV, 'Cross-entry rename');
+            }
+
+            await target.fs.rename(target.relPath, destTarget.relPath);
+        });
+    }
+
+    /**
+     * Readable stream of a file
+     * @param {string} path
+     * @param {VirtualFSPromisesReadStreamOptions} options
+     * @return {Readable}
+     */
+    public createReadStream(path: string, options: VirtualFSPromisesReadStreamOptions = {}): Readable {
+        const chunkSize = options.highWaterMark ?? VirtualFSPromises.CHUNK_SIZE;
+        const end = options.end === undefined ? Infinity : options.end + 1;
+
+        return Readable.from(
+            this._streamChunks(path, options.start ?? 0, end, chunkSize),
+            {objectMode: false, highWaterMark: chunkSize}
+        );
+    }
+
+    /**
+     * Writable stream into a file, created or truncated on first use
+     * ('w'), or appended to ('a')
+     * @param {string} path
+     * @param {VirtualFSPromisesWriteStreamOptions} options
+     * @return {Writable}
+     */
+    public createWriteStream(path: string, options: VirtualFSPromisesWriteStreamOptions = {}): Writable {
+        let target: VirtualFSPromisesTarget|null = null;
+        let fd = -1;
+        let position = 0;
+
+        const close = async(): Promise<void> => {
+            if (target !== null && fd !== -1) {
+                const openFd = fd;
+                fd = -1;
+                await target.fs.release(target.relPath, openFd);
+            }
+        };
+
+        return new Writable({
+            construct: (cb): void => {
+                this._callFollowing('open', path, async(resolved) => {
+                    target = resolved;
+                    ({fd, position} = await this._openForWrite(resolved, options.flags ?? 'w', options.mode ?? 0o666));
+                }).then(() => cb(), cb);
+            },
+            write: (chunk: Buffer, _encoding, cb): void => {
+                this._call('write', path, async() => {
+                    await this._writeAll(target!, fd, chunk, position);
+                    position += chunk.length;
+                }).then(() => cb(), cb);
+            },
+            final: (cb): void => {
+                close().then(() => cb(), (e: unknown) => cb(ErrorUtils.toFsError(e, 'close', path)));
+            },
+            destroy: (err, cb): void => {
+                close().then(() => cb(err), () => cb(err));
+            }
+        });
+    }
+
+    /**
+     * Resolve a path, throwing a Node style error
+     * @param {string} path
+     * @return {VirtualFSPromisesTarget}
+     * @private
+     */
+    private _target(path: string): VirtualFSPromisesTarget {
+        const absPath = tpath.posix.resolve('/', path);
+
+        if (this._source instanceof VirtualFS) {
+            return this._source.resolve(absPath);
+        }
+
+        return {fs: this._source, relPath: absPath};
+    }
+
+    /**
+     * Run an operation on the entry of a path and turn its errors into
+     * Node style errors
+     * @param {string} syscall
+     * @param {string} path
+     * @param {Function} fn
+     * @return {T}
+     * @private
+     */
+    private async _call<T>(syscall: string, path: string, fn: (target: VirtualFSPromisesTarget) => Promise<T>): Promise<T> {
+        try {
+            return await fn(this._target(path));
+        } catch (e) {
+            throw ErrorUtils.toFsError(e, syscall, path);
+        }
+    }
+
+    /**
+     * `_call()` on the path a path leads to through symlinks
+     * @param {string} syscall
+     * @param {string} path
+     * @param {Function} fn
+     * @return {T}
+     * @private
+     */
+    private async _callFollowing<T>(syscall: string, path: string, fn: (target: VirtualFSPromisesTarget) => Promise<T>): Promise<T> {
+        return this._call(syscall, path, async() => fn(this._target(await this._followLinks(path))));
+    }
+
+    /**
+     * Follow the symlinks of a path. A missing path ends the walk, so that
+     * writing through a dangling link creates its target.
+     * @param {string} path
+     * @return {string} Absolute path of the first entry that is no symlink
+     * @private
+     */
+    private async _followLinks(path: string): Promise<string> {
+        let current = tpath.posix.resolve('/', path);
+
+        for (let hop = 0; hop <= VirtualFSPromises.MAX_SYMLINK_HOPS; hop++) {
+            let st: Stats;
+
+            try {
+                // eslint-disable-next-line no-await-in-loop
+                st = await this.lstat(current);
+            } catch (e) {
+                if (ErrorUtils.isFsError(e) && e.code === 'ENOENT') {
+                    return current;
+                }
+
+                throw e;
+            }
+
+            // eslint-disable-next-line no-bitwise
+            if ((st.mode & constants.S_IFMT) !== constants.S_IFLNK) {
+                return current;
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            const linkTarget = await this.readlink(current);
+            current = tpath.posix.resolve(tpath.posix.dirname(current), linkTarget);
+        }
+
+        throw new ErrnoFuseCb(Fuse.ELOOP, 'Too many symbolic links');
+    }
+
+    /**
+     * Open a file for writing: 'w' creates or truncates it, 'a' opens it at
+     * its end and creates it if missing
+     * @param {VirtualFSPromisesTarget} target
+     * @param {string} flag
+     * @param {number} mode
+     * @return {{fd: number, position: number}}
+     * @private
+     */
+    private async _openForWrite(target: VirtualFSPromisesTarget, flag: 'w'|'a', mode: number): Promise<{fd: number; position: number;}> {
+        if (flag === 'a') {
+            try {
+                const st = await target.fs.getattr(target.relPath);
+                const fd = await target.fs.open(target.relPath, constants.O_WRONLY);
+
+                return {fd: fd, position: st.size};
+            } catch (e) {
+                if (ErrorUtils.toFuseError(e) !== Fuse.ENOENT) {
+                    throw e;
+                }
+            }
+        }
+
+        return {fd: await target.fs.create(target.relPath, mode), position: 0};
+    }
+
+    /**
+     * Write a whole buffer, repeating short writes
+     * @param {VirtualFSPromisesTarget} target
+     * @param {number} fd
+     * @param {Buffer} buffer
+     * @param {number} position
+     * @private
+     */
+    private async _writeAll(target: VirtualFSPromisesTarget, fd: number, buffer: Buffer, position: number): Promise<void> {
+        let done = 0;
+
+        while (done < buffer.length) {
+            // eslint-disable-next-line no-await-in-loop
+            const written = await target.fs.write(target.relPath, fd, buffer.subarray(done), position + done);
+
+            if (written <= 0) {
+                throw new ErrnoFuseCb(Fuse.EIO, 'Entry wrote no bytes');
+            }
+
+            done += written;
+        }
+    }
+
+    /**
+     * `_readChunks()` by path, with Node style errors
+     * @param {string} path
+     * @param {number} start
+     * @param {number} end Exclusive
+     * @param {number} chunkSize
+     * @private
+     */
+    private async* _streamChunks(path: string, start: number, end: number, chunkSize: number): AsyncGenerator<Buffer> {
+        try {
+            yield* this._readChunks(this._target(await this._followLinks(path)), start, end, chunkSize);
+        } catch (e) {
+            throw ErrorUtils.toFsError(e, 'read', path);
+        }
+    }
+
+    /**
+     * Read a file range chunk by chunk
+     * @param {VirtualFSPromisesTarget} target
+     * @param {number} start
+     * @param {number} end Exclusive
+     * @param {number} chunkSize
+     * @private
+     */
+    private async* _readChunks(target: VirtualFSPromisesTarget, start: number, end: number, chunkSize: number): AsyncGenerator<Buffer> {
+        const st = await target.fs.getattr(target.relPath);
+
+        // eslint-disable-next-line no-bitwise
+        if ((st.mode & constants.S_IFMT) === constants.S_IFDIR) {
+            throw new ErrnoFuseCb(Fuse.EISDIR, 'Is a directory');
+        }
+
+        const fd = await target.fs.open(target.relPath, constants.O_RDONLY);
+
+        try {
+            let offset = start;
+
+            while (offset < end) {
+                // eslint-disable-next-line no-await-in-loop
+                const chunk = await target.fs.read(target.relPath, fd, Math.min(chunkSize, end - offset), offset);
+
+                if (chunk.length === 0) {
+                    return;
+                }
+
+                offset += chunk.length;
+                yield chunk;
+            }
+        } finally {
+            await target.fs.release(target.relPath, fd);
+        }
+    }
+
+    /**
+     * Entries return Stats or plain objects with the same fields; give the
+     * result the `isFile()` style helpers and the `*Ms` times
+     * @param {Stats} st
+     * @return {Stats}
+     * @private
+     */
+    private static _toStats(st: Stats): Stats {
+        // eslint-disable-next-line no-bitwise
+        const type = (mask: number): () => boolean => (): boolean => (st.mode & constants.S_IFMT) === mask;
+
+        return {
+            ...st,
+            atimeMs: st.atime.getTime(),
+            mtimeMs: st.mtime.getTime(),
+            ctimeMs: st.ctime.getTime(),
+            isFile: type(constants.S_IFREG),
+            isDirectory: type(constants.S_IFDIR),
+            isSymbolicLink: type(constants.S_IFLNK),
+            isFIFO: type(constants.S_IFIFO),
+            isSocket: type(constants.S_IFSOCK),
+            isBlockDevice: type(constants.S_IFBLK),
+            isCharacterDevice: type(constants.S_IFCHR)
+        } as Stats;
+    }
+
+}
\ No newline at end of file
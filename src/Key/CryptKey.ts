@@ -1,10 +1,47 @@
 import * as crypto from 'crypto';
 
+/**
+ * Tunable scrypt cost parameters for passphrase based key derivation.
+ */
+export interface CryptKeyScryptParams {
+
+    /**
+     * CPU/memory cost, must be a power of two.
+     */
+    N: number;
+
+    /**
+     * Block size
+     */
+    r: number;
+
+    /**
+     * Parallelization
+     */
+    p: number;
+
+    /**
+     * Length of the derived key in bytes
+     */
+    keyLen: number;
+}
+
 /**
  * Crypt key
  */
 export class CryptKey {
 
+    /**
+     * Defaults for scrypt: N=2^15, r=8 needs 32 MiB RAM and roughly 100 ms
+     * on current hardware. Raise N for vaults that are unlocked rarely.
+     */
+    public static readonly DEFAULT_SCRYPT_PARAMS: CryptKeyScryptParams = {
+        N: 32768,
+        r: 8,
+        p: 1,
+        keyLen: 32
+    };
+
     /**
      * Generate
      * @param {number} bytesLen
@@ -25,4 +62,42 @@ export class CryptKey {
         return crypto.createHash('sha256').update(originalKey).digest();
     }
 
+    /**
+     * Derive a key from a human passphrase with scrypt. The passphrase is
+     * NFKC-normalised first so the same phrase typed on different keyboards
+     * or platforms yields the same key.
+     * @param {string} passphrase
+     * @param {Buffer} salt
+     * @param {CryptKeyScryptParams} params
+     * @return {Buffer}
+     */
+    public static deriveFromPassphrase(
+        passphrase: string,
+        salt: Buffer,
+        params: CryptKeyScryptParams = CryptKey.DEFAULT_SCRYPT_PARAMS
+    ): Promise<Buffer> {
+        return new Promise<Buffer>((resolve, reject) => {
+            crypto.scrypt(
+                Buffer.from(passphrase.normalize('NFKC'), 'utf8'),
+                salt,
+                params.keyLen,
+                {
+                    N: params.N,
+                    r: params.r,
+                    p: params.p,
+                    // scrypt needs 128 * N * r bytes; leave headroom above that.
+                    maxmem: 256 * params.N * params.r
+                },
+                (err, key) => {
+                    if (err) {
+                        reject(err);
+                        return;
+                    }
+
+                    resolve(key);
+                }
+            );
+        });
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,610 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as tpath from 'path';
+import {CryptKey, CryptKeyScryptParams} from './CryptKey.js';
+
+/**
+ * scrypt KDF of a passphrase slot (and of a v1 config)
+ */
+export interface CryptVaultScryptKdf extends CryptKeyScryptParams {
+    algorithm: 'scrypt';
+
+    /**
+     * Random salt, base64
+     */
+    salt: string;
+}
+
+/**
+ * HKDF of a key file slot. Key files are expected to carry full entropy
+ * (e.g. the output of `-keygen`), so no slow KDF is needed.
+ */
+export interface CryptVaultHkdfKdf {
+    algorithm: 'hkdf-sha256';
+
+    /**
+     * Random salt, base64
+     */
+    salt: string;
+}
+
+export type CryptVaultKdf = CryptVaultScryptKdf | CryptVaultHkdfKdf;
+
+/**
+ * Secret that opens a key slot
+ */
+export type CryptVaultSecret = {passphrase: string;} | {keyFile: Buffer;};
+
+/**
+ * Key slot type
+ */
+export type CryptVaultSlotType = 'passphrase' | 'keyfile';
+
+/**
+ * One key slot: the data key wrapped by a key derived from one secret.
+ */
+export interface CryptVaultSlot {
+    id: number;
+    type: CryptVaultSlotType;
+    kdf: CryptVaultKdf;
+
+    /**
+     * AES-256-GCM wrapped data key, base64 of [12 IV][32 ct][16 tag]
+     */
+    wrappedKey: string;
+
+    /**
+     * ISO timestamp of slot creation
+     */
+    created: string;
+}
+
+/**
+ * On-disk vault config (JSON)
+ *
+ * - version 1: the passphrase derived key is the encryption key itself
+ *   (`kdf` + `keyCheck`).
+ * - version 2: a random data key is the encryption key and is wrapped once
+ *   per key slot (`slots`).
+ */
+export interface CryptVaultConfig {
+    version: number;
+    kdf?: CryptVaultScryptKdf;
+
+    /**
+     * HMAC of a fixed label under the derived key, base64 (version 1 only).
+     * Lets unlock() reject a wrong passphrase up front instead of mounting a
+     * vault that only fails later with EIO on every file.
+     */
+    keyCheck?: string;
+
+    slots?: CryptVaultSlot[];
+
+    /**
+     * Slots of the new data key while a key rotation is in progress. They
+     * replace `slots` once the storage is re-encrypted.
+     */
+    pendingSlots?: CryptVaultSlot[];
+}
+
+/**
+ * Crypt vault — a small config file in the storage root that holds the key
+ * slots. A random data key encrypts the files; each slot wraps that data key
+ * under a passphrase or key file, similar to LUKS. Slots can be added and
+ * revoked without re-encrypting the storage.
+ */
+export class CryptVault {
+
+    /**
+     * Name of the config file in the storage root. Contains a dot, so it can
+     * never collide with a CryptFS encoded name (base64url alphabet only).
+     */
+    public static readonly CONFIG_FILENAME = 'njsfscrypt.conf';
+
+    /**
+     * Current config version
+     */
+    public static readonly VERSION = 2;
+
+    /**
+     * Salt size in bytes
+     */
+    private static readonly SALT_SIZE = 32;
+
+    /**
+     * Data key size in bytes
+     */
+    private static readonly DATA_KEY_SIZE = 32;
+
+    /**
+     * Label for the key check value (version 1)
+     */
+    private static readonly KEY_CHECK_LABEL = 'njsfscrypt vault key check';
+
+    /**
+     * HKDF info for key file slots
+     */
+    private static readonly KEYFILE_INFO = 'njsfscrypt vault key file';
+
+    /**
+     * Return the config file path for a storage dir
+     * @param {string} storagePath
+     * @return {string}
+     */
+    public static configPath(storagePath: string): string {
+        return tpath.join(storagePath, CryptVault.CONFIG_FILENAME);
+    }
+
+    /**
+     * Has the storage dir a vault config
+     * @param {string} storagePath
+     * @return {boolean}
+     */
+    public static async exists(storagePath: string): Promise<boolean> {
+        try {
+            await fs.access(CryptVault.configPath(storagePath));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Read and validate the vault config
+     * @param {string} storagePath
+     * @return {CryptVaultConfig}
+     */
+    public static async readConfig(storagePath: string): Promise<CryptVaultConfig> {
+        const raw = await fs.readFile(CryptVault.configPath(storagePath), 'utf8');
+        const config = JSON.parse(raw) as CryptVaultConfig;
+
+        switch (config.version) {
+            case 1:
+                if (config.kdf?.algorithm !== 'scrypt' || config.keyCheck === undefined) {
+                    throw new Error('Invalid vault config: version 1 needs a scrypt kdf and keyCheck');
+                }
+                break;
+
+            case 2:
+                if (!Array.isArray(config.slots)) {
+                    throw new Error('Invalid vault config: version 2 needs slots');
+                }
+                break;
+
+            default:
+                throw new Error(`Unsupported vault config version ${config.version}`);
+        }
+
+        return config;
+    }
+
+    /**
+     * Write the vault config atomically (tmp file + rename), mode 0600.
+     * @param {string} storagePath
+     * @param {CryptVaultConfig} config
+     */
+    public static async writeConfig(storagePath: string, config: CryptVaultConfig): Promise<void> {
+        const target = CryptVault.configPath(storagePath);
+        const tmp = `${target}.tmp`;
+
+        await fs.writeFile(tmp, JSON.stringify(config, null, 2), {mode: 0o600});
+        await fs.rename(tmp, target);
+    }
+
+    /**
+     * Create a new vault config with a random data key in slot 0 and return
+     * the data key. Refuses to overwrite an existing config.
+     * @param {string} storagePath
+     * @param {string|CryptVaultSecret} secret
+     * @param {Partial<CryptKeyScryptParams>} params scrypt cost for passphrase slots
+     * @return {Buffer}
+     */
+    public static async init(
+        storagePath: string,
+        secret: string | CryptVaultSecret,
+        params: Partial<CryptKeyScryptParams> = {}
+    ): Promise<Buffer> {
+        if (await CryptVault.exists(storagePath)) {
+            throw new Error(`Vault config already exists: ${CryptVault.configPath(storagePath)}`);
+        }
+
+        const dataKey = crypto.randomBytes(CryptVault.DATA_KEY_SIZE);
+        const slot = await CryptVault._createSlot(0, dataKey, CryptVault._toSecret(secret), params);
+
+        await CryptVault.writeConfig(storagePath, {
+            version: CryptVault.VERSION,
+            slots: [slot]
+        });
+
+        return dataKey;
+    }
+
+    /**
+     * Unlock the vault and return the encryption key. Every slot of the
+     * matching type is tried in turn.
+     * @param {string} storagePath
+     * @param {string|CryptVaultSecret} secret
+     * @return {Buffer}
+     */
+    public static async unlock(storagePath: string, secret: string | CryptVaultSecret): Promise<Buffer> {
+        const config = await CryptVault.readConfig(storagePath);
+        const {key} = await CryptVault._unlockConfig(config, CryptVault._toSecret(secret));
+
+        return key;
+    }
+
+    /**
+     * List the key slots (without key material). A version 1 config reports
+     * its single implicit passphrase slot as id 0.
+     * @param {string} storagePath
+     * @return {{id: number; type: CryptVaultSlotType; created: string|null;}[]}
+     */
+    public static async listSlots(storagePath: string): Promise<{id: number; type: CryptVaultSlotType; created: string|null;}[]> {
+        const config = await CryptVault.readConfig(storagePath);
+
+        if (config.version === 1) {
+            return [{id: 0, type: 'passphrase', created: null}];
+        }
+
+        return config.slots!.map((slot) => ({
+            id: slot.id,
+            type: slot.type,
+            created: slot.created
+        }));
+    }
+
+    /**
+     * Add a key slot for `newSecret`. `unlockSecret` must open an existing
+     * slot. A version 1 config is upgraded to version 2 on the way: its
+     * derived key stays the data key (so no file needs re-encrypting) and the
+     * old passphrase becomes slot 0.
+     * @param {string} storagePath
+     * @param {string|CryptVaultSecret} unlockSecret
+     * @param {string|CryptVaultSecret} newSecret
+     * @param {Partial<CryptKeyScryptParams>} params scrypt cost for passphrase slots
+     * @return {number} id of the new slot
+     */
+    public static async addSlot(
+        storagePath: string,
+        unlockSecret: string | CryptVaultSecret,
+        newSecret: string | CryptVaultSecret,
+        params: Partial<CryptKeyScryptParams> = {}
+    ): Promise<number> {
+        const unlock = CryptVault._toSecret(unlockSecret);
+        const config = await CryptVault.readConfig(storagePath);
+        CryptVault._assertNoRotation(config);
+        const {key} = await CryptVault._unlockConfig(config, unlock);
+
+        let slots: CryptVaultSlot[];
+
+        if (config.version === 1) {
+            slots = [await CryptVault._createSlot(0, key, unlock, config.kdf!)];
+        } else {
+            slots = config.slots!;
+        }
+
+        const id = slots.reduce((max, slot) => Math.max(max, slot.id), -1) + 1;
+        slots.push(await CryptVault._createSlot(id, key, CryptVault._toSecret(newSecret), params));
+
+        await CryptVault.writeConfig(storagePath, {
+            version: CryptVault.VERSION,
+            slots: slots
+        });
+
+        return id;
+    }
+
+    /**
+     * Revoke a key slot. `unlockSecret` must open any slot of the vault (it
+     * may be the one being removed). The last slot can not be removed.
+     *
+     * Note that revoking a slot does not change the data key: whoever read
+     * the data key while holding the slot can still decrypt the storage.
+     * @param {string} storagePath
+     * @param {string|CryptVaultSecret} unlockSecret
+     * @param {number} slotId
+     */
+    public static async removeSlot(
+        storagePath: string,
+        unlockSecret: string | CryptVaultSecret,
+        slotId: number
+    ): Promise<void> {
+        const config = await CryptVault.readConfig(storagePath);
+        CryptVault._assertNoRotation(config);
+
+        if (config.version === 1) {
+            throw new Error('Vault has a single passphrase slot; add a slot before removing it');
+        }
+
+        await CryptVault._unlockConfig(config, CryptVault._toSecret(unlockSecret));
+
+        const slots = config.slots!;
+        const remaining = slots.filter((slot) => slot.id !== slotId);
+
+        if (remaining.length === slots.length) {
+            throw new Error(`Key slot ${slotId} not found`);
+        }
+
+        if (remaining.length === 0) {
+            throw new Error('Refusing to remove the last key slot');
+        }
+
+        await CryptVault.writeConfig(storagePath, {
+            version: CryptVault.VERSION,
+            slots: remaining
+        });
+    }
+
+    /**
+     * Start (or resume) a rotation of the data key. A new random data key is
+     * wrapped for `secret` and kept in `pendingSlots` next to the current
+     * slots, so an interrupted rotation can be resumed with the same secret.
+     * Returns the current and the new data key.
+     * @param {string} storagePath
+     * @param {string|CryptVaultSecret} secret
+     * @param {Partial<CryptKeyScryptParams>} params scrypt cost for passphrase slots
+     * @return {{oldKey: Buffer; newKey: Buffer;}}
+     */
+    public static async beginRotation(
+        storagePath: string,
+        secret: string | CryptVaultSecret,
+        params: Partial<CryptKeyScryptParams> = {}
+    ): Promise<{oldKey: Buffer; newKey: Buffer;}> {
+        const unlock = CryptVault._toSecret(secret);
+        const config = await CryptVault.readConfig(storagePath);
+        const {key: oldKey} = await CryptVault._unlockConfig(config, unlock);
+
+        if (config.pendingSlots !== undefined) {
+            const pending = await CryptVault._unlockConfig(
+                {version: CryptVault.VERSION, slots: config.pendingSlots},
+                unlock
+            );
+
+            return {oldKey: oldKey, newKey: pending.key};
+        }
+
+        const newKey = crypto.randomBytes(CryptVault.DATA_KEY_SIZE);
+        let slots: CryptVaultSlot[];
+
+        if (config.version === 1) {
+            slots = [await CryptVault._createSlot(0, oldKey, unlock, config.kdf!)];
+        } else {
+            slots = config.slots!;
+        }
+
+        await CryptVault.writeConfig(storagePath, {
+            version: CryptVault.VERSION,
+            slots: slots,
+            pendingSlots: [await CryptVault._createSlot(0, newKey, unlock, params)]
+        });
+
+        return {oldKey: oldKey, newKey: newKey};
+    }
+
+    /**
+     * Finish a key rotation: the pending slots replace the current ones.
+     * Every other slot is dropped, since it still wraps the old data key.
+     * @param {string} storagePath
+     */
+    public static async finishRotation(storagePath: string): Promise<void> {
+        const config = await CryptVault.readConfig(storagePath);
+
+        if (config.pendingSlots === undefined) {
+            throw new Error('No key rotation in progress');
+        }
+
+        await CryptVault.writeConfig(storagePath, {
+            version: CryptVault.VERSION,
+            slots: config.pendingSlots
+        });
+    }
+
+    /**
+     * Slots can not change while a key rotation is in progress, the change
+     * would be lost when the pending slots take over
+     * @param {CryptVaultConfig} config
+     * @private
+     */
+    private static _assertNoRotation(config: CryptVaultConfig): void {
+        if (config.pendingSlots !== undefined) {
+            throw new Error('Key rotation in progress; finish it before changing key slots');
+        }
+    }
+
+    /**
+     * Normalise the secret argument
+     * @param {string|CryptVaultSecret} secret
+     * @return {CryptVaultSecret}
+     * @private
+     */
+    private static _toSecret(secret: string | CryptVaultSecret): CryptVaultSecret {
+        const result = typeof secret === 'string' ? {passphrase: secret} : secret;
+
+        if ('passphrase' in result && result.passphrase.length === 0) {
+            throw new Error('Passphrase must not be empty');
+        }
+
+        if ('keyFile' in result && result.keyFile.length === 0) {
+            throw new Error('Key file must not be empty');
+        }
+
+        return result;
+    }
+
+    /**
+     * Open a config with the secret. Returns the data key and the id of the
+     * slot that opened.
+     * @param {CryptVaultConfig} config
+     * @param {CryptVaultSecret} secret
+     * @return {{key: Buffer; slotId: number;}}
+     * @private
+     */
+    private static async _unlockConfig(config: CryptVaultConfig, secret: CryptVaultSecret): Promise<{key: Buffer; slotId: number;}> {
+        if (config.version === 1) {
+            if (!('passphrase' in secret)) {
+                throw new Error('Version 1 vaults can only be unlocked with a passphrase');
+            }
+
+            const key = await CryptVault._deriveKek(config.kdf!, secret);
+            const expected = Buffer.from(config.keyCheck!, 'base64');
+            const actual = CryptVault._keyCheck(key);
+
+            if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+                throw new Error('Wrong passphrase for vault');
+            }
+
+            return {key: key, slotId: 0};
+        }
+
+        const type: CryptVaultSlotType = 'passphrase' in secret ? 'passphrase' : 'keyfile';
+
+        for (const slot of config.slots!) {
+            if (slot.type !== type) {
+                continue;
+            }
+
+            // eslint-disable-next-line no-await-in-loop
+            const kek = await CryptVault._deriveKek(slot.kdf, secret);
+
+            try {
+                return {
+                    key: CryptVault._unwrap(kek, slot.id, Buffer.from(slot.wrappedKey, 'base64')),
+                    slotId: slot.id
+                };
+            } catch {
+                // wrong secret for this slot, try the next one
+            }
+        }
+
+        throw new Error(type === 'passphrase' ? 'Wrong passphrase for vault' : 'Key file does not open any slot');
+    }
+
+    /**
+     * Create a slot that wraps `dataKey` under `secret`
+     * @param {number} id
+     * @param {Buffer} dataKey
+     * @param {CryptVaultSecret} secret
+     * @param {Partial<CryptKeyScryptParams>} params
+     * @return {CryptVaultSlot}
+     * @private
+     */
+    private static async _createSlot(
+        id: number,
+        dataKey: Buffer,
+        secret: CryptVaultSecret,
+        params: Partial<CryptKeyScryptParams>
+    ): Promise<CryptVaultSlot> {
+        const salt = crypto.randomBytes(CryptVault.SALT_SIZE).toString('base64');
+        let kdf: CryptVaultKdf;
+
+        if ('passphrase' in secret) {
+            kdf = {
+                N: params.N ?? CryptKey.DEFAULT_SCRYPT_PARAMS.N,
+                r: params.r ?? CryptKey.DEFAULT_SCRYPT_PARAMS.r,
+                p: params.p ?? CryptKey.DEFAULT_SCRYPT_PARAMS.p,
+                keyLen: CryptKey.DEFAULT_SCRYPT_PARAMS.keyLen,
+                algorithm: 'scrypt',
+                salt: salt
+            };
+        } else {
+            kdf = {
+                algorithm: 'hkdf-sha256',
+                salt: salt
+            };
+        }
+
+        const kek = await CryptVault._deriveKek(kdf, secret);
+
+        return {
+            id: id,
+            type: 'passphrase' in secret ? 'passphrase' : 'keyfile',
+            kdf: kdf,
+            wrappedKey: CryptVault._wrap(kek, id, dataKey).toString('base64'),
+            created: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Derive the key encryption key of a slot
+     * @param {CryptVaultKdf} kdf
+     * @param {CryptVaultSecret} secret
+     * @return {Buffer}
+     * @private
+     */
+    private static async _deriveKek(kdf: CryptVaultKdf, secret: CryptVaultSecret): Promise<Buffer> {
+        const salt = Buffer.from(kdf.salt, 'base64');
+
+        if (kdf.algorithm === 'scrypt') {
+            if (!('passphrase' in secret)) {
+                throw new Error('scrypt slots need a passphrase');
+            }
+
+            return CryptKey.deriveFromPassphrase(secret.passphrase, salt, kdf);
+        }
+
+        if (!('keyFile' in secret)) {
+            throw new Error('hkdf slots need a key file');
+        }
+
+        return Buffer.from(crypto.hkdfSync('sha256', secret.keyFile, salt, CryptVault.KEYFILE_INFO, 32));
+    }
+
+    /**
+     * AAD of a wrapped key; binds the wrap to its slot id
+     * @param {number} slotId
+     * @return {Buffer}
+     * @private
+     */
+    private static _slotAad(slotId: number): Buffer {
+        return Buffer.from(`njsfscrypt key slot ${slotId}`, 'utf8');
+    }
+
+    /**
+     * Wrap the data key with AES-256-GCM
+     * @param {Buffer} kek
+     * @param {number} slotId
+     * @param {Buffer} dataKey
+     * @return {Buffer}
+     * @private
+     */
+    private static _wrap(kek: Buffer, slotId: number, dataKey: Buffer): Buffer {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', kek, iv);
+        cipher.setAAD(CryptVault._slotAad(slotId));
+
+        const ct = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+        return Buffer.concat([iv, ct, cipher.getAuthTag()]);
+    }
+
+    /**
+     * Unwrap the data key; throws if the kek is wrong
+     * @param {Buffer} kek
+     * @param {number} slotId
+     * @param {Buffer} wrapped
+     * @return {Buffer}
+     * @private
+     */
+    private static _unwrap(kek: Buffer, slotId: number, wrapped: Buffer): Buffer {
+        const iv = wrapped.subarray(0, 12);
+        const tag = wrapped.subarray(wrapped.length - 16);
+        const ct = wrapped.subarray(12, wrapped.length - 16);
+
+        const decipher = crypto.createDecipheriv('aes-256-gcm', kek, iv);
+        decipher.setAAD(CryptVault._slotAad(slotId));
+        decipher.setAuthTag(tag);
+
+        return Buffer.concat([decipher.update(ct), decipher.final()]);
+    }
+
+    /**
+     * Key check value for a derived key (version 1)
+     * @param {Buffer} key
+     * @return {Buffer}
+     * @private
+     */
+    private static _keyCheck(key: Buffer): Buffer {
+        return crypto.createHmac('sha256', key).update(CryptVault.KEY_CHECK_LABEL).digest();
+    }
+
+}
\ No newline at end of file
@@ -78,4 +78,38 @@ export class ErrorUtils {
         return fallback;
     }
 
+    /**
+     * Translate any thrown value into a Node fs style error for a virtual
+     * path, the reverse of `toFuseError()`: `code` is the errno name
+     * ('ENOENT', ...), `errno` the negative number. The message of a Node
+     * fs error is dropped since it names the backing path.
+     * @param {unknown} err
+     * @param {string} syscall
+     * @param {string} path
+     * @return {ErrnoException}
+     */
+    public static toFsError(err: unknown, syscall: string, path: string): ErrnoException {
+        const errno = this.toFuseError(err);
+        let code: string;
+        let detail = '';
+
+        if (this.isFsError(err)) {
+            code = err.code as string;
+        } else {
+            code = Object.keys(this._CODE_MAP).find((key) => this._CODE_MAP[key] === errno) ?? 'EIO';
+
+            if (err instanceof Error) {
+                detail = err.message;
+            }
+        }
+
+        const e = new ErrnoException(`${code}${detail === '' ? '' : `: ${detail}`}, ${syscall} '${path}'`);
+        e.code = code;
+        e.errno = errno;
+        e.syscall = syscall;
+        e.path = path;
+
+        return e;
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import Fuse from 'fuse-native';
+import {ErrnoFuseCb} from '../Error/ErrnoFuseCb.js';
+
+/**
+ * fallocate mode flags (linux/falloc.h) the backends understand
+ */
+export enum FallocateFlag {
+    KEEP_SIZE = 0x01,
+    PUNCH_HOLE = 0x02,
+    ZERO_RANGE = 0x10
+}
+
+/**
+ * What a fallocate call asks for
+ */
+export interface FallocateRequest {
+
+    /**
+     * Range end, offset + length
+     */
+    end: number;
+
+    /**
+     * The range reads as zeros afterwards (punch hole or zero range)
+     */
+    zero: boolean;
+
+    /**
+     * The file size does not change, even if the range ends past it
+     */
+    keepSize: boolean;
+}
+
+/**
+ * Fallocate Utils
+ */
+export class FallocateUtils {
+
+    /**
+     * Bytes of zeros written at once
+     */
+    private static readonly ZERO_CHUNK_SIZE = 1024 * 1024;
+
+    /**
+     * Check the arguments of a fallocate call: EINVAL for an empty or
+     * negative range or a punch hole without KEEP_SIZE, EOPNOTSUPP for
+     * modes beyond allocate, punch hole and zero range.
+     * @param {number} mode
+     * @param {number} offset
+     * @param {number} length
+     * @return {FallocateRequest}
+     */
+    public static parse(mode: number, offset: number, length: number): FallocateRequest {
+        // eslint-disable-next-line no-bitwise
+        const known = FallocateFlag.KEEP_SIZE | FallocateFlag.PUNCH_HOLE | FallocateFlag.ZERO_RANGE;
+
+        // eslint-disable-next-line no-bitwise
+        if ((mode & ~known) !== 0) {
+            throw new ErrnoFuseCb(Fuse.EOPNOTSUPP, `Unsupported fallocate mode: ${mode}`);
+        }
+
+        // eslint-disable-next-line no-bitwise
+        const punchHole = (mode & FallocateFlag.PUNCH_HOLE) !== 0;
+        // eslint-disable-next-line no-bitwise
+        const zeroRange = (mode & FallocateFlag.ZERO_RANGE) !== 0;
+        // eslint-disable-next-line no-bitwise
+        const keepSize = (mode & FallocateFlag.KEEP_SIZE) !== 0;
+
+        if (offset < 0 || length <= 0 || (punchHole && (!keepSize || zeroRange))) {
+            throw new ErrnoFuseCb(Fuse.EINVAL, `Invalid fallocate call: mode ${mode}, offset ${offset}, length ${length}`);
+        }
+
+        return {
+            end: offset + length,
+            zero: punchHole || zeroRange,
+            keepSize: keepSize
+        };
+    }
+
+    /**
+     * Write zeros over a range, a bounded chunk at a time
+     * @param {Function} write Writes a buffer at a position
+     * @param {number} start
+     * @param {number} end Exclusive
+     */
+    public static async writeZeros(write: (buffer: Buffer, position: number) => Promise<unknown>, start: number, end: number): Promise<void> {
+        const zeros = Buffer.alloc(Math.min(FallocateUtils.ZERO_CHUNK_SIZE, Math.max(end - start, 0)));
+
+        for (let pos = start; pos < end; pos += zeros.length) {
+            // eslint-disable-next-line no-await-in-loop
+            await write(zeros.subarray(0, Math.min(zeros.length, end - pos)), pos);
+        }
+    }
+
+}
\ No newline at end of file
@@ -0,0 +1,229 @@
+import {once} from 'node:events';
+import {Writable} from 'node:stream';
+
+/**
+ * Entry of a tar archive
+ */
+export interface TarWriterEntry {
+    type: 'file'|'directory'|'symlink';
+
+    /**
+     * Path inside the archive, relative, without trailing slash
+     */
+    name: string;
+    mode: number;
+    uid: number;
+    gid: number;
+    mtime: Date;
+
+    /**
+     * Content length of a file
+     */
+    size?: number;
+
+    /**
+     * Target of a symlink
+     */
+    linkName?: string;
+}
+
+/**
+ * Streaming writer for POSIX (pax) tar archives. Names, link targets and
+ * sizes that do not fit the ustar header go into a pax extended header.
+ */
+export class TarWriter {
+
+    private static readonly BLOCK_SIZE = 512;
+    private static readonly NAME_SIZE = 100;
+    private static readonly MAX_SIZE = (8 ** 11) - 1;
+    private static readonly MAX_ID = (8 ** 7) - 1;
+
+    private static readonly TYPE_FLAGS: Record<TarWriterEntry['type'], string> = {
+        file: '0',
+        symlink: '2',
+        directory: '5'
+    };
+
+    /**
+     * Output
+     * @private
+     */
+    private _out: Writable;
+
+    /**
+     * Constructor
+     * @param {Writable} out Stays open after `finish()`
+     */
+    public constructor(out: Writable) {
+        this._out = out;
+    }
+
+    /**
+     * Add an entry. The content of a file must have exactly `entry.size`
+     * bytes.
+     * @param {TarWriterEntry} entry
+     * @param {AsyncIterable<Buffer>} content
+     */
+    public async add(entry: TarWriterEntry, content?: AsyncIterable<Buffer>): Promise<void> {
+        const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+        const linkName = entry.linkName ?? '';
+        const size = entry.type === 'file' ? entry.size ?? 0 : 0;
+        const pax: string[] = [];
+
+        if (Buffer.byteLength(name) > TarWriter.NAME_SIZE) {
+            pax.push(TarWriter._paxRecord('path', name));
+        }
+
+        if (Buffer.byteLength(linkName) > TarWriter.NAME_SIZE) {
+            pax.push(TarWriter._paxRecord('linkpath', linkName));
+        }
+
+        if (size > TarWriter.MAX_SIZE) {
+            pax.push(TarWriter._paxRecord('size', String(size)));
+        }
+
+        if (pax.length > 0) {
+            const records = Buffer.from(pax.join(''), 'utf8');
+
+            await this._write(this._header({
+                ...entry,
+                name: `PaxHeader/${name}`
+            }, 'x', records.length, ''));
+            await this._writePadded(records);
+        }
+
+        await this._write(this._header(entry, TarWriter.TYPE_FLAGS[entry.type], size, linkName, name));
+
+        if (entry.type !== 'file') {
+            return;
+        }
+
+        let written = 0;
+
+        if (content !== undefined) {
+            for await (const chunk of content) {
+                written += chunk.length;
+
+                if (written > size) {
+                    throw new Error(`Tar entry ${entry.name} is longer than ${size} bytes`);
+                }
+
+                await this._write(chunk);
+            }
+        }
+
+        if (written !== size) {
+            throw new Error(`Tar entry ${entry.name} has ${written} bytes instead of ${size}`);
+        }
+
+        await this._write(Buffer.alloc(TarWriter._padding(size)));
+    }
+
+    /**
+     * Write the end-of-archive marker
+     */
+    public async finish(): Promise<void> {
+        await this._write(Buffer.alloc(TarWriter.BLOCK_SIZE * 2));
+    }
+
+    /**
+     * Build a ustar header block
+     * @param {TarWriterEntry} entry
+     * @param {string} typeFlag
+     * @param {number} size
+     * @param {string} linkName
+     * @param {string} name
+     * @return {Buffer}
+     * @private
+     */
+    private _header(entry: TarWriterEntry, typeFlag: string, size: number, linkName: string, name: string = entry.name): Buffer {
+        const buf = Buffer.alloc(TarWriter.BLOCK_SIZE);
+
+        buf.write(name, 0, TarWriter.NAME_SIZE, 'utf8');
+        // eslint-disable-next-line no-bitwise
+        TarWriter._octal(buf, 100, 8, entry.mode & 0o7777);
+        TarWriter._octal(buf, 108, 8, entry.uid > TarWriter.MAX_ID ? 0 : entry.uid);
+        TarWriter._octal(buf, 116, 8, entry.gid > TarWriter.MAX_ID ? 0 : entry.gid);
+        TarWriter._octal(buf, 124, 12, size > TarWriter.MAX_SIZE ? 0 : size);
+        TarWriter._octal(buf, 136, 12, Math.max(0, Math.floor(entry.mtime.getTime() / 1000)));
+        buf.fill(' ', 148, 156);
+        buf.write(typeFlag, 156, 1, 'ascii');
+        buf.write(linkName, 157, TarWriter.NAME_SIZE, 'utf8');
+        buf.write('ustar\0', 257, 6, 'ascii');
+        buf.write('00', 263, 2, 'ascii');
+
+        let checksum = 0;
+
+        for (const byte of buf) {
+            checksum += byte;
+        }
+
+        buf.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+
+        return buf;
+    }
+
+    /**
+     * Write data and pad it to whole blocks
+     * @param {Buffer} data
+     * @private
+     */
+    private async _writePadded(data: Buffer): Promise<void> {
+        await this._write(data);
+        await this._write(Buffer.alloc(TarWriter._padding(data.length)));
+    }
+
+    /**
+     * Write to the output, waiting for it to drain
+     * @param {Buffer} data
+     * @private
+     */
+    private async _write(data: Buffer): Promise<void> {
+        if (data.length > 0 && !this._out.write(data)) {
+            await once(this._out, 'drain');
+        }
+    }
+
+    /**
+     * Write a zero-terminated octal number into a header field
+     * @param {Buffer} buf
+     * @param {number} offset
+     * @param {number} length
+     * @param {number} value
+     * @private
+     */
+    private static _octal(buf: Buffer, offset: number, length: number, value: number): void {
+        buf.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+    }
+
+    /**
+     * Number of zero bytes that fill up the last block of `size` bytes
+     * @param {number} size
+     * @return {number}
+     * @private
+     */
+    private static _padding(size: number): number {
+        return (TarWriter.BLOCK_SIZE - (size % TarWriter.BLOCK_SIZE)) % TarWriter.BLOCK_SIZE;
+    }
+
+    /**
+     * Pax extended header record: "<length> <key>=<value>\n", the length
+     * counting itself
+     * @param {string} key
+     * @param {string} value
+     * @return {string}
+     * @private
+     */
+    private static _paxRecord(key: string, value: string): string {
+        const body = ` ${key}=${value}\n`;
+        const bodyLength = Buffer.byteLength(body);
+        let length = bodyLength + 1;
+
+        while (String(length).length + bodyLength !== length) {
+            length++;
+        }
+
+        return `${length}${body}`;
+    }
+
+}
\ No newline at end of file
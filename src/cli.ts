@@ -1,35 +1,129 @@
 #!/usr/bin/env node
 
+import {constants, createWriteStream} from 'fs';
+import {readFile} from 'fs/promises';
+import {once} from 'events';
 import readline from 'readline';
 import {CryptFS} from './FS/CryptFS.js';
 import {VirtualFS} from './FS/VirtualFS.js';
-import {CryptKey} from './Key/CryptKey.js';
+import {VirtualFSOffline} from './FS/VirtualFSOffline.js';
+import {CryptKey, CryptKeyScryptParams} from './Key/CryptKey.js';
+import {CryptVault, CryptVaultSecret} from './Key/CryptVault.js';
 import chalk from 'chalk';
 
 const args = process.argv.slice(2);
 
+/**
+ * Block size the CLI used before files recorded their own (CryptFS format
+ * version 7). Needed to read files written by those releases.
+ */
+const LEGACY_BLOCK_SIZE = 64 * 10124;
+
 // ---------------------------------------------------------------------------------------------------------------------
 
 const printHelp = (): void => {
     console.log(`
 Usage:
   njsfscrypt -keygen [length]
-  njsfscrypt -mount <storagePath> <mountPath> <hexKey>
+  njsfscrypt -init <storagePath> [--scrypt-n <N>] [--scrypt-r <r>] [--scrypt-p <p>]
+  njsfscrypt -mount <storagePath> <mountPath> <hexKey> [--metadata-privacy] [--padding <policy>] [--compression <codec>] [--read-only]
+  njsfscrypt -mount <storagePath> <mountPath> --passphrase | --keyfile <file> [--metadata-privacy] [--padding <policy>] [--compression <codec>] [--read-only]
+  njsfscrypt -addkey <storagePath> [--keyfile <file>] [--new-keyfile <file>]
+  njsfscrypt -removekey <storagePath> <slotId> [--keyfile <file>]
+  njsfscrypt -listkeys <storagePath>
+  njsfscrypt -upgrade <storagePath> <hexKey|--passphrase|--keyfile <file>>
+  njsfscrypt -migrate <storagePath> <hexKey|--passphrase|--keyfile <file>> --backup <dir> | --no-backup | --dry-run
+  njsfscrypt -ls <storagePath> <key> [path]
+  njsfscrypt -cat <storagePath> <key> <path>
+  njsfscrypt -get <storagePath> <key> <path> <localPath>
+  njsfscrypt -put <storagePath> <key> <localPath> <path>
+  njsfscrypt -export-tar <storagePath> <key> <path> <tarFile|->
+  njsfscrypt -import-dir <storagePath> <key> <localDir> <path>
+  njsfscrypt -fsck <storagePath> <hexKey|--passphrase|--keyfile <file>> [--json]
+  njsfscrypt -rotate <storagePath> <oldHexKey> <newHexKey>
+  njsfscrypt -rotate <storagePath> --passphrase | --keyfile <file>
 
 Commands:
   -keygen               Generates a new encryption key.
                         Optional: length (default 32)
 
+  -init                 Creates a passphrase protected vault config
+                        (${CryptVault.CONFIG_FILENAME}) in the storage folder.
+                        The passphrase is asked for interactively.
+                        Optional scrypt cost parameters (default N=${CryptKey.DEFAULT_SCRYPT_PARAMS.N}, r=${CryptKey.DEFAULT_SCRYPT_PARAMS.r}, p=${CryptKey.DEFAULT_SCRYPT_PARAMS.p})
+
   -mount                Mounts an encrypted filesystem.
                         Requires:
                           1) storagePath  (folder containing encrypted files)
                           2) mountPath    (FUSE mount folder)
                           3) hexKey       (64 or 128 hex chars, depending on key size)
+                             or --passphrase / --keyfile <file> to unlock the vault config
+                        Optional: --metadata-privacy keeps permissions, owner and
+                        timestamps encrypted and leaves neutral values on disk
+                        Optional: --padding block|pow2|random pads new files so
+                        the storage does not show their exact sizes
+                        Optional: --compression deflate|brotli compresses every
+                        block of new files before it is encrypted
+                        Optional: --read-only refuses every change with EROFS
+
+  -addkey               Adds a key slot to the vault. Unlocks with a passphrase
+                        (or --keyfile <file>) and adds a new passphrase
+                        (or --new-keyfile <file>). No file is re-encrypted.
+
+  -removekey            Revokes a key slot. Unlocks with a passphrase
+                        (or --keyfile <file>). The last slot can not be removed.
+
+  -listkeys             Lists the key slots of the vault.
+
+  -upgrade              Re-encrypts all files written by an older release into
+                        the current file format. Run it on an unmounted storage.
+
+  -migrate              Re-encrypts version 1 (AES-CTR) files of releases before
+                        1.2.0 into the current file format and lists each file.
+                        --backup <dir> copies every version 1 file there first;
+                        the version 1 layout is not verified against files of
+                        1.1.x, so keep the copies until the migrated files check
+                        out. --no-backup skips them, --dry-run only lists the
+                        files. Run it on an unmounted storage, then run -upgrade.
+
+  -ls, -cat, -get, -put, -export-tar, -import-dir
+                        Work with the files of a storage without mounting it,
+                        for hosts without FUSE. <key> is a hexKey, --passphrase
+                        or --keyfile <file>; --metadata-privacy, --padding and
+                        --compression apply as for -mount. -export-tar writes to stdout for -.
+                        Do not use them on a mounted storage.
+
+  -fsck                 Checks every name, file header and block of the storage
+                        and lists corrupt, truncated, foreign and undecodable
+                        entries. Optional: --json prints the report as JSON.
+                        Exits with 1 if anything was found. Nothing is changed.
+
+  -rotate               Re-encrypts the whole storage under a new key. With a
+                        vault a new data key is created; the unlocking passphrase
+                        (or key file) becomes its only key slot. Run it on an
+                        unmounted storage. An interrupted rotation is resumed by
+                        running the same command again.
+
+Passphrases are read from the terminal without echo, or from the
+NJSFSCRYPT_PASSPHRASE (NJSFSCRYPT_NEW_PASSPHRASE for -addkey) environment
+variable when it is set.
 
 Examples:
   njsfscrypt -keygen
   njsfscrypt -keygen 64
-  
+
+  njsfscrypt -init ./storage
+  njsfscrypt -mount ./storage ./mnt --passphrase
+  njsfscrypt -addkey ./storage
+  njsfscrypt -addkey ./storage --new-keyfile ./operator2.key
+  njsfscrypt -removekey ./storage 1
+  njsfscrypt -upgrade ./storage --passphrase
+  njsfscrypt -migrate ./storage 012345abcdef... --backup ./v1-backup
+  njsfscrypt -fsck ./storage --passphrase --json
+  njsfscrypt -put ./storage --passphrase ./report.pdf /docs/report.pdf
+  njsfscrypt -export-tar ./storage --passphrase / - | tar -x -C ./restore
+  njsfscrypt -rotate ./storage --passphrase
+
   njsfscrypt -mount ./storage ./mnt 012345abcdef...
 `);
 };
@@ -42,6 +136,291 @@ const colorPad = (str: string, len: number, color: (s: string) => string): strin
     return color(str.padEnd(len, ' '));
 };
 
+/**
+ * Lines of piped (non-TTY) stdin, shared by all passphrase prompts so that
+ * several answers can be fed through one pipe.
+ */
+let stdinLines: AsyncIterator<string>|null = null;
+
+/**
+ * Read a passphrase from an environment variable or the terminal. On a TTY
+ * the typed characters are not echoed and the prompt goes to stderr, since
+ * stdout may carry file or archive data; piped stdin is read line by line.
+ * @param {string} prompt
+ * @param {string} envName
+ * @return {string}
+ */
+const readPassphrase = async(prompt: string, envName: string = 'NJSFSCRYPT_PASSPHRASE'): Promise<string> => {
+    const fromEnv = process.env[envName];
+
+    if (fromEnv !== undefined) {
+        return fromEnv;
+    }
+
+    if (!process.stdin.isTTY) {
+        if (stdinLines === null) {
+            stdinLines = readline.createInterface({input: process.stdin})[Symbol.asyncIterator]();
+        }
+
+        const line = await stdinLines.next();
+        return line.done ? '' : line.value;
+    }
+
+    return new Promise<string>((resolve) => {
+        const rl = readline.createInterface({
+            input: process.stdin,
+            output: process.stderr,
+            terminal: true
+        });
+
+        let muted = false;
+
+        const out = rl as unknown as {_writeToOutput: (s: string) => void;};
+        const write = out._writeToOutput.bind(rl);
+
+        out._writeToOutput = (s: string): void => {
+            if (!muted) {
+                write(s);
+            }
+        };
+
+        rl.question(prompt, (answer) => {
+            rl.close();
+            process.stderr.write('\n');
+            resolve(answer);
+        });
+
+        muted = true;
+    });
+};
+
+/**
+ * Parse an optional numeric `--flag <value>` pair
+ * @param {string} flag
+ * @return {number|undefined}
+ */
+const numericFlag = (flag: string): number|undefined => {
+    const idx = args.indexOf(flag);
+
+    if (idx === -1) {
+        return undefined;
+    }
+
+    const parsed = parseInt(args[idx + 1] ?? '', 10);
+
+    if (isNaN(parsed) || parsed <= 0) {
+        console.log(`❌ Invalid value for ${flag}: "${args[idx + 1]}"\n`);
+        process.exit(1);
+    }
+
+    return parsed;
+};
+
+/**
+ * Parse an optional `--flag <value>` pair
+ * @param {string} flag
+ * @return {string|undefined}
+ */
+const stringFlag = (flag: string): string|undefined => {
+    const idx = args.indexOf(flag);
+
+    if (idx === -1) {
+        return undefined;
+    }
+
+    const value = args[idx + 1];
+
+    if (value === undefined || value.startsWith('--')) {
+        console.log(`❌ Missing value for ${flag}\n`);
+        process.exit(1);
+    }
+
+    return value;
+};
+
+/**
+ * scrypt cost parameters from --scrypt-n / --scrypt-r / --scrypt-p
+ * @return {Partial<CryptKeyScryptParams>}
+ */
+const scryptFlags = (): Partial<CryptKeyScryptParams> => {
+    const params: Partial<CryptKeyScryptParams> = {};
+    const n = numericFlag('--scrypt-n');
+    const r = numericFlag('--scrypt-r');
+    const p = numericFlag('--scrypt-p');
+
+    if (n !== undefined) {
+        params.N = n;
+    }
+
+    if (r !== undefined) {
+        params.r = r;
+    }
+
+    if (p !== undefined) {
+        params.p = p;
+    }
+
+    return params;
+};
+
+/**
+ * Print the error message and exit
+ * @param {string} what
+ * @param {unknown} e
+ */
+const fail: (what: string, e: unknown) => never = (what, e) => {
+    console.log(`❌ ${what}: ${e instanceof Error ? e.message : String(e)}\n`);
+    process.exit(1);
+};
+
+/**
+ * Read a key file, exit on error
+ * @param {string} file
+ * @return {Buffer}
+ */
+const readKeyFile = async(file: string): Promise<Buffer> => {
+    try {
+        return await readFile(file);
+    } catch (e) {
+        return fail(`Can not read key file "${file}"`, e);
+    }
+};
+
+/**
+ * Secret that unlocks the vault: --keyfile <file> or a prompted passphrase
+ * @return {CryptVaultSecret}
+ */
+const readUnlockSecret = async(): Promise<CryptVaultSecret> => {
+    const keyFile = stringFlag('--keyfile');
+
+    if (keyFile !== undefined) {
+        return {keyFile: await readKeyFile(keyFile)};
+    }
+
+    return {passphrase: await readPassphrase('🔑 Passphrase: ')};
+};
+
+/**
+ * Resolve the storage key from a hex key argument or, for --passphrase /
+ * --keyfile, by unlocking the vault config. Exits on error.
+ * @param {string} storagePath
+ * @param {string} keyArg
+ * @return {Buffer}
+ */
+const readStorageKey = async(storagePath: string, keyArg: string): Promise<Buffer> => {
+    if (keyArg === '--passphrase' || keyArg === '--keyfile') {
+        try {
+            return await CryptVault.unlock(storagePath, await readUnlockSecret());
+        } catch (e) {
+            return fail('Unlock failed', e);
+        }
+    }
+
+    if (!/^[0-9a-fA-F]+$/u.test(keyArg) || keyArg.length % 2 !== 0) {
+        console.log('❌ Invalid hex key. Must contain only [0-9a-f] and have even length.\n');
+        process.exit(1);
+    }
+
+    return CryptKey.hexStrToBuffer(keyArg);
+};
+
+/**
+ * Flags that take a value
+ */
+const VALUE_FLAGS = ['--keyfile', '--new-keyfile', '--padding', '--compression', '--scrypt-n', '--scrypt-r', '--scrypt-p', '--backup'];
+
+/**
+ * Positional arguments after the command, without flags and their values
+ * @return {string[]}
+ */
+const positionals = (): string[] => {
+    const result: string[] = [];
+
+    for (let i = 1; i < args.length; i++) {
+        if (VALUE_FLAGS.includes(args[i])) {
+            i++;
+        } else if (!args[i].startsWith('--')) {
+            result.push(args[i]);
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Padding policy from --padding, exits on an invalid value
+ * @return {string}
+ */
+const paddingFlag = (): 'none'|'block'|'pow2'|'random' => {
+    const padding = stringFlag('--padding') ?? 'none';
+
+    if (padding !== 'none' && padding !== 'block' && padding !== 'pow2' && padding !== 'random') {
+        console.log(`❌ Invalid value for --padding: "${padding}"\n   Use block, pow2 or random.\n`);
+        process.exit(1);
+    }
+
+    return padding;
+};
+
+/**
+ * Block codec from --compression, exits on an invalid value
+ * @return {string}
+ */
+const compressionFlag = (): 'none'|'deflate'|'brotli' => {
+    const compression = stringFlag('--compression') ?? 'none';
+
+    if (compression !== 'none' && compression !== 'deflate' && compression !== 'brotli') {
+        console.log(`❌ Invalid value for --compression: "${compression}"\n   Use deflate or brotli.\n`);
+        process.exit(1);
+    }
+
+    return compression;
+};
+
+/**
+ * Open a storage for the commands that work without a mount:
+ * `<storagePath> <hexKey|--passphrase|--keyfile <file>> <names…>`.
+ * Exits if an argument is missing.
+ * @param {string[]} names Names of the required arguments after the key
+ * @return {{offline: VirtualFSOffline, rest: string[]}}
+ */
+const openOffline = async(names: string[]): Promise<{offline: VirtualFSOffline; rest: string[];}> => {
+    const [storagePath, ...rest] = positionals();
+    let keyArg: string|undefined;
+
+    if (args.includes('--keyfile')) {
+        keyArg = '--keyfile';
+    } else if (args.includes('--passphrase')) {
+        keyArg = '--passphrase';
+    } else {
+        keyArg = rest.shift();
+    }
+
+    if (storagePath === undefined || keyArg === undefined || rest.length < names.length) {
+        console.log(`❌ Missing arguments for ${args[0]}.\n`);
+        console.log(`Required: <storagePath> <hexKey|--passphrase|--keyfile <file>> ${names.map((name) => `<${name}>`).join(' ')}\n`);
+        printHelp();
+        process.exit(1);
+    }
+
+    const offline = new VirtualFSOffline(new CryptFS({
+        encryptionKey: await readStorageKey(storagePath, keyArg),
+        baseDir: storagePath,
+        legacyBlockSize: LEGACY_BLOCK_SIZE,
+        metadataPrivacy: args.includes('--metadata-privacy'),
+        padding: paddingFlag(),
+        compression: compressionFlag()
+    }));
+
+    try {
+        await offline.init();
+    } catch (e) {
+        fail('Opening the storage failed', e);
+    }
+
+    return {offline: offline, rest: rest};
+};
+
 // ---------------------------------------------------------------------------------------------------------------------
 
 if (args.length === 0) {
@@ -77,25 +456,442 @@ switch (args[0]) {
 
     // -----------------------------------------------------------------------------------------------------------------
 
-    case '-mount': {
+    case '-init': {
+        if (args.length < 2) {
+            console.log('❌ Missing arguments for -init.\n');
+            console.log('Required: <storagePath>\n');
+            printHelp();
+            process.exit(1);
+        }
 
-        if (args.length < 4) {
-            console.log('❌ Missing arguments for -mount.\n');
-            console.log('Required: <storagePath> <mountPath> <hexKey>\n');
+        const storagePath = args[1];
+
+        if (await CryptVault.exists(storagePath)) {
+            console.log(`❌ Vault config already exists: ${CryptVault.configPath(storagePath)}\n`);
+            process.exit(1);
+        }
+
+        const params = scryptFlags();
+        const passphrase = await readPassphrase('🔑 New passphrase: ');
+
+        if (process.env.NJSFSCRYPT_PASSPHRASE === undefined) {
+            const repeat = await readPassphrase('🔑 Repeat passphrase: ');
+
+            if (repeat !== passphrase) {
+                console.log('❌ Passphrases do not match.\n');
+                process.exit(1);
+            }
+        }
+
+        try {
+            await CryptVault.init(storagePath, passphrase, params);
+        } catch (e) {
+            fail('Vault init failed', e);
+        }
+
+        console.log('🔐 Vault created successfully!');
+        console.log('----------------------------------------');
+        console.log(`Config : ${CryptVault.configPath(storagePath)}`);
+        console.log('----------------------------------------');
+        console.log(`Mount it with: njsfscrypt -mount ${storagePath} <mountPath> --passphrase`);
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-addkey': {
+        if (args.length < 2) {
+            console.log('❌ Missing arguments for -addkey.\n');
+            console.log('Required: <storagePath>\n');
             printHelp();
             process.exit(1);
         }
 
         const storagePath = args[1];
-        const mountPath = args[2];
-        const hexKey = args[3];
+        const unlock = await readUnlockSecret();
+        const newKeyFile = stringFlag('--new-keyfile');
+        let newSecret: CryptVaultSecret;
+
+        if (newKeyFile === undefined) {
+            const passphrase = await readPassphrase('🔑 New passphrase: ', 'NJSFSCRYPT_NEW_PASSPHRASE');
+
+            if (process.env.NJSFSCRYPT_NEW_PASSPHRASE === undefined) {
+                const repeat = await readPassphrase('🔑 Repeat new passphrase: ', 'NJSFSCRYPT_NEW_PASSPHRASE');
+
+                if (repeat !== passphrase) {
+                    console.log('❌ Passphrases do not match.\n');
+                    process.exit(1);
+                }
+            }
+
+            newSecret = {passphrase: passphrase};
+        } else {
+            newSecret = {keyFile: await readKeyFile(newKeyFile)};
+        }
+
+        try {
+            const slotId = await CryptVault.addSlot(storagePath, unlock, newSecret, scryptFlags());
+            console.log(`🔑 Key slot ${slotId} added.`);
+        } catch (e) {
+            fail('Adding key slot failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-removekey': {
+        if (args.length < 3) {
+            console.log('❌ Missing arguments for -removekey.\n');
+            console.log('Required: <storagePath> <slotId>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        const storagePath = args[1];
+        const slotId = parseInt(args[2], 10);
+
+        if (isNaN(slotId) || slotId < 0) {
+            console.log(`❌ Invalid slot id: "${args[2]}"\n`);
+            process.exit(1);
+        }
+
+        try {
+            await CryptVault.removeSlot(storagePath, await readUnlockSecret(), slotId);
+            console.log(`🗑️ Key slot ${slotId} removed.`);
+        } catch (e) {
+            fail('Removing key slot failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-listkeys': {
+        if (args.length < 2) {
+            console.log('❌ Missing arguments for -listkeys.\n');
+            console.log('Required: <storagePath>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        try {
+            const slots = await CryptVault.listSlots(args[1]);
+
+            console.log(chalk.bold(pad('SLOT', 6) + pad('TYPE', 12) + pad('CREATED', 26)));
+            console.log(chalk.gray('-'.repeat(44)));
+
+            for (const slot of slots) {
+                console.log(pad(`${slot.id}`, 6) + pad(slot.type, 12) + pad(slot.created ?? '-', 26));
+            }
+        } catch (e) {
+            fail('Reading key slots failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-upgrade': {
+        if (args.length < 3) {
+            console.log('❌ Missing arguments for -upgrade.\n');
+            console.log('Required: <storagePath> <hexKey|--passphrase|--keyfile <file>>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        const storagePath = args[1];
+        const cfs = new CryptFS({
+            encryptionKey: await readStorageKey(storagePath, args[2]),
+            baseDir: storagePath,
+            legacyBlockSize: LEGACY_BLOCK_SIZE
+        });
+
+        try {
+            await cfs.init();
+            const upgraded = await cfs.upgrade();
+
+            for (const file of upgraded) {
+                console.log(`⬆️ ${file}`);
+            }
+
+            console.log(`✅ ${upgraded.length} file(s) upgraded.`);
+        } catch (e) {
+            fail('Upgrade failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-migrate': {
+        if (args.length < 3) {
+            console.log('❌ Missing arguments for -migrate.\n');
+            console.log('Required: <storagePath> <hexKey|--passphrase|--keyfile <file>>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        const storagePath = args[1];
+        const dryRun = args.includes('--dry-run');
+        const backupDir = stringFlag('--backup') ?? null;
 
-        if (!/^[0-9a-fA-F]+$/u.test(hexKey) || hexKey.length % 2 !== 0) {
-            console.log('❌ Invalid hex key. Must contain only [0-9a-f] and have even length.\n');
+        if (!dryRun && backupDir === null && !args.includes('--no-backup')) {
+            console.log('❌ -migrate needs --backup <dir> to keep the version 1 files, or --no-backup.\n');
             process.exit(1);
         }
 
-        const keyBuffer = CryptKey.hexStrToBuffer(hexKey);
+        const cfs = new CryptFS({
+            encryptionKey: await readStorageKey(storagePath, args[2]),
+            baseDir: storagePath,
+            legacyBlockSize: LEGACY_BLOCK_SIZE
+        });
+
+        try {
+            await cfs.init();
+            const results = await cfs.migrateV1('/', dryRun, backupDir);
+            let failed = 0;
+
+            for (const result of results) {
+                const size = result.fileSize === null ? '' : ` (${result.fileSize} bytes)`;
+                const backup = result.backupPath === undefined ? '' : `, original in ${result.backupPath}`;
+
+                switch (result.status) {
+                    case 'dry-run':
+                        console.log(`🔍 ${result.path}${size}`);
+                        break;
+
+                    case 'migrated':
+                        console.log(`⬆️ ${result.path}${size}${backup}`);
+                        break;
+
+                    default:
+                        failed++;
+                        console.log(`❌ ${result.path}${size}: ${result.error}`);
+                }
+            }
+
+            if (dryRun) {
+                console.log(`✅ ${results.length} version 1 file(s) found, nothing changed (dry run).`);
+            } else {
+                console.log(`✅ ${results.length - failed} file(s) migrated, ${failed} failed.`);
+            }
+
+            if (failed > 0) {
+                process.exit(1);
+            }
+        } catch (e) {
+            fail('Migration failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-ls': {
+        const {offline, rest} = await openOffline([]);
+
+        try {
+            for (const {name, stats} of await offline.ls(rest[0] ?? '/')) {
+                // eslint-disable-next-line no-bitwise
+                const type = stats.mode & constants.S_IFMT;
+                let typeChar = '-';
+
+                if (type === constants.S_IFDIR) {
+                    typeChar = 'd';
+                } else if (type === constants.S_IFLNK) {
+                    typeChar = 'l';
+                }
+
+                // eslint-disable-next-line no-bitwise
+                const mode = (stats.mode & 0o7777).toString(8).padStart(4, '0');
+
+                console.log(`${typeChar}${mode} ${String(stats.size).padStart(12)} ${stats.mtime.toISOString()} ${name}`);
+            }
+        } catch (e) {
+            fail('Listing failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-cat': {
+        const {offline, rest} = await openOffline(['path']);
+
+        try {
+            await offline.cat(rest[0], process.stdout);
+        } catch (e) {
+            fail('Reading failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-get': {
+        const {offline, rest} = await openOffline(['path', 'localPath']);
+
+        try {
+            const bytes = await offline.get(rest[0], rest[1]);
+            console.log(`✅ ${rest[0]} → ${rest[1]} (${bytes} bytes)`);
+        } catch (e) {
+            fail('Copying out failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-put': {
+        const {offline, rest} = await openOffline(['localPath', 'path']);
+
+        try {
+            const bytes = await offline.put(rest[0], rest[1]);
+            console.log(`✅ ${rest[0]} → ${rest[1]} (${bytes} bytes)`);
+        } catch (e) {
+            fail('Copying in failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-export-tar': {
+        const {offline, rest} = await openOffline(['path', 'tarFile']);
+        const toStdout = rest[1] === '-';
+        const out = toStdout ? process.stdout : createWriteStream(rest[1]);
+
+        try {
+            const count = await offline.exportTar(rest[0], out);
+
+            if (!toStdout) {
+                out.end();
+                await once(out, 'finish');
+                console.log(`✅ ${count} entries written to ${rest[1]}.`);
+            }
+        } catch (e) {
+            fail('Export failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-import-dir': {
+        const {offline, rest} = await openOffline(['localDir', 'path']);
+
+        try {
+            const count = await offline.importDir(rest[0], rest[1]);
+            console.log(`✅ ${count} entries imported into ${rest[1]}.`);
+        } catch (e) {
+            fail('Import failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-fsck': {
+        if (args.length < 3) {
+            console.log('❌ Missing arguments for -fsck.\n');
+            console.log('Required: <storagePath> <hexKey|--passphrase|--keyfile <file>>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        const storagePath = args[1];
+        const cfs = new CryptFS({
+            encryptionKey: await readStorageKey(storagePath, args[2]),
+            baseDir: storagePath,
+            legacyBlockSize: LEGACY_BLOCK_SIZE
+        });
+
+        try {
+            await cfs.init();
+            const report = await cfs.verify();
+
+            if (args.includes('--json')) {
+                console.log(JSON.stringify(report, null, 2));
+            } else {
+                for (const issue of report.issues) {
+                    console.log(`❌ ${issue.kind}: ${issue.path ?? '?'} (${issue.diskPath}) — ${issue.message}`);
+                }
+
+                const icon = report.issues.length > 0 ? '⚠️' : '✅';
+                console.log(`${icon} ${report.checked} entries checked, ${report.issues.length} problem(s) found.`);
+            }
+
+            if (report.issues.length > 0) {
+                process.exit(1);
+            }
+        } catch (e) {
+            fail('Check failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-rotate': {
+        const storagePath = args[1];
+        const usesVault = args[2] === '--passphrase' || args[2] === '--keyfile';
+
+        if (storagePath === undefined || (!usesVault && args[3] === undefined)) {
+            console.log('❌ Missing arguments for -rotate.\n');
+            console.log('Required: <storagePath> <oldHexKey> <newHexKey> | --passphrase | --keyfile <file>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        try {
+            let oldKey: Buffer;
+            let newKey: Buffer;
+
+            if (usesVault) {
+                ({oldKey, newKey} = await CryptVault.beginRotation(storagePath, await readUnlockSecret()));
+            } else {
+                oldKey = await readStorageKey(storagePath, args[2]);
+                newKey = await readStorageKey(storagePath, args[3]);
+            }
+
+            const cfs = new CryptFS({
+                encryptionKey: oldKey,
+                baseDir: storagePath,
+                legacyBlockSize: LEGACY_BLOCK_SIZE
+            });
+
+            console.log('🔄 Re-encrypting storage...');
+            const rotated = await cfs.rotateKey(newKey);
+
+            if (usesVault) {
+                await CryptVault.finishRotation(storagePath);
+                console.log('ℹ️ Other key slots were removed; add them again with -addkey.');
+            }
+
+            console.log(`✅ ${rotated} entries re-encrypted under the new key.`);
+        } catch (e) {
+            fail('Key rotation failed', e);
+        }
+        break;
+    }
+
+    // -----------------------------------------------------------------------------------------------------------------
+
+    case '-mount': {
+
+        if (args.length < 4) {
+            console.log('❌ Missing arguments for -mount.\n');
+            console.log('Required: <storagePath> <mountPath> <hexKey|--passphrase|--keyfile <file>>\n');
+            printHelp();
+            process.exit(1);
+        }
+
+        const storagePath = args[1];
+        const mountPath = args[2];
+        const keyBuffer = await readStorageKey(storagePath, args[3]);
+        const padding = paddingFlag();
+        const compression = compressionFlag();
 
         const MOUNT_HEADER_LINES = 6;
 
@@ -106,7 +902,7 @@ switch (args[0]) {
         console.log(`Key Length   : ${keyBuffer.length} bytes`);
         console.log('========================================');
 
-        const vfs = new VirtualFS(mountPath);
+        const vfs = new VirtualFS(mountPath, false, {readOnly: args.includes('--read-only')});
 
         // stats -------------------------------------------------------------------------------------------------------
         setInterval(() => {
@@ -176,7 +972,10 @@ switch (args[0]) {
         vfs.register('/', new CryptFS({
             encryptionKey: keyBuffer,
             baseDir: storagePath,
-            blockSize: 64 * 10124
+            legacyBlockSize: LEGACY_BLOCK_SIZE,
+            metadataPrivacy: args.includes('--metadata-privacy'),
+            padding: padding,
+            compression: compression
         }));
 
         vfs.mount();
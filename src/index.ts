@@ -4,7 +4,30 @@ export {VirtualFSHandler} from './FS/VirtualFSHandler.js';
 export {ErrnoException} from './Error/ErrnoException.js';
 export {ErrnoFuseCb} from './Error/ErrnoFuseCb.js';
 export {ErrorUtils} from './Utils/ErrorUtils.js';
+export {FallocateUtils, FallocateFlag, FallocateRequest} from './Utils/FallocateUtils.js';
 export {VirtualFS, VirtualFSLogger, VirtualFSLoggerLevel, VirtualFSStats, VirtualFSMountOptions} from './FS/VirtualFS.js';
 export {DirectFS} from './FS/DirectFS.js';
 export {CryptFS} from './FS/CryptFS.js';
-export {CryptKey} from './Key/CryptKey.js';
\ No newline at end of file
+export {MemoryFS} from './FS/MemoryFS.js';
+export {ReadOnlyFS} from './FS/ReadOnlyFS.js';
+export {OverlayFS} from './FS/OverlayFS.js';
+export {DedupFS} from './FS/DedupFS.js';
+export {VirtualFSOffline, VirtualFSOfflineListEntry} from './FS/VirtualFSOffline.js';
+export {
+    VirtualFSPromises,
+    VirtualFSPromisesWriteOptions,
+    VirtualFSPromisesReadStreamOptions,
+    VirtualFSPromisesWriteStreamOptions
+} from './FS/VirtualFSPromises.js';
+export {TarWriter, TarWriterEntry} from './Utils/TarWriter.js';
+export {CryptKey, CryptKeyScryptParams} from './Key/CryptKey.js';
+export {
+    CryptVault,
+    CryptVaultConfig,
+    CryptVaultKdf,
+    CryptVaultScryptKdf,
+    CryptVaultHkdfKdf,
+    CryptVaultSecret,
+    CryptVaultSlot,
+    CryptVaultSlotType
+} from './Key/CryptVault.js';
\ No newline at end of file
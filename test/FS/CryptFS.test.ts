@@ -1,15 +1,87 @@
 import {strict as assert} from 'node:assert';
 import {afterEach, beforeEach, describe, it} from 'node:test';
-import {mkdtemp, rm, readdir} from 'node:fs/promises';
+import {mkdtemp, rm, readdir, readFile, writeFile, lstat} from 'node:fs/promises';
 import {tmpdir} from 'node:os';
 import {join} from 'node:path';
 import {constants} from 'node:fs';
+import * as crypto from 'node:crypto';
+import {Readable} from 'node:stream';
+import {pipeline} from 'node:stream/promises';
+import Fuse from 'fuse-native';
 import {CryptFS} from '../../src/FS/CryptFS.js';
 import {CryptKey} from '../../src/Key/CryptKey.js';
+import {CryptVault} from '../../src/Key/CryptVault.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+import {VirtualFSLoggerLevel} from '../../src/FS/VirtualFS.js';
 
 const KEY = CryptKey.hexStrToBuffer('aabbccddeeff00112233445566778899aabbccddeeff00112233445566778899');
 const BLOCK_SIZE = 64 * 1024;
 
+/**
+ * On-disk entries of a storage directory, without the directory IV file
+ * @param {string} dir
+ * @return {string[]}
+ */
+const listEncrypted = async(dir: string): Promise<string[]> => {
+    return (await readdir(dir)).filter((fn) => fn !== CryptFS.DIRIV_FILENAME);
+};
+
+/**
+ * Matches the EIO a CryptFS integrity failure surfaces as
+ * @param {unknown} e
+ * @return {boolean}
+ */
+const isEio = (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.EIO;
+
+/**
+ * Build a v2 file (blocks sealed with the master key, AAD = block index
+ * only) as written by older releases.
+ * @param {Buffer} plain
+ * @param {number} blockSize
+ * @return {Buffer}
+ */
+const buildV2File = (plain: Buffer, blockSize: number = BLOCK_SIZE): Buffer => {
+    const header = Buffer.alloc(24);
+    header.write('NJSc', 0, 'ascii');
+    header.writeUInt32BE(2, 4);
+    header.writeBigInt64BE(BigInt(plain.length), 8);
+
+    const parts = [header];
+
+    for (let block = 0; block * blockSize < plain.length; block++) {
+        const aad = Buffer.alloc(8);
+        aad.writeBigUInt64BE(BigInt(block), 0);
+
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv('aes-256-gcm', KEY, iv);
+        cipher.setAAD(aad);
+        const ct = Buffer.concat([
+            cipher.update(plain.subarray(block * blockSize, (block + 1) * blockSize)),
+            cipher.final()
+        ]);
+
+        parts.push(iv, ct, cipher.getAuthTag());
+    }
+
+    return Buffer.concat(parts);
+};
+
+/**
+ * Build a v1 file (8 byte size, 16 byte nonce, AES-256-CTR payload) as
+ * written by releases before 1.2.0.
+ * @param {Buffer} plain
+ * @param {Buffer} nonce
+ * @return {Buffer}
+ */
+const buildV1File = (plain: Buffer, nonce: Buffer = crypto.randomBytes(16)): Buffer => {
+    const header = Buffer.alloc(8);
+    header.writeBigInt64BE(BigInt(plain.length), 0);
+
+    const cipher = crypto.createCipheriv('aes-256-ctr', KEY, nonce);
+
+    return Buffer.concat([header, nonce, cipher.update(plain), cipher.final()]);
+};
+
 describe('CryptFS', () => {
 
     let baseDir: string;
@@ -49,7 +121,7 @@ describe('CryptFS', () => {
         await fs.write('/secret.txt', fd, payload, 0);
         await fs.release('/secret.txt', fd);
 
-        const onDisk = await readdir(baseDir);
+        const onDisk = await listEncrypted(baseDir);
         assert.equal(onDisk.length, 1, 'expected exactly one encrypted entry');
         assert.notEqual(onDisk[0], 'secret.txt', 'filename must be encoded');
 
@@ -65,6 +137,16 @@ describe('CryptFS', () => {
         assert.ok(names.includes('named.txt'));
     });
 
+    it('readdir hides the vault config in the storage root', async () => {
+        await CryptVault.init(baseDir, 'passphrase', {N: 1024});
+
+        const fd = await fs.create('/visible.txt', 0o644);
+        await fs.release('/visible.txt', fd);
+
+        const names = await fs.readdir('/');
+        assert.deepEqual(names, ['visible.txt']);
+    });
+
     it('roundtrips a payload spanning multiple blocks', async () => {
         const fd = await fs.create('/big.bin', 0o644);
 
@@ -216,7 +298,7 @@ describe('CryptFS', () => {
         const original = '/leak-me.txt';
         await fs.symlink(original, '/secret-link');
 
-        const encodedEntries = await readdir(baseDir);
+        const encodedEntries = await listEncrypted(baseDir);
         const encodedLinkName = encodedEntries.find((n) => n !== 'target.txt') ?? encodedEntries[0]!;
         const onDiskTarget = (await import('node:fs/promises'))
             .readlink(join(baseDir, encodedLinkName));
@@ -247,7 +329,7 @@ describe('CryptFS', () => {
         await fs.release('/twin.txt', fd2);
         assert.equal(back.toString('utf8'), 'hardlink-payload');
 
-        const encodedEntries = await readdir(baseDir);
+        const encodedEntries = await listEncrypted(baseDir);
         assert.ok(encodedEntries.length >= 2, 'expected two encoded names on disk');
     });
 
@@ -282,15 +364,16 @@ describe('CryptFS', () => {
         // Locate the encoded on-disk filename (only one file in this fresh
         // baseDir for this test) and flip a byte inside the encrypted block.
         const fsMod = await import('node:fs/promises');
-        const entries = await fsMod.readdir(baseDir);
+        const entries = await listEncrypted(baseDir);
         assert.equal(entries.length, 1);
         const encryptedPath = join(baseDir, entries[0]!);
 
-        // Header = 24 bytes, then [12 IV][ct][16 tag]. Flip a byte in the
+        // Header = 24 bytes + 16 bytes file id + 60 bytes wrapped content
+        // key + 32 bytes MAC, then [12 IV][ct][16 tag]. Flip a byte in the
         // ciphertext region, well past header + IV.
         const fh = await fsMod.open(encryptedPath, 'r+');
         try {
-            const flipPos = 24 + 12 + 5;
+            const flipPos = 132 + 12 + 5;
             const one = Buffer.alloc(1);
             await fh.read(one, 0, 1, flipPos);
             one[0] ^= 0xff;
@@ -314,7 +397,7 @@ describe('CryptFS', () => {
         await fs.release('/tag-tampered.bin', fd);
 
         const fsMod = await import('node:fs/promises');
-        const entries = await fsMod.readdir(baseDir);
+        const entries = await listEncrypted(baseDir);
         const encryptedPath = join(baseDir, entries[0]!);
         const stat = await fsMod.stat(encryptedPath);
 
@@ -372,11 +455,1571 @@ describe('CryptFS', () => {
         await fs.release('/same-name-2.txt', fd2);
 
         const fsMod = await import('node:fs/promises');
-        const entries = await fsMod.readdir(baseDir);
+        const entries = await listEncrypted(baseDir);
         const buf1 = await fsMod.readFile(join(baseDir, entries[entries.length - 2]!));
         const buf2 = await fsMod.readFile(join(baseDir, entries[entries.length - 1]!));
 
         assert.notDeepEqual(buf1, buf2, 'identical plaintexts must not produce identical ciphertexts');
     });
 
+    it('wraps a distinct random content key into every header', async () => {
+        for (const name of ['/k1.txt', '/k2.txt']) {
+            // eslint-disable-next-line no-await-in-loop
+            const fd = await fs.create(name, 0o644);
+            // eslint-disable-next-line no-await-in-loop
+            await fs.write(name, fd, Buffer.from('same payload'), 0);
+            // eslint-disable-next-line no-await-in-loop
+            await fs.release(name, fd);
+        }
+
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        assert.equal(entries.length, 2);
+
+        const headers = await Promise.all(entries.map(async(e) => {
+            const raw = await fsMod.readFile(join(baseDir, e));
+            assert.equal(raw.readUInt32BE(4), 8);
+            return raw.subarray(40, 100);
+        }));
+
+        assert.notDeepEqual(headers[0], headers[1]);
+    });
+
+    it('fails with EIO when the wrapped content key is tampered', async () => {
+        const fd = await fs.create('/wrapped.txt', 0o644);
+        await fs.write('/wrapped.txt', fd, Buffer.from('payload'), 0);
+        await fs.release('/wrapped.txt', fd);
+
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        const encryptedPath = join(baseDir, entries[0]!);
+        const raw = await fsMod.readFile(encryptedPath);
+        raw[40 + 12 + 3] ^= 0x01;
+        await fsMod.writeFile(encryptedPath, raw);
+
+        await assert.rejects(() => fs.getattr('/wrapped.txt'), /does not authenticate/u);
+    });
+
+    it('keeps reading and writing v2 files sealed with the master key', async () => {
+        const fd = await fs.create('/legacy.txt', 0o644);
+        await fs.release('/legacy.txt', fd);
+
+        // Replace the on-disk content with a hand-built v2 file.
+        const plain = Buffer.from('written by an older version');
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        const encryptedPath = join(baseDir, entries[0]!);
+        await fsMod.writeFile(encryptedPath, buildV2File(plain));
+
+        const st = await fs.getattr('/legacy.txt');
+        assert.equal(st.size, plain.length);
+
+        const fd2 = await fs.open('/legacy.txt', constants.O_RDWR);
+        assert.deepEqual(await fs.read('/legacy.txt', fd2, 1024, 0), plain);
+        await fs.write('/legacy.txt', fd2, Buffer.from('!'), plain.length);
+        await fs.release('/legacy.txt', fd2);
+
+        const raw = await fsMod.readFile(encryptedPath);
+        assert.equal(raw.readUInt32BE(4), 2, 'existing files keep their format version');
+
+        const fd3 = await fs.open('/legacy.txt', constants.O_RDONLY);
+        assert.equal((await fs.read('/legacy.txt', fd3, 1024, 0)).toString(), `${plain.toString()}!`);
+        await fs.release('/legacy.txt', fd3);
+    });
+
+    it('rejects a block copied from another file at the same position', async () => {
+        for (const name of ['/a.bin', '/b.bin']) {
+            // eslint-disable-next-line no-await-in-loop
+            const fd = await fs.create(name, 0o644);
+            // eslint-disable-next-line no-await-in-loop
+            await fs.write(name, fd, Buffer.from('same length payload'), 0);
+            // eslint-disable-next-line no-await-in-loop
+            await fs.release(name, fd);
+        }
+
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        const target = join(baseDir, entries[0]!);
+        const rawA = await fsMod.readFile(target);
+        const rawB = await fsMod.readFile(join(baseDir, entries[1]!));
+
+        // Keep the target's header, paste the other file's block 0.
+        await fsMod.writeFile(target, Buffer.concat([rawA.subarray(0, 132), rawB.subarray(132)]));
+
+        const names = await fs.readdir('/');
+        const victim = `/${names[0]!}`;
+        const fd = await fs.open(victim, constants.O_RDONLY);
+        await assert.rejects(() => fs.read(victim, fd, 1024, 0), /unsupported state|auth/iu);
+        await fs.release(victim, fd);
+    });
+
+    it('fails with EIO when the file id in the header is changed', async () => {
+        const fd = await fs.create('/id.txt', 0o644);
+        await fs.write('/id.txt', fd, Buffer.from('payload'), 0);
+        await fs.release('/id.txt', fd);
+
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        const encryptedPath = join(baseDir, entries[0]!);
+        const raw = await fsMod.readFile(encryptedPath);
+        raw[24] ^= 0x01;
+        await fsMod.writeFile(encryptedPath, raw);
+
+        await assert.rejects(() => fs.getattr('/id.txt'), /does not authenticate/u);
+    });
+
+    it('upgrades a v2 file to the current version, keeping its contents', async () => {
+        const fd = await fs.create('/old.txt', 0o644);
+        await fs.release('/old.txt', fd);
+
+        const plain = Buffer.from('upgrade me');
+        const fsMod = await import('node:fs/promises');
+        const entries = await listEncrypted(baseDir);
+        const encryptedPath = join(baseDir, entries[0]!);
+        await fsMod.writeFile(encryptedPath, buildV2File(plain));
+
+        const current = await fs.create('/current.txt', 0o644);
+        await fs.release('/current.txt', current);
+
+        assert.deepEqual(await fs.upgrade(), ['/old.txt']);
+        assert.deepEqual(await fs.upgrade(), [], 'a second run has nothing left to do');
+
+        const raw = await fsMod.readFile(encryptedPath);
+        assert.equal(raw.readUInt32BE(4), 8);
+        assert.deepEqual((await listEncrypted(baseDir)).length, 2, 'no temporary file is left behind');
+
+        const fd2 = await fs.open('/old.txt', constants.O_RDONLY);
+        assert.deepEqual(await fs.read('/old.txt', fd2, 1024, 0), plain);
+        await fs.release('/old.txt', fd2);
+    });
+
+    it('upgrade walks into sub directories', async () => {
+        await fs.mkdir('/sub', 0o755);
+        const fd = await fs.create('/sub/nested.txt', 0o644);
+        await fs.release('/sub/nested.txt', fd);
+
+        const fsMod = await import('node:fs/promises');
+        const [subDir] = await listEncrypted(baseDir);
+        const [nested] = await listEncrypted(join(baseDir, subDir!));
+        await fsMod.writeFile(join(baseDir, subDir!, nested!), buildV2File(Buffer.from('nested')));
+
+        assert.deepEqual(await fs.upgrade(), ['/sub/nested.txt']);
+        assert.equal(await fs.upgradeFile('/sub/nested.txt'), false);
+    });
+
+    for (const [field, pos] of [['filesize', 15], ['version', 7], ['reserved bytes', 20]] as const) {
+        it(`fails open and getattr with EIO when the header ${field} is tampered`, async () => {
+            const fd = await fs.create('/header.txt', 0o644);
+            await fs.write('/header.txt', fd, Buffer.from('a payload that is longer than a few bytes'), 0);
+            await fs.release('/header.txt', fd);
+
+            const fsMod = await import('node:fs/promises');
+            const entries = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entries[0]!);
+            const raw = await fsMod.readFile(encryptedPath);
+            raw[pos] ^= 0x01;
+            await fsMod.writeFile(encryptedPath, raw);
+
+            await assert.rejects(() => fs.getattr('/header.txt'), isEio);
+            await assert.rejects(() => fs.open('/header.txt', constants.O_RDONLY), isEio);
+        });
+    }
+
+    it('keeps the header MAC valid across writes, truncates and re-opens', async () => {
+        const fd = await fs.create('/mac.txt', 0o644);
+        await fs.write('/mac.txt', fd, Buffer.alloc(100000, 0x61), 0);
+        await fs.fsync('/mac.txt', fd, false);
+        await fs.ftruncate('/mac.txt', fd, 1234);
+        await fs.release('/mac.txt', fd);
+
+        await fs.truncate('/mac.txt', 10);
+        assert.equal((await fs.getattr('/mac.txt')).size, 10);
+    });
+
+    it('keeps a written size when ftruncate does not change it', async () => {
+        const fd = await fs.create('/same.txt', 0o644);
+        await fs.write('/same.txt', fd, Buffer.from('unchanged'), 0);
+        await fs.ftruncate('/same.txt', fd, 9);
+        await fs.release('/same.txt', fd);
+
+        assert.equal((await fs.getattr('/same.txt')).size, 9);
+    });
+
+    it('open honours O_TRUNC without destroying the header', async () => {
+        const fd = await fs.create('/trunc.txt', 0o644);
+        await fs.write('/trunc.txt', fd, Buffer.from('old contents'), 0);
+        await fs.release('/trunc.txt', fd);
+
+        // eslint-disable-next-line no-bitwise
+        const fd2 = await fs.open('/trunc.txt', constants.O_WRONLY | constants.O_TRUNC);
+        await fs.write('/trunc.txt', fd2, Buffer.from('new'), 0);
+        await fs.release('/trunc.txt', fd2);
+
+        const fd3 = await fs.open('/trunc.txt', constants.O_RDONLY);
+        assert.equal((await fs.read('/trunc.txt', fd3, 1024, 0)).toString(), 'new');
+        await fs.release('/trunc.txt', fd3);
+    });
+
+    describe('final block marker', () => {
+
+        const SMALL = 16;
+        let small: CryptFS;
+
+        beforeEach(async () => {
+            small = new CryptFS({baseDir, encryptionKey: KEY, blockSize: SMALL});
+            await small.init();
+        });
+
+        it('detects a header rolled back after trailing blocks were cut off', async () => {
+            const fd = await small.create('/tail.bin', 0o644);
+            await small.write('/tail.bin', fd, Buffer.alloc(2 * SMALL, 0x61), 0);
+            await small.release('/tail.bin', fd);
+
+            const fsMod = await import('node:fs/promises');
+            const [entry] = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entry!);
+            const oldHeader = (await fsMod.readFile(encryptedPath)).subarray(0, 132);
+
+            const fd2 = await small.open('/tail.bin', constants.O_RDWR);
+            await small.write('/tail.bin', fd2, Buffer.alloc(SMALL, 0x62), 2 * SMALL);
+            await small.release('/tail.bin', fd2);
+
+            // Old (validly MACed) header + the first two current blocks.
+            const raw = await fsMod.readFile(encryptedPath);
+            const blocks = raw.subarray(132, 132 + (2 * (SMALL + 28)));
+            await fsMod.writeFile(encryptedPath, Buffer.concat([oldHeader, blocks]));
+
+            assert.equal((await small.getattr('/tail.bin')).size, 2 * SMALL);
+
+            const fd3 = await small.open('/tail.bin', constants.O_RDONLY);
+            await assert.rejects(() => small.read('/tail.bin', fd3, 1024, 0), /unsupported state|auth/iu);
+            await small.release('/tail.bin', fd3);
+        });
+
+        it('keeps files readable across growing and shrinking on block boundaries', async () => {
+            const fd = await small.create('/grow.bin', 0o644);
+            await small.write('/grow.bin', fd, Buffer.alloc(SMALL, 0x61), 0);
+            await small.write('/grow.bin', fd, Buffer.alloc(SMALL, 0x62), SMALL);
+            await small.write('/grow.bin', fd, Buffer.alloc(4, 0x63), 5 * SMALL);
+            await small.ftruncate('/grow.bin', fd, 2 * SMALL);
+            await small.release('/grow.bin', fd);
+
+            const fd2 = await small.open('/grow.bin', constants.O_RDONLY);
+            const back = await small.read('/grow.bin', fd2, 1024, 0);
+            await small.release('/grow.bin', fd2);
+
+            assert.deepEqual(back, Buffer.concat([Buffer.alloc(SMALL, 0x61), Buffer.alloc(SMALL, 0x62)]));
+
+            await small.truncate('/grow.bin', SMALL);
+            await small.truncate('/grow.bin', 3 * SMALL);
+
+            const fd3 = await small.open('/grow.bin', constants.O_RDONLY);
+            const grown = await small.read('/grow.bin', fd3, 1024, 0);
+            await small.release('/grow.bin', fd3);
+
+            assert.deepEqual(grown, Buffer.concat([Buffer.alloc(SMALL, 0x61), Buffer.alloc(2 * SMALL)]));
+        });
+
+        it('lets an fd opened before a growing write read the grown file', async () => {
+            const fd = await small.create('/tail.log', 0o644);
+            await small.write('/tail.log', fd, Buffer.from('head\n'), 0);
+            await small.release('/tail.log', fd);
+
+            const reader = await small.open('/tail.log', constants.O_RDONLY);
+            assert.equal((await small.read('/tail.log', reader, 1024, 0)).toString(), 'head\n');
+
+            const writer = await small.open('/tail.log', constants.O_WRONLY);
+            await small.write('/tail.log', writer, Buffer.alloc(10 * SMALL, 0x61), 5);
+
+            const expected = Buffer.concat([Buffer.from('head\n'), Buffer.alloc(10 * SMALL, 0x61)]);
+            assert.deepEqual(await small.read('/tail.log', reader, 1024, 0), expected);
+            assert.equal((await small.getattr('/tail.log')).size, expected.length);
+
+            await small.release('/tail.log', reader);
+            await small.release('/tail.log', writer);
+        });
+
+        it('keeps a grown file readable when its writer is never released', async () => {
+            const fd = await small.create('/crash.bin', 0o644);
+            await small.write('/crash.bin', fd, Buffer.from('before'), 0);
+            await small.fsync('/crash.bin', fd, false);
+            await small.write('/crash.bin', fd, Buffer.alloc(10 * SMALL, 0x61), 6);
+
+            // A fresh instance sees the storage as a crash would leave it.
+            const fresh = new CryptFS({baseDir, encryptionKey: KEY, blockSize: SMALL});
+            await fresh.init();
+
+            const rfd = await fresh.open('/crash.bin', constants.O_RDONLY);
+            assert.equal((await fresh.read('/crash.bin', rfd, 6, 0)).toString(), 'before');
+            assert.equal((await fresh.read('/crash.bin', rfd, 1024, 0)).length, 6 + (10 * SMALL));
+            await fresh.release('/crash.bin', rfd);
+            assert.deepEqual((await fresh.verify()).issues, []);
+
+            await small.release('/crash.bin', fd);
+        });
+
+    });
+
+    describe('block size', () => {
+
+        it('stores the block size in the header and reads it back with any configuration', async () => {
+            const writer = new CryptFS({baseDir, encryptionKey: KEY, blockSize: 16});
+            await writer.init();
+
+            const payload = Buffer.from('spans several sixteen byte blocks on disk');
+            const fd = await writer.create('/bs.txt', 0o644);
+            await writer.write('/bs.txt', fd, payload, 0);
+            await writer.release('/bs.txt', fd);
+
+            const fsMod = await import('node:fs/promises');
+            const [entry] = await listEncrypted(baseDir);
+            const raw = await fsMod.readFile(join(baseDir, entry!));
+            assert.equal(raw.readUInt32BE(16), 16);
+
+            // The default instance (64 KiB blocks) reads and extends it.
+            const fd2 = await fs.open('/bs.txt', constants.O_RDWR);
+            assert.deepEqual(await fs.read('/bs.txt', fd2, 1024, 0), payload);
+            await fs.write('/bs.txt', fd2, Buffer.from('!'), payload.length);
+            await fs.release('/bs.txt', fd2);
+
+            const fd3 = await writer.open('/bs.txt', constants.O_RDONLY);
+            assert.equal((await writer.read('/bs.txt', fd3, 1024, 0)).toString(), `${payload.toString()}!`);
+            await writer.release('/bs.txt', fd3);
+        });
+
+        it('defaults to DEFAULT_BLOCK_SIZE', async () => {
+            const plain = new CryptFS({baseDir, encryptionKey: KEY});
+            await plain.init();
+
+            const fd = await plain.create('/default.txt', 0o644);
+            await plain.release('/default.txt', fd);
+
+            const fsMod = await import('node:fs/promises');
+            const [entry] = await listEncrypted(baseDir);
+            const raw = await fsMod.readFile(join(baseDir, entry!));
+            assert.equal(raw.readUInt32BE(16), CryptFS.DEFAULT_BLOCK_SIZE);
+        });
+
+        it('rejects an invalid block size', () => {
+            assert.throws(() => new CryptFS({baseDir, encryptionKey: KEY, blockSize: 0}), /Invalid CryptFS block size/u);
+        });
+
+        it('reads legacy files with legacyBlockSize and upgrades them to the configured block size', async () => {
+            const legacy = new CryptFS({baseDir, encryptionKey: KEY, blockSize: 32, legacyBlockSize: 10});
+            await legacy.init();
+
+            const fd = await legacy.create('/legacy.bin', 0o644);
+            await legacy.release('/legacy.bin', fd);
+
+            const plain = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJ');
+            const fsMod = await import('node:fs/promises');
+            const [entry] = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entry!);
+            await fsMod.writeFile(encryptedPath, buildV2File(plain, 10));
+
+            const fd2 = await legacy.open('/legacy.bin', constants.O_RDONLY);
+            assert.deepEqual(await legacy.read('/legacy.bin', fd2, 1024, 0), plain);
+            await legacy.release('/legacy.bin', fd2);
+
+            assert.equal(await legacy.upgradeFile('/legacy.bin'), true);
+
+            const raw = await fsMod.readFile(encryptedPath);
+            assert.equal(raw.readUInt32BE(16), 32);
+
+            const fd3 = await fs.open('/legacy.bin', constants.O_RDONLY);
+            assert.deepEqual(await fs.read('/legacy.bin', fd3, 1024, 0), plain);
+            await fs.release('/legacy.bin', fd3);
+        });
+
+    });
+
+    describe('name encryption', () => {
+
+        it('encrypts the same name differently in different directories', async () => {
+            await fs.mkdir('/a', 0o755);
+            await fs.mkdir('/b', 0o755);
+
+            for (const dir of ['/a', '/b']) {
+                // eslint-disable-next-line no-await-in-loop
+                const fd = await fs.create(`${dir}/same.txt`, 0o644);
+                // eslint-disable-next-line no-await-in-loop
+                await fs.release(`${dir}/same.txt`, fd);
+            }
+
+            const dirs = await listEncrypted(baseDir);
+            const [inA] = await listEncrypted(join(baseDir, dirs[0]!));
+            const [inB] = await listEncrypted(join(baseDir, dirs[1]!));
+
+            assert.notEqual(inA, inB);
+            assert.deepEqual(await fs.readdir('/a'), ['same.txt']);
+            assert.deepEqual(await fs.readdir('/b'), ['same.txt']);
+        });
+
+        it('keeps names decodable after moving a directory', async () => {
+            await fs.mkdir('/from', 0o755);
+            await fs.mkdir('/to', 0o755);
+            await fs.mkdir('/from/inner', 0o755);
+            const fd = await fs.create('/from/inner/file.txt', 0o644);
+            await fs.release('/from/inner/file.txt', fd);
+
+            await fs.rename('/from/inner', '/to/inner');
+
+            assert.deepEqual(await fs.readdir('/to/inner'), ['file.txt']);
+            assert.deepEqual(await fs.readdir('/from'), []);
+        });
+
+        it('renames a directory onto an empty directory', async () => {
+            await fs.mkdir('/src', 0o755);
+            await fs.mkdir('/dst', 0o755);
+            const fd = await fs.create('/src/f.txt', 0o644);
+            await fs.release('/src/f.txt', fd);
+
+            await fs.rename('/src', '/dst');
+
+            assert.deepEqual(await fs.readdir('/dst'), ['f.txt']);
+            assert.deepEqual(await fs.readdir('/'), ['dst']);
+        });
+
+        it('rmdir removes a directory that only holds its IV file', async () => {
+            await fs.mkdir('/gone', 0o755);
+            await fs.rmdir('/gone');
+
+            assert.deepEqual(await listEncrypted(baseDir), []);
+        });
+
+        it('applies a mkdir mode without owner write access', async () => {
+            await fs.mkdir('/ro', 0o555);
+
+            const st = await fs.getattr('/ro');
+            // eslint-disable-next-line no-bitwise
+            assert.equal(st.mode & 0o777, 0o555);
+            assert.deepEqual(await fs.readdir('/ro'), []);
+        });
+
+        it('encrypts equal symlink targets differently', async () => {
+            await fs.symlink('/same/target', '/l1');
+            await fs.symlink('/same/target', '/l2');
+
+            const fsMod = await import('node:fs/promises');
+            const targets = await Promise.all((await listEncrypted(baseDir)).map(
+                async(fn) => (await fsMod.readlink(join(baseDir, fn))).toString()
+            ));
+
+            assert.notEqual(targets[0], targets[1]);
+            assert.equal(await fs.readlink('/l1'), '/same/target');
+        });
+
+        it('reads a legacy storage and upgrades its names and symlink targets', async () => {
+            const legacyDir = await mkdtemp(join(tmpdir(), 'cryptfs-legacy-'));
+
+            try {
+                // Legacy name encoding: AES-256-GCM with an all-zero IV.
+                const legacyName = (name: string): string => {
+                    const cipher = crypto.createCipheriv('aes-256-gcm', KEY, Buffer.alloc(12));
+                    const ct = Buffer.concat([cipher.update(name, 'utf8'), cipher.final()]);
+                    return Buffer.concat([cipher.getAuthTag(), ct]).toString('base64url');
+                };
+
+                const fsMod = await import('node:fs/promises');
+                await fsMod.mkdir(join(legacyDir, legacyName('docs')));
+                await fsMod.writeFile(join(legacyDir, legacyName('docs'), legacyName('a.txt')), buildV2File(Buffer.from('A')));
+                await fsMod.symlink(legacyName('/docs/a.txt'), join(legacyDir, legacyName('link')));
+
+                const legacy = new CryptFS({baseDir: legacyDir, encryptionKey: KEY, blockSize: BLOCK_SIZE, metadataPrivacy: true});
+                await legacy.init();
+
+                assert.deepEqual((await legacy.readdir('/')).sort(), ['docs', 'link']);
+                assert.equal(await legacy.readlink('/link'), '/docs/a.txt');
+
+                // The record is bound to the legacy name and sealed again with the new one.
+                await legacy.setattr('/docs/a.txt', {mode: 0o604});
+
+                const upgraded = await legacy.upgrade();
+                assert.deepEqual(upgraded.sort(), ['/', '/docs', '/docs/a.txt', '/link']);
+                assert.deepEqual(await legacy.upgrade(), []);
+
+                assert.ok((await fsMod.readdir(legacyDir)).includes(CryptFS.DIRIV_FILENAME));
+                assert.ok(!(await fsMod.readdir(legacyDir)).includes(legacyName('docs')));
+
+                const fresh = new CryptFS({baseDir: legacyDir, encryptionKey: KEY, blockSize: BLOCK_SIZE, metadataPrivacy: true});
+                await fresh.init();
+                assert.deepEqual(await fresh.readdir('/docs'), ['a.txt']);
+                assert.equal((await fresh.getattr('/docs/a.txt')).mode & 0o7777, 0o604);
+                assert.equal(await fresh.readlink('/link'), '/docs/a.txt');
+
+                const fd = await fresh.open('/docs/a.txt', constants.O_RDONLY);
+                assert.equal((await fresh.read('/docs/a.txt', fd, 10, 0)).toString(), 'A');
+                await fresh.release('/docs/a.txt', fd);
+            } finally {
+                await rm(legacyDir, {recursive: true, force: true});
+            }
+        });
+
+    });
+
+    describe('long names', () => {
+
+        const LONG = `${'long-file-name-'.repeat(16)}.txt`;
+
+        it('stores names too long for the backing filesystem as hash + sidecar', async () => {
+            assert.ok(LONG.length > 200 && LONG.length <= 255);
+
+            const fd = await fs.create(`/${LONG}`, 0o644);
+            await fs.write(`/${LONG}`, fd, Buffer.from('long'), 0);
+            await fs.release(`/${LONG}`, fd);
+
+            const onDisk = await listEncrypted(baseDir);
+            assert.equal(onDisk.length, 2);
+            assert.ok(onDisk.every((fn) => fn.length <= 255 && fn.startsWith('njsfscrypt.longname.')));
+            assert.ok(onDisk.some((fn) => fn.endsWith('.name')));
+
+            assert.deepEqual(await fs.readdir('/'), [LONG]);
+            assert.equal((await fs.getattr(`/${LONG}`)).size, 4);
+        });
+
+        it('renames, links and unlinks long names together with their sidecars', async () => {
+            const fd = await fs.create('/short.txt', 0o644);
+            await fs.release('/short.txt', fd);
+
+            await fs.rename('/short.txt', `/${LONG}`);
+            assert.deepEqual(await fs.readdir('/'), [LONG]);
+
+            await fs.link(`/${LONG}`, `/${LONG}.2`);
+            assert.deepEqual((await fs.readdir('/')).sort(), [LONG, `${LONG}.2`]);
+
+            await fs.rename(`/${LONG}`, '/back.txt');
+            assert.deepEqual((await fs.readdir('/')).sort(), ['back.txt', `${LONG}.2`]);
+
+            await fs.unlink(`/${LONG}.2`);
+            assert.deepEqual(await fs.readdir('/'), ['back.txt']);
+            assert.equal((await listEncrypted(baseDir)).length, 1, 'no sidecar is left behind');
+        });
+
+        it('leaves room for the metadata and temporary file suffixes at the hashing threshold', async () => {
+            const newKey = CryptKey.hexStrToBuffer('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+            const pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, metadataPrivacy: true});
+            await pfs.init();
+
+            const names: string[] = [];
+
+            for (let length = 150; length <= 200; length++) {
+                names.push('a'.repeat(length));
+            }
+
+            for (const name of names) {
+                // eslint-disable-next-line no-await-in-loop
+                await pfs.release(`/${name}`, await pfs.create(`/${name}`, 0o644));
+            }
+
+            const onDisk = await listEncrypted(baseDir);
+            assert.ok(onDisk.some((fn) => fn.startsWith('njsfscrypt.longname.')));
+            assert.ok(onDisk.every((fn) => fn.length <= 255));
+            assert.ok(onDisk.filter((fn) => !fn.endsWith('.meta')).every((fn) => fn.length + '.njsfscrypt-upgrade'.length <= 255));
+
+            assert.equal(await pfs.rotateKey(newKey), names.length);
+
+            const rotated = new CryptFS({baseDir: baseDir, encryptionKey: newKey, metadataPrivacy: true});
+            await rotated.init();
+            assert.deepEqual((await rotated.readdir('/')).sort(), names.sort());
+        });
+
+        it('supports long directory names and symlink names', async () => {
+            await fs.mkdir(`/${LONG}`, 0o755);
+            const fd = await fs.create(`/${LONG}/inside.txt`, 0o644);
+            await fs.release(`/${LONG}/inside.txt`, fd);
+            await fs.symlink('/target', `/${LONG}/${LONG}`);
+
+            assert.deepEqual((await fs.readdir(`/${LONG}`)).sort(), ['inside.txt', LONG]);
+            assert.equal(await fs.readlink(`/${LONG}/${LONG}`), '/target');
+
+            await fs.unlink(`/${LONG}/${LONG}`);
+            await fs.unlink(`/${LONG}/inside.txt`);
+            await fs.rmdir(`/${LONG}`);
+
+            assert.deepEqual(await listEncrypted(baseDir), []);
+        });
+
+    });
+
+    describe('undecodable entries', () => {
+
+        beforeEach(async() => {
+            const fd = await fs.create('/ok.txt', 0o644);
+            await fs.release('/ok.txt', fd);
+            await writeFile(join(baseDir, 'foreign-a'), 'a');
+            await writeFile(join(baseDir, 'foreign-b'), 'b');
+        });
+
+        it('hides them by default and logs a warning naming the on-disk entry', async() => {
+            const warnings: string[] = [];
+            fs.setLogger((level, str) => {
+                if (level === VirtualFSLoggerLevel.warn) {
+                    warnings.push(str);
+                }
+            });
+
+            assert.deepEqual(await fs.readdir('/'), ['ok.txt']);
+            assert.equal(warnings.length, 2);
+            assert.ok(warnings.some((w) => w.includes(join(baseDir, 'foreign-a'))));
+        });
+
+        it('escapes them so they can be stat\'ed, renamed and removed', async() => {
+            const efs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, undecodableNames: 'escape'});
+            await efs.init();
+
+            assert.deepEqual(
+                (await efs.readdir('/')).sort(),
+                ['njsfscrypt.raw.foreign-a', 'njsfscrypt.raw.foreign-b', 'ok.txt']
+            );
+            const st = await efs.getattr('/njsfscrypt.raw.foreign-a');
+            assert.equal(st.mode & constants.S_IFMT, constants.S_IFREG);
+
+            await efs.unlink('/njsfscrypt.raw.foreign-a');
+            await efs.rename('/njsfscrypt.raw.foreign-b', '/adopted');
+            assert.deepEqual((await efs.readdir('/')).sort(), ['adopted', 'ok.txt']);
+        });
+
+        it('does not create entries under the escape prefix', async() => {
+            const efs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, undecodableNames: 'escape'});
+            await efs.init();
+
+            await assert.rejects(
+                efs.create('/njsfscrypt.raw.secret', 0o644),
+                (e: unknown) => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.EPERM
+            );
+            await assert.rejects(efs.getattr('/njsfscrypt.raw..'), (e: unknown) => e instanceof ErrnoFuseCb);
+        });
+
+        it('does not reach internal files or decodable entries through the escape prefix', async() => {
+            const efs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, undecodableNames: 'escape'});
+            await efs.init();
+
+            const [okName] = (await listEncrypted(baseDir)).filter((fn) => !fn.startsWith('foreign-'));
+            const internal = [
+                'njsfscrypt.conf',
+                'njsfscrypt.rotate',
+                'foreign-a.meta',
+                'njsfscrypt.longname.abc.name',
+                'foreign-a.njsfscrypt-upgrade'
+            ];
+
+            for (const fn of internal) {
+                // eslint-disable-next-line no-await-in-loop
+                await writeFile(join(baseDir, fn), 'internal');
+            }
+
+            const isEnoent = (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.ENOENT;
+
+            for (const fn of [...internal, CryptFS.DIRIV_FILENAME, okName!]) {
+                // eslint-disable-next-line no-await-in-loop
+                await assert.rejects(efs.unlink(`/njsfscrypt.raw.${fn}`), isEnoent);
+                // eslint-disable-next-line no-await-in-loop
+                await assert.rejects(efs.getattr(`/njsfscrypt.raw.${fn}`), isEnoent);
+            }
+
+            const onDisk = await readdir(baseDir);
+            assert.ok([...internal, CryptFS.DIRIV_FILENAME, okName!].every((fn) => onDisk.includes(fn)));
+            assert.deepEqual(
+                (await efs.readdir('/')).sort(),
+                ['njsfscrypt.raw.foreign-a', 'njsfscrypt.raw.foreign-b', 'ok.txt']
+            );
+        });
+
+        it('fails the listing in the fail policy', async() => {
+            const ffs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, undecodableNames: 'fail'});
+            await ffs.init();
+
+            await assert.rejects(ffs.readdir('/'), isEio);
+        });
+
+    });
+
+    describe('metadata privacy', () => {
+
+        let pfs: CryptFS;
+
+        beforeEach(async() => {
+            pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, metadataPrivacy: true});
+            await pfs.init();
+        });
+
+        it('keeps mode and timestamps in the record and neutral values on disk', async() => {
+            await pfs.mkdir('/dir', 0o750);
+            const fd = await pfs.create('/dir/file.txt', 0o640);
+            await pfs.write('/dir/file.txt', fd, Buffer.from('hello'), 0);
+            await pfs.release('/dir/file.txt', fd);
+
+            const mtime = new Date('2020-01-02T03:04:05Z');
+            await pfs.setattr('/dir/file.txt', {mode: 0o604, atime: mtime, mtime: mtime});
+
+            const st = await pfs.getattr('/dir/file.txt');
+            assert.equal(st.mode & 0o7777, 0o604);
+            assert.equal(st.mode & constants.S_IFMT, constants.S_IFREG);
+            assert.equal(st.mtime.getTime(), mtime.getTime());
+            assert.equal(st.size, 5);
+
+            const dirSt = await pfs.getattr('/dir');
+            assert.equal(dirSt.mode & 0o7777, 0o750);
+            assert.equal(dirSt.size, 4096);
+            assert.ok(dirSt.mtime.getTime() > mtime.getTime());
+
+            const [encDir] = (await listEncrypted(baseDir)).filter((fn) => !fn.endsWith('.meta'));
+            const [encFile] = (await readdir(join(baseDir, encDir))).filter(
+                (fn) => fn !== CryptFS.DIRIV_FILENAME && !fn.endsWith('.meta')
+            );
+            const rawDir = await lstat(join(baseDir, encDir));
+            const rawFile = await lstat(join(baseDir, encDir, encFile));
+
+            assert.equal(rawDir.mode & 0o7777, 0o700);
+            assert.equal(rawDir.mtimeMs, 0);
+            assert.equal(rawFile.mode & 0o7777, 0o600);
+            assert.equal(rawFile.mtimeMs, 0);
+        });
+
+        it('moves and removes records together with their entries', async() => {
+            const fd = await pfs.create('/a.txt', 0o640);
+            await pfs.release('/a.txt', fd);
+
+            await pfs.rename('/a.txt', '/b.txt');
+            assert.equal((await pfs.getattr('/b.txt')).mode & 0o7777, 0o640);
+            assert.deepEqual(await pfs.readdir('/'), ['b.txt']);
+
+            await pfs.unlink('/b.txt');
+            assert.deepEqual(await listEncrypted(baseDir), []);
+        });
+
+        it('uses the inode for entries created without metadata privacy', async() => {
+            const fd = await fs.create('/plain.txt', 0o640);
+            await fs.release('/plain.txt', fd);
+
+            assert.equal((await pfs.getattr('/plain.txt')).mode & 0o7777, 0o640);
+
+            await pfs.setattr('/plain.txt', {mode: 0o600});
+            assert.equal((await pfs.getattr('/plain.txt')).mode & 0o7777, 0o600);
+            assert.equal((await fs.getattr('/plain.txt')).mtime.getTime(), 0);
+        });
+
+        it('rejects a tampered record', async() => {
+            const fd = await pfs.create('/x.txt', 0o640);
+            await pfs.release('/x.txt', fd);
+
+            const [record] = (await listEncrypted(baseDir)).filter((fn) => fn.endsWith('.meta'));
+            const raw = await readFile(join(baseDir, record));
+            raw[15] ^= 0x01;
+            await writeFile(join(baseDir, record), raw);
+
+            await assert.rejects(pfs.getattr('/x.txt'), isEio);
+        });
+
+        it('binds records to their entry, also across renames and key rotation', async() => {
+            const records = async(): Promise<string[]> => (await listEncrypted(baseDir)).filter((fn) => fn.endsWith('.meta'));
+
+            await pfs.release('/a.txt', await pfs.create('/a.txt', 0o600));
+            const [recordA] = await records();
+            await pfs.release('/suid', await pfs.create('/suid', 0o4755));
+            const [recordSuid] = (await records()).filter((fn) => fn !== recordA);
+
+            // A record copied onto another entry does not authenticate.
+            const rawA = await readFile(join(baseDir, recordA!));
+            await writeFile(join(baseDir, recordA!), await readFile(join(baseDir, recordSuid!)));
+            await assert.rejects(pfs.getattr('/a.txt'), isEio);
+            await writeFile(join(baseDir, recordA!), rawA);
+
+            await pfs.mkdir('/sub', 0o700);
+            await pfs.rename('/a.txt', '/sub/a.txt');
+            assert.equal((await pfs.getattr('/sub/a.txt')).mode & 0o7777, 0o600);
+
+            const newKey = crypto.randomBytes(32);
+            await pfs.rotateKey(newKey);
+
+            const rotated = new CryptFS({baseDir: baseDir, encryptionKey: newKey, metadataPrivacy: true});
+            await rotated.init();
+            assert.equal((await rotated.getattr('/sub/a.txt')).mode & 0o7777, 0o600);
+            assert.equal((await rotated.getattr('/suid')).mode & 0o7777, 0o4755);
+            assert.deepEqual((await rotated.verify()).issues, []);
+        });
+
+    });
+
+    describe('padding', () => {
+
+        const SMALL = 16;
+
+        /**
+         * Unpadded on-disk size of a file with 16-byte blocks
+         * @param {number} size
+         * @return {number}
+         */
+        const unpadded = (size: number): number => 132 + (Math.ceil(size / SMALL) * 28) + size;
+
+        /**
+         * Write a file through a CryptFS and return its on-disk length
+         * @param {CryptFS} cfs
+         * @param {number} size
+         * @return {number}
+         */
+        const writeSized = async(cfs: CryptFS, size: number): Promise<number> => {
+            const fd = await cfs.create('/f.bin', 0o644);
+            await cfs.write('/f.bin', fd, Buffer.alloc(size, 0x61), 0);
+            await cfs.release('/f.bin', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            return (await lstat(join(baseDir, entry))).size;
+        };
+
+        it('pads to whole blocks', async() => {
+            const pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, padding: 'block'});
+            await pfs.init();
+
+            assert.equal(await writeSized(pfs, 20), unpadded(32));
+            assert.equal((await pfs.getattr('/f.bin')).size, 20);
+
+            const fd = await pfs.open('/f.bin', constants.O_RDONLY);
+            assert.deepEqual(await pfs.read('/f.bin', fd, 100, 0), Buffer.alloc(20, 0x61));
+            await pfs.release('/f.bin', fd);
+        });
+
+        it('pads to a power of two and keeps it across resizes', async() => {
+            const pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, padding: 'pow2'});
+            await pfs.init();
+
+            assert.equal(await writeSized(pfs, 100), 512);
+
+            const [entry] = await listEncrypted(baseDir);
+            const raw = await readFile(join(baseDir, entry));
+            assert.equal(raw.readUInt32BE(20), 2, 'policy is stored in the header flags');
+
+            await pfs.truncate('/f.bin', 10);
+            assert.equal((await lstat(join(baseDir, entry))).size, 256);
+            await pfs.truncate('/f.bin', 300);
+            assert.equal((await lstat(join(baseDir, entry))).size, 1024);
+
+            const fd = await pfs.open('/f.bin', constants.O_RDONLY);
+            const back = await pfs.read('/f.bin', fd, 400, 0);
+            await pfs.release('/f.bin', fd);
+            assert.deepEqual(back, Buffer.concat([Buffer.alloc(10, 0x61), Buffer.alloc(290)]));
+        });
+
+        it('adds a random amount that is stable for a given size', async() => {
+            const pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, padding: 'random'});
+            await pfs.init();
+
+            const first = await writeSized(pfs, 40);
+            assert.ok(first >= unpadded(40) && first <= unpadded(40) + SMALL);
+
+            const fd = await pfs.open('/f.bin', constants.O_RDWR);
+            await pfs.write('/f.bin', fd, Buffer.alloc(40, 0x62), 0);
+            await pfs.release('/f.bin', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            assert.equal((await lstat(join(baseDir, entry))).size, first);
+        });
+
+        it('keeps the policy of a file when mounted without padding', async() => {
+            const pfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, padding: 'pow2'});
+            await pfs.init();
+            await writeSized(pfs, 100);
+
+            const fd = await fs.open('/f.bin', constants.O_RDWR);
+            await fs.write('/f.bin', fd, Buffer.alloc(200, 0x63), 100);
+            await fs.release('/f.bin', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            assert.equal((await lstat(join(baseDir, entry))).size, 1024);
+            assert.equal((await fs.getattr('/f.bin')).size, 300);
+        });
+
+        it('rejects an unknown padding policy', () => {
+            assert.throws(() => new CryptFS({baseDir: baseDir, encryptionKey: KEY, padding: 'huge' as any}));
+        });
+
+    });
+
+    describe('compression', () => {
+
+        const SMALL = 1024;
+
+        /**
+         * Plaintext that compresses well, different in every block
+         * @param {number} size
+         * @return {Buffer}
+         */
+        const text = (size: number): Buffer => {
+            const line = Buffer.from(Array.from({length: Math.ceil(size / 16)}, (_v, i) => `line ${String(i).padStart(10, '0')}\n`).join(''));
+            return line.subarray(0, size);
+        };
+
+        /**
+         * Read a whole file
+         * @param {CryptFS} cfs
+         * @param {string} path
+         * @return {Buffer}
+         */
+        const readAll = async(cfs: CryptFS, path: string): Promise<Buffer> => {
+            const fd = await cfs.open(path, constants.O_RDONLY);
+            const content = await cfs.read(path, fd, 1024 * 1024, 0);
+            await cfs.release(path, fd);
+
+            return content;
+        };
+
+        it('stores compressed blocks and reads any range', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, compression: 'deflate'});
+            await cfs.init();
+
+            const plain = text(10 * SMALL + 100);
+            const fd = await cfs.create('/log.txt', 0o644);
+            await cfs.write('/log.txt', fd, plain, 0);
+            assert.deepEqual(await cfs.read('/log.txt', fd, 3000, 2500), plain.subarray(2500, 5500));
+            await cfs.release('/log.txt', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            const raw = await readFile(join(baseDir, entry));
+            assert.equal(raw.readUInt32BE(20), 1 << 4, 'codec is stored in the header flags');
+            assert.ok(raw.length < plain.length / 2, `${raw.length} bytes on disk`);
+
+            assert.equal((await cfs.getattr('/log.txt')).size, plain.length);
+            assert.deepEqual(await readAll(fs, '/log.txt'), plain, 'readable without the option');
+
+            const rfd = await fs.open('/log.txt', constants.O_RDONLY);
+            assert.deepEqual(await fs.read('/log.txt', rfd, 10, 7 * SMALL - 5), plain.subarray(7 * SMALL - 5, 7 * SMALL + 5));
+            await fs.release('/log.txt', rfd);
+        });
+
+        it('rewrites, extends and truncates like an uncompressed file', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, compression: 'brotli'});
+            await cfs.init();
+
+            const expected = Buffer.concat([text(3 * SMALL), crypto.randomBytes(2 * SMALL)]);
+            const fd = await cfs.create('/f.bin', 0o644);
+            await cfs.write('/f.bin', fd, expected, 0);
+
+            // Incompressible data grows a compressed block, so it moves.
+            const noise = crypto.randomBytes(1500);
+            await cfs.write('/f.bin', fd, noise, 500);
+            noise.copy(expected, 500);
+
+            await cfs.write('/f.bin', fd, Buffer.from('tail'), 7 * SMALL);
+            await cfs.ftruncate('/f.bin', fd, 6 * SMALL + 10);
+            await cfs.release('/f.bin', fd);
+
+            const grown = Buffer.concat([expected, Buffer.alloc(SMALL + 10)]);
+            assert.deepEqual(await readAll(cfs, '/f.bin'), grown);
+
+            await cfs.truncate('/f.bin', 2500);
+            assert.deepEqual(await readAll(cfs, '/f.bin'), expected.subarray(0, 2500));
+            await cfs.truncate('/f.bin', 0);
+            assert.deepEqual(await readAll(cfs, '/f.bin'), Buffer.alloc(0));
+
+            assert.deepEqual((await cfs.verify()).issues, []);
+        });
+
+        it('pads the compressed size and writes streams', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, compression: 'deflate', padding: 'pow2'});
+            await cfs.init();
+
+            const plain = text(20 * SMALL);
+            await pipeline(Readable.from([plain.subarray(0, 7000), plain.subarray(7000)]), cfs.createWriteStream('/s.txt'));
+
+            const [entry] = await listEncrypted(baseDir);
+            const {size} = await lstat(join(baseDir, entry));
+            assert.ok(size < plain.length && (size & (size - 1)) === 0, `${size} bytes on disk`);
+
+            const chunks: Buffer[] = [];
+            for await (const chunk of cfs.createReadStream('/s.txt', {start: 100})) {
+                chunks.push(chunk as Buffer);
+            }
+            assert.deepEqual(Buffer.concat(chunks), plain.subarray(100));
+        });
+
+        it('keeps the codec through an upgrade and fails on a tampered table', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, compression: 'deflate'});
+            await cfs.init();
+            await cfs.release('/legacy.bin', await cfs.create('/legacy.bin', 0o644));
+
+            const [entry] = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entry);
+            await writeFile(encryptedPath, buildV2File(text(3 * BLOCK_SIZE)));
+
+            assert.equal(await cfs.upgradeFile('/legacy.bin'), true);
+
+            const raw = await readFile(encryptedPath);
+            assert.ok(raw.length < BLOCK_SIZE, `${raw.length} bytes on disk`);
+            assert.deepEqual(await readAll(cfs, '/legacy.bin'), text(3 * BLOCK_SIZE));
+
+            raw[raw.length - 20] ^= 1;
+            await writeFile(encryptedPath, raw);
+            await assert.rejects(readAll(cfs, '/legacy.bin'), isEio);
+            assert.equal((await cfs.verify()).issues[0]?.kind, 'corrupt');
+        });
+
+        it('rejects an unknown codec', () => {
+            assert.throws(() => new CryptFS({baseDir: baseDir, encryptionKey: KEY, compression: 'zstd' as any}));
+        });
+
+    });
+
+    describe('sparse files', () => {
+
+        const SMALL = 1024;
+
+        /**
+         * On-disk bytes of block `index` in the only file of the storage
+         * @param {number} index
+         * @return {Buffer}
+         */
+        const rawBlock = async(index: number): Promise<Buffer> => {
+            const [entry] = await listEncrypted(baseDir);
+            const raw = await readFile(join(baseDir, entry));
+            const start = 132 + (index * (SMALL + 28));
+
+            return raw.subarray(start, start + SMALL + 28);
+        };
+
+        /**
+         * Whether a buffer is all zero
+         * @param {Buffer} buf
+         * @return {boolean}
+         */
+        const isZero = (buf: Buffer): boolean => buf.length > 0 && buf.every((b) => b === 0);
+
+        it('leaves the blocks a truncate skips as holes that read as zeros', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: true});
+            await cfs.init();
+
+            const fd = await cfs.create('/disk.img', 0o644);
+            await cfs.write('/disk.img', fd, Buffer.from('boot'), 0);
+            await cfs.ftruncate('/disk.img', fd, 100 * SMALL);
+            await cfs.release('/disk.img', fd);
+
+            assert.ok(!isZero(await rawBlock(0)));
+            assert.ok(isZero(await rawBlock(1)));
+            assert.ok(isZero(await rawBlock(98)));
+            assert.ok(!isZero(await rawBlock(99)), 'the last block is always sealed');
+
+            assert.equal((await cfs.getattr('/disk.img')).size, 100 * SMALL);
+
+            const rfd = await cfs.open('/disk.img', constants.O_RDONLY);
+            const content = await cfs.read('/disk.img', rfd, 100 * SMALL, 0);
+            await cfs.release('/disk.img', rfd);
+
+            assert.deepEqual(content, Buffer.concat([Buffer.from('boot'), Buffer.alloc((100 * SMALL) - 4)]));
+            assert.deepEqual((await cfs.verify()).issues, []);
+        });
+
+        it('writes only the touched blocks of a far write and of a write into a hole', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: true, padding: 'random'});
+            await cfs.init();
+
+            const fd = await cfs.create('/db.bin', 0o644);
+            await cfs.write('/db.bin', fd, Buffer.from('head'), 0);
+            await cfs.release('/db.bin', fd);
+
+            const wfd = await cfs.open('/db.bin', constants.O_RDWR);
+            await cfs.write('/db.bin', wfd, Buffer.from('tail'), (50 * SMALL) + 10);
+            await cfs.write('/db.bin', wfd, Buffer.from('middle'), (20 * SMALL) + 1020);
+            await cfs.release('/db.bin', wfd);
+
+            assert.ok(isZero(await rawBlock(10)));
+            assert.ok(!isZero(await rawBlock(20)));
+            assert.ok(!isZero(await rawBlock(21)));
+            assert.ok(isZero(await rawBlock(22)));
+
+            const expected = Buffer.alloc((50 * SMALL) + 14);
+            expected.write('head', 0);
+            expected.write('middle', (20 * SMALL) + 1020);
+            expected.write('tail', (50 * SMALL) + 10);
+
+            const reopened = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+            await reopened.init();
+            const rfd = await reopened.open('/db.bin', constants.O_RDONLY);
+            assert.deepEqual(await reopened.read('/db.bin', rfd, 100 * SMALL, 0), expected);
+            await reopened.release('/db.bin', rfd);
+        });
+
+        it('fills the gap of a write past the end of an empty file unless sparse', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL});
+            await cfs.init();
+
+            const fd = await cfs.create('/far.bin', 0o644);
+            await cfs.write('/far.bin', fd, Buffer.from('x'), 5 * SMALL);
+            await cfs.ftruncate('/far.bin', fd, 10 * SMALL);
+            await cfs.release('/far.bin', fd);
+
+            for (let block = 0; block < 10; block++) {
+                // eslint-disable-next-line no-await-in-loop
+                assert.ok(!isZero(await rawBlock(block)), `block ${block} is sealed`);
+            }
+
+            const expected = Buffer.alloc(10 * SMALL);
+            expected.write('x', 5 * SMALL);
+
+            const rfd = await cfs.open('/far.bin', constants.O_RDONLY);
+            assert.deepEqual(await cfs.read('/far.bin', rfd, 100 * SMALL, 0), expected);
+            await cfs.release('/far.bin', rfd);
+        });
+
+        it('only reads zeroed blocks as holes in sparse files, and never the last one', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: true});
+            await cfs.init();
+
+            const fd = await cfs.create('/dense.bin', 0o644);
+            await cfs.write('/dense.bin', fd, crypto.randomBytes(3 * SMALL), 0);
+            await cfs.release('/dense.bin', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entry);
+            const raw = await readFile(encryptedPath);
+            assert.equal(raw.readUInt32BE(20) & 0x100, 0, 'a dense file has no sparse flag');
+
+            raw.fill(0, 132, 132 + SMALL + 28);
+            await writeFile(encryptedPath, raw);
+
+            const rfd = await cfs.open('/dense.bin', constants.O_RDONLY);
+            await assert.rejects(cfs.read('/dense.bin', rfd, SMALL, 0), /unsupported state|auth/iu);
+            await cfs.release('/dense.bin', rfd);
+            await cfs.unlink('/dense.bin');
+
+            await cfs.release('/sparse.bin', await cfs.create('/sparse.bin', 0o644));
+            await cfs.truncate('/sparse.bin', 4 * SMALL);
+
+            const [sparseEntry] = await listEncrypted(baseDir);
+            const sparsePath = join(baseDir, sparseEntry);
+            const sparseRaw = await readFile(sparsePath);
+            assert.equal(sparseRaw.readUInt32BE(20) & 0x100, 0x100);
+
+            sparseRaw.fill(0, 132 + (3 * (SMALL + 28)));
+            await writeFile(sparsePath, sparseRaw);
+
+            const sfd = await cfs.open('/sparse.bin', constants.O_RDONLY);
+            assert.deepEqual(await cfs.read('/sparse.bin', sfd, SMALL, 0), Buffer.alloc(SMALL));
+            await assert.rejects(cfs.read('/sparse.bin', sfd, SMALL, 3 * SMALL), /unsupported state|auth/iu);
+            await cfs.release('/sparse.bin', sfd);
+        });
+
+    });
+
+    describe('fallocate', () => {
+
+        const SMALL = 1024;
+        const KEEP_SIZE = 0x01;
+        const PUNCH_HOLE = 0x02;
+        const ZERO_RANGE = 0x10;
+
+        /**
+         * Matches an ErrnoFuseCb with the given FUSE error
+         * @param {number} code
+         * @return {(e: unknown) => boolean}
+         */
+        const isFuseError = (code: number) => (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === code;
+
+        it('grows a file, and keeps its size with KEEP_SIZE', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: true});
+            await cfs.init();
+
+            const fd = await cfs.create('/vm.img', 0o644);
+            await cfs.write('/vm.img', fd, Buffer.from('data'), 0);
+            await cfs.fallocate('/vm.img', fd, KEEP_SIZE, 0, 10 * SMALL);
+            assert.equal((await cfs.read('/vm.img', fd, 20 * SMALL, 0)).length, 4);
+
+            await cfs.fallocate('/vm.img', fd, 0, 2, 10 * SMALL);
+            await cfs.fallocate('/vm.img', fd, 0, 0, 2);
+            await cfs.release('/vm.img', fd);
+
+            assert.equal((await cfs.getattr('/vm.img')).size, (10 * SMALL) + 2);
+
+            const rfd = await cfs.open('/vm.img', constants.O_RDONLY);
+            assert.deepEqual(
+                await cfs.read('/vm.img', rfd, 20 * SMALL, 0),
+                Buffer.concat([Buffer.from('data'), Buffer.alloc((10 * SMALL) - 2)])
+            );
+            await cfs.release('/vm.img', rfd);
+        });
+
+        it('punches whole blocks to holes and zeroes the partial ones', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: true});
+            await cfs.init();
+
+            const content = crypto.randomBytes(8 * SMALL);
+            const fd = await cfs.create('/db.bin', 0o644);
+            await cfs.write('/db.bin', fd, content, 0);
+            await cfs.release('/db.bin', fd);
+
+            const [entry] = await listEncrypted(baseDir);
+            const encryptedPath = join(baseDir, entry);
+            assert.equal((await readFile(encryptedPath)).readUInt32BE(20) & 0x100, 0);
+
+            const wfd = await cfs.open('/db.bin', constants.O_RDWR);
+            await cfs.fallocate('/db.bin', wfd, PUNCH_HOLE | KEEP_SIZE, SMALL + 100, (4 * SMALL) - 100);
+            await cfs.fallocate('/db.bin', wfd, PUNCH_HOLE | KEEP_SIZE, 7 * SMALL, 4 * SMALL);
+            await cfs.release('/db.bin', wfd);
+
+            const raw = await readFile(encryptedPath);
+            const block = (index: number): Buffer => raw.subarray(132 + (index * (SMALL + 28)), 132 + ((index + 1) * (SMALL + 28)));
+            assert.equal(raw.readUInt32BE(20) & 0x100, 0x100);
+            assert.ok(block(1).some((b) => b !== 0));
+            assert.ok(block(2).every((b) => b === 0));
+            assert.ok(block(4).every((b) => b === 0));
+            assert.ok(block(5).some((b) => b !== 0));
+            assert.ok(block(7).some((b) => b !== 0), 'the last block is always sealed');
+
+            const expected = Buffer.from(content);
+            expected.fill(0, SMALL + 100, 5 * SMALL);
+            expected.fill(0, 7 * SMALL);
+
+            const reopened = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+            await reopened.init();
+            assert.equal((await reopened.getattr('/db.bin')).size, 8 * SMALL);
+            const rfd = await reopened.open('/db.bin', constants.O_RDONLY);
+            assert.deepEqual(await reopened.read('/db.bin', rfd, 20 * SMALL, 0), expected);
+            await reopened.release('/db.bin', rfd);
+            assert.deepEqual((await reopened.verify()).issues, []);
+        });
+
+        it('zeroes a range past the end and grows the file unless KEEP_SIZE is given', async() => {
+            const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY, blockSize: SMALL, sparse: false, compression: 'deflate'});
+            await cfs.init();
+
+            const fd = await cfs.create('/log.txt', 0o644);
+            await cfs.write('/log.txt', fd, Buffer.from('0123456789'), 0);
+            await cfs.fallocate('/log.txt', fd, ZERO_RANGE | KEEP_SIZE, 5, 100);
+            assert.deepEqual(await cfs.read('/log.txt', fd, 10 * SMALL, 0), Buffer.from('01234\0\0\0\0\0'));
+
+            await cfs.fallocate('/log.txt', fd, ZERO_RANGE, 2, 3 * SMALL);
+            await cfs.release('/log.txt', fd);
+
+            const rfd = await cfs.open('/log.txt', constants.O_RDONLY);
+            assert.deepEqual(
+                await cfs.read('/log.txt', rfd, 10 * SMALL, 0),
+                Buffer.concat([Buffer.from('01'), Buffer.alloc(3 * SMALL)])
+            );
+            await cfs.release('/log.txt', rfd);
+        });
+
+        it('rejects unsupported modes and invalid ranges', async() => {
+            const fd = await fs.create('/a.txt', 0o644);
+
+            await assert.rejects(fs.fallocate('/a.txt', fd, 0x08, 0, 10), isFuseError(Fuse.EOPNOTSUPP));
+            await assert.rejects(fs.fallocate('/a.txt', fd, PUNCH_HOLE, 0, 10), isFuseError(Fuse.EINVAL));
+            await assert.rejects(fs.fallocate('/a.txt', fd, 0, 0, 0), isFuseError(Fuse.EINVAL));
+            await assert.rejects(fs.fallocate('/a.txt', fd, 0, -1, 10), isFuseError(Fuse.EINVAL));
+            await fs.release('/a.txt', fd);
+        });
+
+    });
+
+    describe('key rotation', () => {
+
+        const NEW_KEY = CryptKey.hexStrToBuffer('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+        const LONG = `${'rotated-name-'.repeat(18)}.txt`;
+
+        /**
+         * Create a small tree with a file, a subdirectory, a symlink and a
+         * long name
+         */
+        const buildTree = async(): Promise<void> => {
+            await fs.mkdir('/dir', 0o755);
+
+            for (const path of ['/a.txt', '/dir/b.txt', `/dir/${LONG}`]) {
+                // eslint-disable-next-line no-await-in-loop
+                const fd = await fs.create(path, 0o644);
+                // eslint-disable-next-line no-await-in-loop
+                await fs.write(path, fd, Buffer.from(`content of ${path}`), 0);
+                // eslint-disable-next-line no-await-in-loop
+                await fs.release(path, fd);
+            }
+
+            await fs.symlink('/dir/b.txt', '/dir/link');
+        };
+
+        /**
+         * Read a whole file
+         * @param {CryptFS} cfs
+         * @param {string} path
+         * @return {string}
+         */
+        const readAll = async(cfs: CryptFS, path: string): Promise<string> => {
+            const fd = await cfs.open(path, constants.O_RDONLY);
+            const buf = await cfs.read(path, fd, 4096, 0);
+            await cfs.release(path, fd);
+
+            return buf.toString();
+        };
+
+        it('re-encrypts contents, names and symlink targets under the new key', async () => {
+            await buildTree();
+
+            assert.equal(await fs.rotateKey(NEW_KEY), 5);
+
+            const rotated = new CryptFS({baseDir: baseDir, encryptionKey: NEW_KEY});
+            await rotated.init();
+
+            assert.deepEqual((await rotated.readdir('/')).sort(), ['a.txt', 'dir']);
+            assert.deepEqual((await rotated.readdir('/dir')).sort(), ['b.txt', 'link', LONG].sort());
+            assert.equal(await readAll(rotated, '/a.txt'), 'content of /a.txt');
+            assert.equal(await readAll(rotated, `/dir/${LONG}`), `content of /dir/${LONG}`);
+            assert.equal(await rotated.readlink('/dir/link'), '/dir/b.txt');
+
+            const old = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+            await old.init();
+            assert.deepEqual(await old.readdir('/'), []);
+            assert.ok(!(await readdir(baseDir)).includes(CryptFS.ROTATION_JOURNAL_FILENAME));
+        });
+
+        it('resumes an interrupted rotation from its journal', async () => {
+            await buildTree();
+
+            const before = await listEncrypted(baseDir);
+            const fd = await fs.create('/broken.txt', 0o644);
+            await fs.release('/broken.txt', fd);
+            const [broken] = (await listEncrypted(baseDir)).filter((fn) => !before.includes(fn));
+            await writeFile(join(baseDir, broken), 'not a CryptFS file');
+
+            await assert.rejects(fs.rotateKey(NEW_KEY));
+
+            const rotated = new CryptFS({baseDir: baseDir, encryptionKey: NEW_KEY});
+            await assert.rejects(rotated.init(), /rotation is in progress/u);
+            await assert.rejects(
+                fs.rotateKey(CryptKey.hexStrToBuffer('ff'.repeat(32))),
+                /started with other keys/u
+            );
+
+            await rm(join(baseDir, broken));
+            await fs.rotateKey(NEW_KEY);
+
+            await rotated.init();
+            assert.deepEqual((await rotated.readdir('/')).sort(), ['a.txt', 'dir']);
+            assert.equal(await readAll(rotated, '/dir/b.txt'), 'content of /dir/b.txt');
+            assert.ok(!(await readdir(baseDir)).includes(CryptFS.ROTATION_JOURNAL_FILENAME));
+        });
+
+    });
+
+
+    describe('v1 migration', () => {
+
+        /**
+         * Create `path` and replace its on-disk body with a v1 file
+         * @param {string} dir on-disk directory of the entry
+         * @param {string} path
+         * @param {Buffer} body
+         */
+        const writeV1 = async(dir: string, path: string, body: Buffer): Promise<void> => {
+            const before = await listEncrypted(dir);
+            const fd = await fs.create(path, 0o644);
+            await fs.release(path, fd);
+            const [created] = (await listEncrypted(dir)).filter((fn) => !before.includes(fn));
+            await writeFile(join(dir, created), body);
+        };
+
+        /**
+         * Read a whole file
+         * @param {string} path
+         * @return {Buffer}
+         */
+        const readAll = async(path: string): Promise<Buffer> => {
+            const fd = await fs.open(path, constants.O_RDONLY);
+            const buf = await fs.read(path, fd, 1024 * 1024, 0);
+            await fs.release(path, fd);
+
+            return buf;
+        };
+
+        it('rewrites v1 files in place as the current format', async () => {
+            // The counter wraps around inside the file.
+            const big = crypto.randomBytes(150000);
+            const nonce = Buffer.concat([Buffer.alloc(15, 0xff), Buffer.from([0xf0])]);
+
+            await fs.mkdir('/dir', 0o755);
+            const [dirName] = await listEncrypted(baseDir);
+            await writeV1(baseDir, '/a.txt', buildV1File(Buffer.from('hello v1')));
+            await writeV1(join(baseDir, dirName), '/dir/big.bin', buildV1File(big, nonce));
+
+            const fd = await fs.create('/current.txt', 0o644);
+            await fs.write('/current.txt', fd, Buffer.from('already current'), 0);
+            await fs.release('/current.txt', fd);
+
+            await assert.rejects(readAll('/a.txt'), isEio);
+
+            const results = await fs.migrateV1();
+
+            assert.deepEqual(
+                results.sort((a, b) => a.path.localeCompare(b.path)),
+                [
+                    {path: '/a.txt', fileSize: 8, status: 'migrated'},
+                    {path: '/dir/big.bin', fileSize: big.length, status: 'migrated'}
+                ]
+            );
+            assert.equal((await readAll('/a.txt')).toString(), 'hello v1');
+            assert.ok((await readAll('/dir/big.bin')).equals(big));
+            assert.equal((await readAll('/current.txt')).toString(), 'already current');
+            assert.deepEqual(await fs.migrateV1(), []);
+        });
+
+        it('keeps a copy of every v1 file in a backup directory', async () => {
+            const backupDir = await mkdtemp(join(tmpdir(), 'cryptfs-v1-backup-'));
+
+            try {
+                const body = buildV1File(Buffer.from('hello v1'));
+                await writeV1(baseDir, '/a.txt', body);
+                const [diskName] = await listEncrypted(baseDir);
+
+                assert.deepEqual(
+                    await fs.migrateV1('/', false, backupDir),
+                    [{path: '/a.txt', fileSize: 8, status: 'migrated', backupPath: join(backupDir, diskName)}]
+                );
+                assert.ok((await readFile(join(backupDir, diskName))).equals(body));
+                assert.equal((await readAll('/a.txt')).toString(), 'hello v1');
+            } finally {
+                await rm(backupDir, {recursive: true, force: true});
+            }
+        });
+
+        it('only reports in a dry run', async () => {
+            const body = buildV1File(Buffer.from('hello v1'));
+            await writeV1(baseDir, '/a.txt', body);
+            const [diskName] = await listEncrypted(baseDir);
+
+            assert.deepEqual(await fs.migrateV1('/', true), [{path: '/a.txt', fileSize: 8, status: 'dry-run'}]);
+            assert.ok((await readFile(join(baseDir, diskName))).equals(body));
+        });
+
+    });
+
+
+    describe('verify', () => {
+
+        /**
+         * Create a file with content and return its on-disk name
+         * @param {string} path
+         * @param {Buffer} content
+         * @return {string}
+         */
+        const writeFileAt = async(path: string, content: Buffer): Promise<string> => {
+            const before = await listEncrypted(baseDir);
+            const fd = await fs.create(path, 0o644);
+            await fs.write(path, fd, content, 0);
+            await fs.release(path, fd);
+
+            return (await listEncrypted(baseDir)).filter((fn) => !before.includes(fn))[0];
+        };
+
+        it('finds nothing in an intact storage', async () => {
+            await fs.mkdir('/dir', 0o755);
+            await writeFileAt('/a.txt', crypto.randomBytes(BLOCK_SIZE * 2 + 5));
+            await writeFileAt('/empty.txt', Buffer.alloc(0));
+            await fs.symlink('/a.txt', '/dir/link');
+
+            const padded = new CryptFS({baseDir: baseDir, encryptionKey: KEY, padding: 'random'});
+            await padded.init();
+            const fd = await padded.create('/padded.txt', 0o644);
+            await padded.write('/padded.txt', fd, Buffer.from('padded'), 0);
+            await padded.release('/padded.txt', fd);
+
+            assert.deepEqual(await fs.verify(), {checked: 5, issues: []});
+        });
+
+        it('reports corrupt, truncated, foreign and undecodable entries', async () => {
+            const tampered = await writeFileAt('/tampered.bin', crypto.randomBytes(BLOCK_SIZE + 10));
+            const truncated = await writeFileAt('/truncated.bin', crypto.randomBytes(BLOCK_SIZE + 10));
+            await writeFileAt('/intact.bin', Buffer.from('intact'));
+
+            const raw = await readFile(join(baseDir, tampered));
+            raw[raw.length - 20] ^= 0xff;
+            await writeFile(join(baseDir, tampered), raw);
+
+            const cut = await readFile(join(baseDir, truncated));
+            await writeFile(join(baseDir, truncated), cut.subarray(0, cut.length - 100));
+
+            const undecodable = crypto.randomBytes(24).toString('base64url');
+            await writeFile(join(baseDir, undecodable), 'x');
+            await writeFile(join(baseDir, 'notes.txt'), 'x');
+            await writeFile(join(baseDir, 'gone.meta'), 'x');
+
+            const report = await fs.verify();
+            const issues = report.issues
+            .map((issue) => [issue.kind, issue.path, issue.diskPath])
+            .sort((a, b) => String(a[2]).localeCompare(String(b[2])));
+
+            assert.equal(report.checked, 6);
+            assert.deepEqual(issues, [
+                ['corrupt', '/tampered.bin', tampered],
+                ['foreign', null, 'gone.meta'],
+                ['foreign', null, 'notes.txt'],
+                ['truncated', '/truncated.bin', truncated],
+                ['undecodable', null, undecodable]
+            ].sort((a, b) => String(a[2]).localeCompare(String(b[2]))));
+            assert.match(report.issues.find((issue) => issue.kind === 'corrupt')!.message, /^Block 1: /u);
+        });
+
+    });
+
+    describe('streams', () => {
+
+        /**
+         * Collect the chunks of a read stream
+         * @param {Readable} stream
+         * @return {Buffer[]}
+         */
+        const chunksOf = async(stream: Readable): Promise<Buffer[]> => {
+            const chunks: Buffer[] = [];
+
+            for await (const chunk of stream) {
+                chunks.push(chunk as Buffer);
+            }
+
+            return chunks;
+        };
+
+        it('writes a file block by block and reads it back', async() => {
+            for (const size of [0, 100, BLOCK_SIZE, (BLOCK_SIZE * 3) + 17]) {
+                const payload = crypto.randomBytes(size);
+                const pieces = [payload.subarray(0, 1000), payload.subarray(1000, BLOCK_SIZE + 5), payload.subarray(BLOCK_SIZE + 5)];
+
+                // eslint-disable-next-line no-await-in-loop
+                await pipeline(Readable.from(pieces), fs.createWriteStream('/s.bin'));
+
+                // eslint-disable-next-line no-await-in-loop
+                assert.equal((await fs.getattr('/s.bin')).size, size);
+                // eslint-disable-next-line no-await-in-loop
+                assert.ok(Buffer.concat(await chunksOf(fs.createReadStream('/s.bin'))).equals(payload));
+
+                // eslint-disable-next-line no-await-in-loop
+                const fd = await fs.open('/s.bin', constants.O_RDONLY);
+                // eslint-disable-next-line no-await-in-loop
+                assert.ok((await fs.read('/s.bin', fd, size + 1, 0)).equals(payload));
+                // eslint-disable-next-line no-await-in-loop
+                await fs.release('/s.bin', fd);
+            }
+
+            assert.deepEqual((await fs.verify()).issues, []);
+        });
+
+        it('reads a range in block aligned chunks', async() => {
+            const payload = crypto.randomBytes((BLOCK_SIZE * 3) + 17);
+            await pipeline(Readable.from([payload]), fs.createWriteStream('/r.bin'));
+
+            const chunks = await chunksOf(fs.createReadStream('/r.bin', {start: 100, end: (BLOCK_SIZE * 2) + 9}));
+
+            assert.deepEqual(chunks.map((chunk) => chunk.length), [BLOCK_SIZE - 100, BLOCK_SIZE, 10]);
+            assert.ok(Buffer.concat(chunks).equals(payload.subarray(100, (BLOCK_SIZE * 2) + 10)));
+            assert.deepEqual(await chunksOf(fs.createReadStream('/r.bin', {start: payload.length})), []);
+
+            await assert.rejects(chunksOf(fs.createReadStream('/missing.bin')), (e) => (e as NodeJS.ErrnoException).code === 'ENOENT');
+        });
+
+        it('leaves an empty file when the stream fails', async() => {
+            const source = async function* source(): AsyncGenerator<Buffer> {
+                yield crypto.randomBytes(BLOCK_SIZE * 2);
+                throw new Error('source failed');
+            };
+
+            await assert.rejects(pipeline(source(), fs.createWriteStream('/f.bin')), /source failed/u);
+
+            assert.equal((await fs.getattr('/f.bin')).size, 0);
+            assert.deepEqual((await fs.verify()).issues, []);
+        });
+
+    });
+
 });
\ No newline at end of file
@@ -0,0 +1,325 @@
+import {strict as assert} from 'node:assert';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {mkdtemp, rm, readdir, readFile, writeFile, utimes} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {constants} from 'node:fs';
+import * as crypto from 'node:crypto';
+import Fuse from 'fuse-native';
+import {DedupFS} from '../../src/FS/DedupFS.js';
+import {CryptKey} from '../../src/Key/CryptKey.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+
+const KEY = CryptKey.hexStrToBuffer('aabbccddeeff00112233445566778899aabbccddeeff00112233445566778899');
+const AVERAGE_CHUNK_SIZE = 1024;
+
+/**
+ * Matches the EIO a damaged chunk surfaces as
+ * @param {unknown} e
+ * @return {boolean}
+ */
+const isEio = (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.EIO;
+
+describe('DedupFS', () => {
+
+    let baseDir: string;
+    let dfs: DedupFS;
+
+    /**
+     * Paths of all chunk files
+     * @return {string[]}
+     */
+    const listChunks = async(): Promise<string[]> => {
+        const chunkDir = join(baseDir, DedupFS.CHUNK_DIRNAME);
+        const paths: string[] = [];
+
+        for (const prefix of await readdir(chunkDir)) {
+            // eslint-disable-next-line no-await-in-loop
+            for (const name of await readdir(join(chunkDir, prefix))) {
+                paths.push(join(chunkDir, prefix, name));
+            }
+        }
+
+        return paths;
+    };
+
+    /**
+     * Write a whole file
+     * @param {string} path
+     * @param {Buffer} content
+     */
+    const writeAll = async(path: string, content: Buffer): Promise<void> => {
+        const fd = await dfs.create(path, 0o644);
+        await dfs.write(path, fd, content, 0);
+        await dfs.release(path, fd);
+    };
+
+    /**
+     * Read a whole file
+     * @param {DedupFS} entry
+     * @param {string} path
+     * @return {Buffer}
+     */
+    const readAll = async(entry: DedupFS, path: string): Promise<Buffer> => {
+        const fd = await entry.open(path, constants.O_RDONLY);
+        const content = await entry.read(path, fd, 1024 * 1024, 0);
+        await entry.release(path, fd);
+
+        return content;
+    };
+
+    beforeEach(async () => {
+        baseDir = await mkdtemp(join(tmpdir(), 'dedupfs-'));
+        dfs = new DedupFS({baseDir: baseDir, encryptionKey: KEY, averageChunkSize: AVERAGE_CHUNK_SIZE});
+        await dfs.init();
+    });
+
+    afterEach(async () => {
+        await rm(baseDir, {recursive: true, force: true});
+    });
+
+    it('stores files, directories and symlinks and reads them back with a new instance', async () => {
+        const content = crypto.randomBytes(20000);
+
+        await dfs.mkdir('/docs', 0o755);
+
+        const fd = await dfs.create('/docs/a.bin', 0o600);
+        await dfs.write('/docs/a.bin', fd, content.subarray(0, 7000), 0);
+        await dfs.write('/docs/a.bin', fd, content.subarray(7000), 7000);
+        assert.deepEqual(await dfs.read('/docs/a.bin', fd, 100, 6950), content.subarray(6950, 7050));
+        await dfs.release('/docs/a.bin', fd);
+
+        await dfs.symlink('a.bin', '/docs/link');
+        await writeAll('/docs/empty', Buffer.alloc(0));
+        await dfs.mknod('/docs/node', constants.S_IFREG | 0o644, 0);
+
+        const reopened = new DedupFS({baseDir: baseDir, encryptionKey: KEY});
+        await reopened.init();
+
+        assert.deepEqual((await reopened.readdir('/docs')).sort(), ['a.bin', 'empty', 'link', 'node']);
+        assert.deepEqual(await readAll(reopened, '/docs/a.bin'), content);
+        assert.equal((await reopened.getattr('/docs/a.bin')).size, 20000);
+        assert.equal((await reopened.getattr('/docs/a.bin')).mode & 0o777, 0o600);
+        assert.equal(await reopened.readlink('/docs/link'), 'a.bin');
+        assert.equal((await reopened.getattr('/docs/empty')).size, 0);
+        assert.equal((await reopened.getattr('/docs/node')).size, 0);
+        assert.equal((await readAll(reopened, '/docs/node')).length, 0);
+    });
+
+    it('stores identical files and shared regions once', async () => {
+        const content = crypto.randomBytes(64 * 1024);
+
+        await writeAll('/a.bin', content);
+        const chunks = (await listChunks()).length;
+        assert.ok(chunks > 16);
+
+        await writeAll('/b.bin', content);
+        assert.equal((await listChunks()).length, chunks);
+
+        // An insertion only changes the chunks around it, the rest shifts.
+        const edited = Buffer.concat([content.subarray(0, 30000), Buffer.from('inserted'), content.subarray(30000)]);
+        await writeAll('/c.bin', edited);
+        assert.ok((await listChunks()).length <= chunks + 3);
+
+        assert.deepEqual(await readAll(dfs, '/b.bin'), content);
+        assert.deepEqual(await readAll(dfs, '/c.bin'), edited);
+    });
+
+    it('matches a reference buffer under random writes and truncates', async () => {
+        let reference = Buffer.alloc(0);
+        const fd = await dfs.create('/random.bin', 0o644);
+
+        for (let i = 0; i < 60; i++) {
+            const offset = crypto.randomInt(24000);
+
+            if (i % 10 === 9) {
+                // eslint-disable-next-line no-await-in-loop
+                await dfs.ftruncate('/random.bin', fd, offset);
+                reference = Buffer.concat([reference, Buffer.alloc(Math.max(offset - reference.length, 0))]).subarray(0, offset);
+            } else {
+                const data = crypto.randomBytes(1 + crypto.randomInt(3000));
+
+                // eslint-disable-next-line no-await-in-loop
+                await dfs.write('/random.bin', fd, data, offset);
+
+                if (offset + data.length > reference.length) {
+                    reference = Buffer.concat([reference, Buffer.alloc(offset + data.length - reference.length)]);
+                }
+
+                data.copy(reference, offset);
+            }
+
+            if (i % 7 === 6) {
+                // eslint-disable-next-line no-await-in-loop
+                assert.deepEqual(await dfs.read('/random.bin', fd, 1024 * 1024, 0), reference);
+            }
+        }
+
+        await dfs.release('/random.bin', fd);
+        assert.deepEqual(await readAll(dfs, '/random.bin'), reference);
+        assert.equal((await dfs.getattr('/random.bin')).size, reference.length);
+
+        await dfs.setattr('/random.bin', {size: 50000});
+        assert.deepEqual(await readAll(dfs, '/random.bin'), Buffer.concat([reference, Buffer.alloc(50000 - reference.length)]));
+
+        await dfs.truncate('/random.bin', 100);
+        assert.deepEqual(await readAll(dfs, '/random.bin'), reference.subarray(0, 100));
+
+        const truncFd = await dfs.open('/random.bin', constants.O_RDWR | constants.O_TRUNC);
+        await dfs.release('/random.bin', truncFd);
+        assert.equal((await dfs.getattr('/random.bin')).size, 0);
+    });
+
+    it('punches holes and grows files with fallocate', async () => {
+        const content = crypto.randomBytes(10000);
+        const fd = await dfs.create('/vm.img', 0o644);
+        await dfs.write('/vm.img', fd, content, 0);
+        await dfs.write('/vm.img', fd, Buffer.from('pending'), 9000);
+
+        await dfs.fallocate('/vm.img', fd, 0x03, 1000, 8500);
+        await dfs.fallocate('/vm.img', fd, 0x01, 0, 50000);
+        await dfs.fallocate('/vm.img', fd, 0, 9000, 3000);
+        await dfs.release('/vm.img', fd);
+
+        const expected = Buffer.concat([content, Buffer.alloc(2000)]);
+        expected.fill(0, 1000, 9500);
+
+        assert.equal((await dfs.getattr('/vm.img')).size, 12000);
+        assert.deepEqual(await readAll(dfs, '/vm.img'), expected);
+    });
+
+    it('collects chunks no file refers to', async () => {
+        const kept = crypto.randomBytes(16 * 1024);
+
+        await writeAll('/kept.bin', kept);
+        await writeAll('/gone.bin', crypto.randomBytes(16 * 1024));
+        const before = (await listChunks()).length;
+
+        // Only a temporary file older than the grace period is a leftover.
+        const [firstChunk] = await listChunks();
+        await writeFile(`${firstChunk}.0011223344556677.tmp`, 'partial');
+        await writeFile(`${firstChunk}.8899aabbccddeeff.tmp`, 'in flight');
+        await utimes(`${firstChunk}.0011223344556677.tmp`, new Date(0), new Date(0));
+        await dfs.unlink('/gone.bin');
+
+        const removed = await dfs.collectGarbage();
+        assert.ok(removed > 1);
+        assert.equal((await listChunks()).length, before + 2 - removed);
+        assert.ok((await listChunks()).includes(`${firstChunk}.8899aabbccddeeff.tmp`));
+        await rm(`${firstChunk}.8899aabbccddeeff.tmp`);
+        assert.deepEqual(await readAll(dfs, '/kept.bin'), kept);
+        assert.equal(await dfs.collectGarbage(), 0);
+
+        // Collected chunks are written again when the same content comes back.
+        const keptChunks = (await listChunks()).length;
+        await dfs.unlink('/kept.bin');
+        assert.equal(await dfs.collectGarbage(), keptChunks);
+        await writeAll('/again.bin', kept);
+        assert.deepEqual(await readAll(dfs, '/again.bin'), kept);
+    });
+
+    it('keeps the chunks of writes that run during a garbage collection', async () => {
+        const contents = Array.from({length: 4}, () => crypto.randomBytes(12000));
+        const fd = await dfs.create('/busy.bin', 0o644);
+
+        await dfs.write('/busy.bin', fd, contents[0], 0);
+        await dfs.fsync('/busy.bin', fd, false);
+
+        // Cutting and saving interleave with the collections, nothing is lost.
+        await Promise.all([
+            dfs.collectGarbage(),
+            (async(): Promise<void> => {
+                for (let i = 1; i < contents.length; i++) {
+                    // eslint-disable-next-line no-await-in-loop
+                    await dfs.write('/busy.bin', fd, contents[i], i * 12000);
+                    // eslint-disable-next-line no-await-in-loop
+                    await dfs.read('/busy.bin', fd, 1, 0);
+                }
+            })(),
+            dfs.collectGarbage(),
+            writeAll('/other.bin', contents[1]),
+            dfs.collectGarbage()
+        ]);
+        await dfs.release('/busy.bin', fd);
+        await dfs.collectGarbage();
+
+        assert.deepEqual(await readAll(dfs, '/busy.bin'), Buffer.concat(contents));
+        assert.deepEqual(await readAll(dfs, '/other.bin'), contents[1]);
+    });
+
+    it('reports the size of an open file with its pending writes', async () => {
+        const fd = await dfs.create('/open.bin', 0o644);
+        await dfs.write('/open.bin', fd, crypto.randomBytes(5000), 0);
+        assert.equal((await dfs.getattr('/open.bin')).size, 5000);
+
+        await dfs.read('/open.bin', fd, 10, 0);
+        assert.equal((await dfs.getattr('/open.bin')).size, 5000);
+
+        await dfs.write('/open.bin', fd, Buffer.from('tail'), 7000);
+        await dfs.ftruncate('/open.bin', fd, 6000);
+        assert.equal((await dfs.getattr('/open.bin')).size, 6000);
+
+        await dfs.release('/open.bin', fd);
+        assert.equal((await dfs.getattr('/open.bin')).size, 6000);
+    });
+
+    it('shares the content of a file among all its open fds', async () => {
+        await writeAll('/shared.bin', Buffer.from('0123456789'));
+
+        const a = await dfs.open('/shared.bin', constants.O_RDWR);
+        const b = await dfs.open('/shared.bin', constants.O_RDWR);
+        const r = await dfs.open('/shared.bin', constants.O_RDONLY);
+
+        await dfs.write('/shared.bin', a, Buffer.from('AB'), 0);
+        assert.equal((await dfs.read('/shared.bin', b, 100, 0)).toString(), 'AB23456789');
+
+        await dfs.write('/shared.bin', b, Buffer.from('YZ'), 8);
+        await dfs.release('/shared.bin', a);
+        assert.equal((await dfs.read('/shared.bin', r, 100, 0)).toString(), 'AB234567YZ');
+
+        await dfs.rename('/shared.bin', '/moved.bin');
+        const m = await dfs.open('/moved.bin', constants.O_WRONLY);
+        await dfs.write('/moved.bin', m, Buffer.from('!'), 10);
+        await dfs.release('/moved.bin', m);
+        await dfs.release('/moved.bin', b);
+        assert.equal((await dfs.read('/moved.bin', r, 100, 0)).toString(), 'AB234567YZ!');
+        await dfs.release('/moved.bin', r);
+
+        assert.equal((await readAll(dfs, '/moved.bin')).toString(), 'AB234567YZ!');
+        await dfs.rename('/moved.bin', '/shared.bin');
+
+        // Truncating on open empties the file for the fds open on it.
+        const keep = await dfs.open('/shared.bin', constants.O_RDONLY);
+        const trunc = await dfs.open('/shared.bin', constants.O_WRONLY | constants.O_TRUNC);
+        assert.equal((await dfs.read('/shared.bin', keep, 100, 0)).length, 0);
+        await dfs.write('/shared.bin', trunc, Buffer.from('new'), 0);
+        await dfs.release('/shared.bin', trunc);
+        await dfs.release('/shared.bin', keep);
+
+        const reopened = new DedupFS({baseDir: baseDir, encryptionKey: KEY});
+        await reopened.init();
+        assert.equal((await readAll(reopened, '/shared.bin')).toString(), 'new');
+        assert.equal((await reopened.getattr('/shared.bin')).size, 3);
+    });
+
+    it('rejects a tampered chunk with EIO', async () => {
+        await writeAll('/a.bin', crypto.randomBytes(4000));
+
+        const [path] = await listChunks();
+        const sealed = await readFile(path);
+        sealed[20] ^= 1;
+        await writeFile(path, sealed);
+
+        const reopened = new DedupFS({baseDir: baseDir, encryptionKey: KEY});
+        await reopened.init();
+        const fd = await reopened.open('/a.bin', constants.O_RDONLY);
+        await assert.rejects(reopened.read('/a.bin', fd, 4000, 0), isEio);
+        await reopened.release('/a.bin', fd);
+    });
+
+    it('rejects an invalid average chunk size', () => {
+        assert.throws(() => new DedupFS({baseDir: baseDir, encryptionKey: KEY, averageChunkSize: 1000}));
+        assert.throws(() => new DedupFS({baseDir: baseDir, encryptionKey: KEY, averageChunkSize: 128}));
+    });
+
+});
\ No newline at end of file
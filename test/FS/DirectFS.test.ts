@@ -1,9 +1,11 @@
 import {strict as assert} from 'node:assert';
 import {afterEach, beforeEach, describe, it} from 'node:test';
-import {mkdtemp, rm, writeFile, readdir, stat} from 'node:fs/promises';
+import {mkdtemp, rm, writeFile, readFile, readdir, stat} from 'node:fs/promises';
 import {tmpdir} from 'node:os';
 import {join} from 'node:path';
 import {constants} from 'node:fs';
+import Fuse from 'fuse-native';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
 import {DirectFS} from '../../src/FS/DirectFS.js';
 
 describe('DirectFS', () => {
@@ -88,6 +90,26 @@ describe('DirectFS', () => {
         assert.equal(st.size, 4);
     });
 
+    it('fallocate grows files, zeroes ranges and refuses to punch holes', async () => {
+        const isFuseError = (code: number) => (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === code;
+        await writeFile(join(baseDir, 'alloc.bin'), '0123456789');
+
+        const fd = await fs.open('/alloc.bin', constants.O_RDWR);
+        await fs.fallocate('/alloc.bin', fd, 0x01, 0, 100);
+        assert.equal((await stat(join(baseDir, 'alloc.bin'))).size, 10);
+
+        await fs.fallocate('/alloc.bin', fd, 0x11, 2, 3);
+        await fs.fallocate('/alloc.bin', fd, 0x10, 8, 4);
+        await fs.fallocate('/alloc.bin', fd, 0, 10, 6);
+        await assert.rejects(fs.fallocate('/alloc.bin', fd, 0x03, 0, 4), isFuseError(Fuse.EOPNOTSUPP));
+        await fs.release('/alloc.bin', fd);
+
+        const expected = Buffer.alloc(16);
+        expected.write('01', 0);
+        expected.write('567', 5);
+        assert.deepEqual(await readFile(join(baseDir, 'alloc.bin')), expected);
+    });
+
     it('unlink removes a file', async () => {
         const fd = await fs.create('/del.txt', 0o644);
         await fs.release('/del.txt', fd);
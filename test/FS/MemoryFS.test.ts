@@ -0,0 +1,204 @@
+import {strict as assert} from 'node:assert';
+import {beforeEach, describe, it} from 'node:test';
+import {constants} from 'node:fs';
+import Fuse from 'fuse-native';
+import {MemoryFS} from '../../src/FS/MemoryFS.js';
+import {VirtualFS} from '../../src/FS/VirtualFS.js';
+import {VirtualFSPromises} from '../../src/FS/VirtualFSPromises.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+
+/**
+ * Matches an ErrnoFuseCb with the given FUSE error
+ * @param {number} code
+ * @return {(e: unknown) => boolean}
+ */
+const isFuseError = (code: number) => (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === code;
+
+describe('MemoryFS', () => {
+
+    let fs: MemoryFS;
+
+    /**
+     * Write a whole file
+     * @param {string} path
+     * @param {Buffer} content
+     */
+    const writeAll = async(path: string, content: Buffer): Promise<void> => {
+        const fd = await fs.create(path, 0o644);
+        await fs.write(path, fd, content, 0);
+        await fs.release(path, fd);
+    };
+
+    /**
+     * Read a whole file
+     * @param {string} path
+     * @return {Buffer}
+     */
+    const readAll = async(path: string): Promise<Buffer> => {
+        const fd = await fs.open(path, constants.O_RDONLY);
+        const content = await fs.read(path, fd, 1024 * 1024, 0);
+        await fs.release(path, fd);
+
+        return content;
+    };
+
+    beforeEach(async () => {
+        fs = new MemoryFS();
+        await fs.init();
+    });
+
+    it('create + write + read roundtrip, truncate and holes', async () => {
+        await writeAll('/a.txt', Buffer.from('hello'));
+        assert.equal((await readAll('/a.txt')).toString(), 'hello');
+
+        const fd = await fs.open('/a.txt', constants.O_RDWR);
+        assert.equal(await fs.write('/a.txt', fd, Buffer.from('!'), 8), 1);
+        assert.ok((await fs.read('/a.txt', fd, 100, 0)).equals(Buffer.from('hello\0\0\0!')));
+        await fs.ftruncate('/a.txt', fd, 2);
+        await fs.release('/a.txt', fd);
+
+        await fs.truncate('/a.txt', 4);
+        assert.ok((await readAll('/a.txt')).equals(Buffer.from('he\0\0')));
+        assert.equal((await fs.getattr('/a.txt')).size, 4);
+
+        await fs.open('/a.txt', constants.O_WRONLY | constants.O_TRUNC);
+        assert.equal((await fs.getattr('/a.txt')).size, 0);
+    });
+
+    it('directories, modes and errors', async () => {
+        await fs.mkdir('/d', 0o750);
+        await fs.mkdir('/d/sub', 0o755);
+        await writeAll('/d/f.txt', Buffer.from('f'));
+
+        const st = await fs.getattr('/d');
+        assert.equal(st.mode, constants.S_IFDIR | 0o750);
+        assert.equal(st.nlink, 3);
+        assert.deepEqual((await fs.readdir('/d')).sort(), ['f.txt', 'sub']);
+
+        await fs.setattr('/d/f.txt', {mode: 0o600, mtime: new Date(1000)});
+        const fst = await fs.getattr('/d/f.txt');
+        assert.equal(fst.mode, constants.S_IFREG | 0o600);
+        assert.equal(fst.mtime.getTime(), 1000);
+
+        await assert.rejects(fs.mkdir('/d', 0o755), isFuseError(Fuse.EEXIST));
+        await assert.rejects(fs.rmdir('/d'), isFuseError(Fuse.ENOTEMPTY));
+        await assert.rejects(fs.unlink('/d'), isFuseError(Fuse.EISDIR));
+        await assert.rejects(fs.readdir('/d/f.txt'), isFuseError(Fuse.ENOTDIR));
+        await assert.rejects(fs.getattr('/d/f.txt/x'), isFuseError(Fuse.ENOTDIR));
+        await assert.rejects(fs.getattr('/missing'), isFuseError(Fuse.ENOENT));
+        await assert.rejects(fs.rmdir('/'), isFuseError(Fuse.EBUSY));
+
+        await fs.rmdir('/d/sub');
+        await fs.unlink('/d/f.txt');
+        await fs.rmdir('/d');
+        assert.deepEqual(await fs.readdir('/'), []);
+    });
+
+    it('symlinks and hard links', async () => {
+        await writeAll('/target.txt', Buffer.from('data'));
+        await fs.symlink('target.txt', '/link');
+        await fs.link('/target.txt', '/hard.txt');
+
+        const lst = await fs.getattr('/link');
+        assert.equal(lst.mode & constants.S_IFMT, constants.S_IFLNK);
+        assert.equal(lst.size, 'target.txt'.length);
+        assert.equal(await fs.readlink('/link'), 'target.txt');
+        await assert.rejects(fs.readlink('/target.txt'), isFuseError(Fuse.EINVAL));
+
+        assert.equal((await fs.getattr('/target.txt')).nlink, 2);
+        assert.equal((await fs.getattr('/hard.txt')).ino, (await fs.getattr('/target.txt')).ino);
+
+        await writeAll('/hard.txt', Buffer.from('changed'));
+        assert.equal((await readAll('/target.txt')).toString(), 'changed');
+
+        await fs.unlink('/target.txt');
+        assert.equal((await fs.getattr('/hard.txt')).nlink, 1);
+        assert.equal((await readAll('/hard.txt')).toString(), 'changed');
+
+        await fs.mkdir('/dir', 0o755);
+        await assert.rejects(fs.link('/dir', '/dir2'), isFuseError(Fuse.EPERM));
+    });
+
+    it('rename replaces like rename(2)', async () => {
+        await fs.mkdir('/a', 0o755);
+        await fs.mkdir('/a/b', 0o755);
+        await fs.mkdir('/empty', 0o755);
+        await writeAll('/a/f.txt', Buffer.from('1'));
+        await writeAll('/g.txt', Buffer.from('2'));
+
+        await fs.rename('/g.txt', '/a/f.txt');
+        assert.equal((await readAll('/a/f.txt')).toString(), '2');
+        await assert.rejects(fs.getattr('/g.txt'), isFuseError(Fuse.ENOENT));
+
+        await assert.rejects(fs.rename('/a', '/a/b/c'), isFuseError(Fuse.EINVAL));
+        await assert.rejects(fs.rename('/a/f.txt', '/empty'), isFuseError(Fuse.EISDIR));
+        await assert.rejects(fs.rename('/empty', '/a/f.txt'), isFuseError(Fuse.ENOTDIR));
+        await assert.rejects(fs.rename('/empty', '/a'), isFuseError(Fuse.ENOTEMPTY));
+
+        await fs.rename('/a', '/empty');
+        assert.deepEqual((await fs.readdir('/')).sort(), ['empty']);
+        assert.deepEqual((await fs.readdir('/empty')).sort(), ['b', 'f.txt']);
+    });
+
+    it('keeps unlinked open files readable and honours maxSize', async () => {
+        const small = new MemoryFS({maxSize: 10});
+        await small.init();
+
+        const fd = await small.create('/a', 0o644);
+        await small.write('/a', fd, Buffer.from('12345678'), 0);
+        await assert.rejects(small.write('/a', fd, Buffer.from('abc'), 8), isFuseError(Fuse.ENOSPC));
+
+        await small.unlink('/a');
+        assert.equal((await small.read('/a', fd, 100, 0)).toString(), '12345678');
+        await small.release('/a', fd);
+
+        const fd2 = await small.create('/b', 0o644);
+        assert.equal(await small.write('/b', fd2, Buffer.from('0123456789'), 0), 10);
+        await small.release('/b', fd2);
+        assert.equal((await small.statfs('/')).bfree, 0);
+    });
+
+    it('fallocate grows, zeroes ranges and honours maxSize', async () => {
+        await writeAll('/a.bin', Buffer.from('0123456789'));
+
+        const fd = await fs.open('/a.bin', constants.O_RDWR);
+        await fs.fallocate('/a.bin', fd, 0x01, 0, 100);
+        assert.equal((await fs.getattr('/a.bin')).size, 10);
+
+        await fs.fallocate('/a.bin', fd, 0x03, 2, 3);
+        await fs.fallocate('/a.bin', fd, 0x10, 8, 6);
+        await assert.rejects(fs.fallocate('/a.bin', fd, 0x02, 0, 1), isFuseError(Fuse.EINVAL));
+        await fs.release('/a.bin', fd);
+
+        const expected = Buffer.alloc(14);
+        expected.write('01', 0);
+        expected.write('567', 5);
+        assert.ok((await readAll('/a.bin')).equals(expected));
+
+        const small = new MemoryFS({maxSize: 10});
+        await small.init();
+        const sfd = await small.create('/a', 0o644);
+        await assert.rejects(small.fallocate('/a', sfd, 0, 0, 11), isFuseError(Fuse.ENOSPC));
+        await small.fallocate('/a', sfd, 0, 0, 10);
+        assert.equal((await small.getattr('/a')).size, 10);
+        await small.release('/a', sfd);
+    });
+
+    it('backs a VirtualFS sub-mount', async () => {
+        const vfs = new VirtualFS('/mnt/unused');
+        await vfs.register('/', new MemoryFS());
+        await vfs.register('/tmp', fs);
+
+        const fsp = new VirtualFSPromises(vfs);
+        await fsp.mkdir('/tmp/x/y', {recursive: true});
+        await fsp.writeFile('/tmp/x/y/f.txt', 'scratch');
+        await fsp.writeFile('/top.txt', 'root');
+
+        assert.equal(await fsp.readFile('/tmp/x/y/f.txt', 'utf8'), 'scratch');
+        assert.deepEqual(await fs.readdir('/'), ['x']);
+        assert.deepEqual(await fsp.readdir('/'), ['top.txt']);
+        assert.ok((await fsp.stat('/tmp/x')).isDirectory());
+        await assert.rejects(fsp.rename('/top.txt', '/tmp/top.txt'), (e) => (e as NodeJS.ErrnoException).code === 'EXDEV');
+    });
+
+});
\ No newline at end of file
@@ -0,0 +1,180 @@
+import {strict as assert} from 'node:assert';
+import {beforeEach, describe, it} from 'node:test';
+import {mkdtemp, mkdir, rm, readFile, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {constants} from 'node:fs';
+import Fuse from 'fuse-native';
+import {CryptFS} from '../../src/FS/CryptFS.js';
+import {DirectFS} from '../../src/FS/DirectFS.js';
+import {MemoryFS} from '../../src/FS/MemoryFS.js';
+import {OverlayFS} from '../../src/FS/OverlayFS.js';
+import {CryptKey} from '../../src/Key/CryptKey.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+
+const KEY = CryptKey.hexStrToBuffer('aabbccddeeff00112233445566778899aabbccddeeff00112233445566778899');
+
+/**
+ * Matches an ErrnoFuseCb with the given FUSE error
+ * @param {number} code
+ * @return {(e: unknown) => boolean}
+ */
+const isFuseError = (code: number) => (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === code;
+
+describe('OverlayFS', () => {
+
+    let upper: MemoryFS;
+    let lower: MemoryFS;
+    let ofs: OverlayFS;
+
+    /**
+     * Write a whole file into an entry
+     * @param {MemoryFS|OverlayFS} entry
+     * @param {string} path
+     * @param {string} content
+     */
+    const writeAll = async(entry: MemoryFS|OverlayFS, path: string, content: string): Promise<void> => {
+        const fd = await entry.create(path, 0o644);
+        await entry.write(path, fd, Buffer.from(content), 0);
+        await entry.release(path, fd);
+    };
+
+    /**
+     * Read a whole file of an entry
+     * @param {MemoryFS|OverlayFS} entry
+     * @param {string} path
+     * @return {string}
+     */
+    const readAll = async(entry: MemoryFS|OverlayFS, path: string): Promise<string> => {
+        const fd = await entry.open(path, constants.O_RDONLY);
+        const content = await entry.read(path, fd, 1024, 0);
+        await entry.release(path, fd);
+
+        return content.toString();
+    };
+
+    beforeEach(async () => {
+        lower = new MemoryFS();
+        await lower.init();
+        await lower.mkdir('/etc', 0o755);
+        await lower.mkdir('/etc/conf.d', 0o755);
+        await writeAll(lower, '/etc/hosts', 'base hosts');
+        await writeAll(lower, '/etc/conf.d/a.conf', 'a');
+        await lower.symlink('hosts', '/etc/hosts.link');
+
+        upper = new MemoryFS();
+        ofs = new OverlayFS(upper, lower);
+        await ofs.init();
+    });
+
+    it('shows the lower layer and merges directories', async () => {
+        await writeAll(ofs, '/etc/new.txt', 'new');
+
+        assert.deepEqual((await ofs.readdir('/etc')).sort(), ['conf.d', 'hosts', 'hosts.link', 'new.txt']);
+        assert.equal(await readAll(ofs, '/etc/hosts'), 'base hosts');
+        assert.equal(await ofs.readlink('/etc/hosts.link'), 'hosts');
+        assert.equal((await ofs.getattr('/etc/hosts')).size, 10);
+
+        assert.deepEqual(await upper.readdir('/etc'), ['new.txt']);
+        assert.deepEqual((await lower.readdir('/etc')).sort(), ['conf.d', 'hosts', 'hosts.link']);
+    });
+
+    it('copies up on the first write and leaves the lower layer alone', async () => {
+        await lower.setattr('/etc/hosts', {mode: 0o640, mtime: new Date(5000)});
+
+        const fd = await ofs.open('/etc/hosts', constants.O_RDWR);
+        await ofs.write('/etc/hosts', fd, Buffer.from('BASE'), 0);
+        await ofs.release('/etc/hosts', fd);
+
+        assert.equal(await readAll(ofs, '/etc/hosts'), 'BASE hosts');
+        assert.equal(await readAll(lower, '/etc/hosts'), 'base hosts');
+        assert.equal((await upper.getattr('/etc/hosts')).mode & 0o777, 0o640);
+
+        await ofs.setattr('/etc/conf.d/a.conf', {mode: 0o600});
+        assert.equal(await readAll(upper, '/etc/conf.d/a.conf'), 'a');
+        assert.equal((await ofs.getattr('/etc/conf.d/a.conf')).mode & 0o777, 0o600);
+        assert.equal((await lower.getattr('/etc/conf.d/a.conf')).mode & 0o777, 0o644);
+
+        await ofs.truncate('/etc/hosts', 0);
+        assert.equal(await readAll(ofs, '/etc/hosts'), '');
+    });
+
+    it('whites out deleted lower entries', async () => {
+        await ofs.unlink('/etc/hosts');
+        await assert.rejects(ofs.getattr('/etc/hosts'), isFuseError(Fuse.ENOENT));
+        assert.ok(!(await ofs.readdir('/etc')).includes('hosts'));
+        assert.ok((await upper.readdir('/etc')).includes(`${OverlayFS.WHITEOUT_PREFIX}hosts`));
+        assert.equal(await readAll(lower, '/etc/hosts'), 'base hosts');
+
+        await assert.rejects(ofs.rmdir('/etc/conf.d'), isFuseError(Fuse.ENOTEMPTY));
+        await ofs.unlink('/etc/conf.d/a.conf');
+        await ofs.rmdir('/etc/conf.d');
+        await assert.rejects(ofs.getattr('/etc/conf.d/a.conf'), isFuseError(Fuse.ENOENT));
+
+        await writeAll(ofs, '/etc/hosts', 'again');
+        assert.equal(await readAll(ofs, '/etc/hosts'), 'again');
+        assert.deepEqual((await ofs.readdir('/etc')).sort(), ['hosts', 'hosts.link']);
+
+        await assert.rejects(writeAll(ofs, '/etc/.wh.x', ''), isFuseError(Fuse.EINVAL));
+        await assert.rejects(ofs.getattr('/etc/.wh.hosts'), isFuseError(Fuse.ENOENT));
+    });
+
+    it('makes a directory created over a deleted lower one opaque', async () => {
+        await ofs.unlink('/etc/conf.d/a.conf');
+        await ofs.rmdir('/etc/conf.d');
+        await ofs.mkdir('/etc/conf.d', 0o700);
+
+        assert.deepEqual(await ofs.readdir('/etc/conf.d'), []);
+        assert.ok((await upper.readdir('/etc/conf.d')).includes(OverlayFS.OPAQUE_NAME));
+        assert.equal((await ofs.getattr('/etc/conf.d')).mode & 0o777, 0o700);
+
+        await writeAll(ofs, '/etc/conf.d/b.conf', 'b');
+        assert.deepEqual(await ofs.readdir('/etc/conf.d'), ['b.conf']);
+    });
+
+    it('renames files across layers and refuses lower directories', async () => {
+        await ofs.rename('/etc/hosts', '/etc/hosts.bak');
+        assert.equal(await readAll(ofs, '/etc/hosts.bak'), 'base hosts');
+        await assert.rejects(ofs.getattr('/etc/hosts'), isFuseError(Fuse.ENOENT));
+
+        await assert.rejects(ofs.rename('/etc/conf.d', '/etc/conf'), isFuseError(Fuse.EXDEV));
+
+        await ofs.mkdir('/data', 0o755);
+        await writeAll(ofs, '/data/x', 'x');
+        await ofs.rename('/data', '/data2');
+        assert.equal(await readAll(ofs, '/data2/x'), 'x');
+
+        await ofs.link('/etc/conf.d/a.conf', '/a.hard');
+        assert.equal((await upper.getattr('/a.hard')).ino, (await upper.getattr('/etc/conf.d/a.conf')).ino);
+    });
+
+    it('stacks a CryptFS upper over a DirectFS lower', async () => {
+        const base = await mkdtemp(join(tmpdir(), 'overlay-lower-'));
+        const store = await mkdtemp(join(tmpdir(), 'overlay-upper-'));
+
+        try {
+            await mkdir(join(base, 'app'));
+            await writeFile(join(base, 'app', 'config.json'), '{"a":1}');
+            await writeFile(join(base, 'app', 'remove.me'), 'x');
+
+            const cfs = new CryptFS({baseDir: store, encryptionKey: KEY});
+            const layered = new OverlayFS(cfs, new DirectFS({baseDir: base}));
+            await layered.init();
+
+            const fd = await layered.open('/app/config.json', constants.O_WRONLY | constants.O_TRUNC);
+            await layered.write('/app/config.json', fd, Buffer.from('{"a":2}'), 0);
+            await layered.release('/app/config.json', fd);
+            await layered.unlink('/app/remove.me');
+
+            assert.deepEqual(await layered.readdir('/app'), ['config.json']);
+            assert.equal(await readAll(layered, '/app/config.json'), '{"a":2}');
+            assert.equal(await readFile(join(base, 'app', 'config.json'), 'utf8'), '{"a":1}');
+            assert.equal(await readFile(join(base, 'app', 'remove.me'), 'utf8'), 'x');
+            assert.deepEqual((await cfs.readdir('/app')).sort(), ['.wh.remove.me', 'config.json']);
+        } finally {
+            await rm(base, {recursive: true, force: true});
+            await rm(store, {recursive: true, force: true});
+        }
+    });
+
+});
\ No newline at end of file
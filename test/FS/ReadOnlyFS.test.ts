@@ -0,0 +1,87 @@
+import {strict as assert} from 'node:assert';
+import {beforeEach, describe, it} from 'node:test';
+import {constants} from 'node:fs';
+import Fuse from 'fuse-native';
+import {MemoryFS} from '../../src/FS/MemoryFS.js';
+import {ReadOnlyFS} from '../../src/FS/ReadOnlyFS.js';
+import {VirtualFS} from '../../src/FS/VirtualFS.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+
+const isErofs = (e: unknown): boolean => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.EROFS;
+
+describe('ReadOnlyFS', () => {
+
+    let inner: MemoryFS;
+    let ro: ReadOnlyFS;
+
+    beforeEach(async () => {
+        inner = new MemoryFS();
+        await inner.init();
+        await inner.mkdir('/dir', 0o755);
+
+        const fd = await inner.create('/dir/f.txt', 0o644);
+        await inner.write('/dir/f.txt', fd, Buffer.from('archive'), 0);
+        await inner.release('/dir/f.txt', fd);
+
+        ro = new ReadOnlyFS(inner);
+    });
+
+    it('passes reads through', async () => {
+        assert.deepEqual(await ro.readdir('/dir'), ['f.txt']);
+        assert.equal((await ro.getattr('/dir/f.txt')).size, 7);
+        await ro.access('/dir/f.txt', constants.R_OK);
+
+        const fd = await ro.open('/dir/f.txt', constants.O_RDONLY);
+        assert.equal((await ro.read('/dir/f.txt', fd, 100, 0)).toString(), 'archive');
+        await ro.release('/dir/f.txt', fd);
+
+        assert.equal((await ro.statfs('/')).flag & 1, 1);
+    });
+
+    it('refuses every change with EROFS', async () => {
+        const fd = await ro.open('/dir/f.txt', constants.O_RDONLY);
+
+        await assert.rejects(ro.write('/dir/f.txt', fd, Buffer.from('x'), 0), isErofs);
+        await assert.rejects(ro.ftruncate('/dir/f.txt', fd, 0), isErofs);
+        await assert.rejects(ro.fallocate('/dir/f.txt', fd, 0, 0, 10), isErofs);
+        await ro.release('/dir/f.txt', fd);
+
+        await assert.rejects(ro.create('/new.txt', 0o644), isErofs);
+        await assert.rejects(ro.unlink('/dir/f.txt'), isErofs);
+        await assert.rejects(ro.mkdir('/new', 0o755), isErofs);
+        await assert.rejects(ro.rmdir('/dir'), isErofs);
+        await assert.rejects(ro.rename('/dir', '/moved'), isErofs);
+        await assert.rejects(ro.truncate('/dir/f.txt', 0), isErofs);
+        await assert.rejects(ro.setattr('/dir/f.txt', {mode: 0o600}), isErofs);
+        await assert.rejects(ro.symlink('f.txt', '/dir/link'), isErofs);
+        await assert.rejects(ro.link('/dir/f.txt', '/dir/hard'), isErofs);
+        await assert.rejects(ro.mknod('/dir/node', constants.S_IFREG | 0o644, 0), isErofs);
+        await assert.rejects(ro.access('/dir/f.txt', constants.W_OK), isErofs);
+
+        for (const flags of [constants.O_WRONLY, constants.O_RDWR, constants.O_RDONLY | constants.O_TRUNC, constants.O_WRONLY | constants.O_APPEND]) {
+            // eslint-disable-next-line no-await-in-loop
+            await assert.rejects(ro.open('/dir/f.txt', flags), isErofs);
+        }
+
+        assert.deepEqual(await inner.readdir('/'), ['dir']);
+        assert.equal((await inner.getattr('/dir/f.txt')).size, 7);
+        assert.equal((await inner.getattr('/dir/f.txt')).mode & 0o777, 0o644);
+    });
+
+    it('wraps every entry of a readOnly VirtualFS', async () => {
+        const vfs = new VirtualFS('/mnt/unused', false, {readOnly: true});
+        await vfs.register('/', inner);
+        await vfs.register('/ro', ro);
+
+        const root = vfs.resolve('/dir/f.txt');
+        assert.ok(root.fs instanceof ReadOnlyFS);
+        assert.equal((root.fs as ReadOnlyFS).getEntry(), inner);
+        assert.equal(vfs.resolve('/ro/x').fs, ro);
+        await assert.rejects(root.fs.unlink(root.relPath), isErofs);
+
+        const writable = new VirtualFS('/mnt/unused');
+        await writable.register('/', inner);
+        assert.equal(writable.resolve('/dir').fs, inner);
+    });
+
+});
\ No newline at end of file
@@ -0,0 +1,167 @@
+import {strict as assert} from 'node:assert';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {mkdtemp, mkdir, rm, readFile, writeFile, stat, symlink, utimes} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {PassThrough} from 'node:stream';
+import * as crypto from 'node:crypto';
+import Fuse from 'fuse-native';
+import {CryptFS} from '../../src/FS/CryptFS.js';
+import {VirtualFSOffline} from '../../src/FS/VirtualFSOffline.js';
+import {CryptKey} from '../../src/Key/CryptKey.js';
+import {ErrnoFuseCb} from '../../src/Error/ErrnoFuseCb.js';
+
+const KEY = CryptKey.hexStrToBuffer('aabbccddeeff00112233445566778899aabbccddeeff00112233445566778899');
+
+/**
+ * Collect everything written to a stream
+ * @param {(out: PassThrough) => Promise<unknown>} fn
+ * @return {Buffer}
+ */
+const collect = async(fn: (out: PassThrough) => Promise<unknown>): Promise<Buffer> => {
+    const out = new PassThrough();
+    const chunks: Buffer[] = [];
+    out.on('data', (chunk: Buffer) => chunks.push(chunk));
+
+    await fn(out);
+    out.end();
+
+    return Buffer.concat(chunks);
+};
+
+/**
+ * Parse the entries of a tar archive, applying pax path records
+ * @param {Buffer} tar
+ * @return {{name: string, type: string, linkName: string, content: Buffer}[]}
+ */
+const parseTar = (tar: Buffer): {name: string; type: string; linkName: string; content: Buffer;}[] => {
+    const field = (block: Buffer, offset: number, length: number): string =>
+        block.subarray(offset, offset + length).toString('utf8').replace(/\0.*$/su, '');
+
+    const entries: {name: string; type: string; linkName: string; content: Buffer;}[] = [];
+    let paxPath: string|null = null;
+    let offset = 0;
+
+    while (offset + 512 <= tar.length && tar[offset] !== 0) {
+        const block = tar.subarray(offset, offset + 512);
+        const size = parseInt(field(block, 124, 12), 8);
+        const type = field(block, 156, 1);
+        const content = tar.subarray(offset + 512, offset + 512 + size);
+
+        if (type === 'x') {
+            paxPath = /\d+ path=(.*)\n/u.exec(content.toString('utf8'))?.[1] ?? null;
+        } else {
+            entries.push({
+                name: paxPath ?? field(block, 0, 100),
+                type: type,
+                linkName: field(block, 157, 100),
+                content: content
+            });
+            paxPath = null;
+        }
+
+        offset += 512 + (Math.ceil(size / 512) * 512);
+    }
+
+    return entries;
+};
+
+describe('VirtualFSOffline', () => {
+
+    let baseDir: string;
+    let localDir: string;
+    let offline: VirtualFSOffline;
+
+    beforeEach(async () => {
+        baseDir = await mkdtemp(join(tmpdir(), 'offline-test-'));
+        localDir = await mkdtemp(join(tmpdir(), 'offline-local-'));
+        offline = new VirtualFSOffline(new CryptFS({baseDir: baseDir, encryptionKey: KEY}));
+        await offline.init();
+    });
+
+    afterEach(async () => {
+        await rm(baseDir, {recursive: true, force: true});
+        await rm(localDir, {recursive: true, force: true});
+    });
+
+    it('put, cat and get round-trip content, mode and mtime', async () => {
+        const payload = crypto.randomBytes(200 * 1024 + 7);
+        const mtime = new Date('2024-02-03T04:05:06Z');
+        await writeFile(join(localDir, 'in.bin'), payload, {mode: 0o640});
+        await utimes(join(localDir, 'in.bin'), mtime, mtime);
+
+        assert.equal(await offline.put(join(localDir, 'in.bin'), '/in.bin'), payload.length);
+        assert.ok((await collect((out) => offline.cat('/in.bin', out))).equals(payload));
+
+        assert.equal(await offline.get('/in.bin', join(localDir, 'out.bin')), payload.length);
+        assert.ok((await readFile(join(localDir, 'out.bin'))).equals(payload));
+
+        const st = await stat(join(localDir, 'out.bin'));
+        // eslint-disable-next-line no-bitwise
+        assert.equal(st.mode & 0o777, 0o640);
+        assert.equal(st.mtime.getTime(), mtime.getTime());
+
+        await writeFile(join(localDir, 'in.bin'), 'shorter');
+        await offline.put(join(localDir, 'in.bin'), '/in.bin');
+        assert.equal((await collect((out) => offline.cat('/in.bin', out))).toString(), 'shorter');
+    });
+
+    it('imports a directory tree and lists it', async () => {
+        await mkdir(join(localDir, 'src', 'sub'), {recursive: true});
+        await writeFile(join(localDir, 'src', 'a.txt'), 'a');
+        await writeFile(join(localDir, 'src', 'sub', 'b.txt'), 'b');
+        await symlink('sub/b.txt', join(localDir, 'src', 'link'));
+
+        assert.equal(await offline.importDir(join(localDir, 'src'), '/'), 4);
+        assert.equal(await offline.importDir(join(localDir, 'src', 'sub'), '/copy'), 1);
+
+        const list = await offline.ls('/');
+        assert.deepEqual(list.map((entry) => entry.name), ['a.txt', 'copy', 'link', 'sub']);
+        assert.equal(list[0].stats.size, 1);
+        assert.equal((await collect((out) => offline.cat('/sub/b.txt', out))).toString(), 'b');
+        assert.equal((await collect((out) => offline.cat('/copy/b.txt', out))).toString(), 'b');
+    });
+
+    it('exports a tree as a tar archive', async () => {
+        const longName = `${'long-name-'.repeat(12)}.txt`;
+        await mkdir(join(localDir, 'src', 'sub'), {recursive: true});
+        await writeFile(join(localDir, 'src', 'sub', longName), 'long');
+        await writeFile(join(localDir, 'src', 'big.bin'), crypto.randomBytes(70000));
+        await symlink('big.bin', join(localDir, 'src', 'link'));
+        await offline.importDir(join(localDir, 'src'), '/');
+
+        let count = 0;
+        const tar = await collect(async(out) => {
+            count = await offline.exportTar('/', out);
+        });
+        const entries = parseTar(tar);
+
+        assert.equal(count, 4);
+        assert.equal(tar.length % 512, 0);
+        assert.deepEqual(
+            entries.map((entry) => [entry.name, entry.type, entry.linkName]),
+            [
+                ['big.bin', '0', ''],
+                ['link', '2', 'big.bin'],
+                ['sub/', '5', ''],
+                [`sub/${longName}`, '0', '']
+            ]
+        );
+        assert.ok(entries[0].content.equals(await readFile(join(localDir, 'src', 'big.bin'))));
+        assert.equal(entries[3].content.toString(), 'long');
+
+        const single = parseTar(await collect((out) => offline.exportTar('/sub', out)));
+        assert.deepEqual(single.map((entry) => entry.name), [longName]);
+    });
+
+    it('refuses to read a directory as a file', async () => {
+        await mkdir(join(localDir, 'src', 'sub'), {recursive: true});
+        await offline.importDir(join(localDir, 'src'), '/');
+
+        await assert.rejects(
+            offline.get('/sub', join(localDir, 'out')),
+            (e) => e instanceof ErrnoFuseCb && e.getFuseError() === Fuse.EISDIR
+        );
+    });
+
+});
\ No newline at end of file
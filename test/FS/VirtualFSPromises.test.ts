@@ -0,0 +1,185 @@
+import {strict as assert} from 'node:assert';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {mkdtemp, rm} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {pipeline} from 'node:stream/promises';
+import {Readable} from 'node:stream';
+import * as crypto from 'node:crypto';
+import {CryptFS} from '../../src/FS/CryptFS.js';
+import {DirectFS} from '../../src/FS/DirectFS.js';
+import {VirtualFS} from '../../src/FS/VirtualFS.js';
+import {VirtualFSPromises} from '../../src/FS/VirtualFSPromises.js';
+import {CryptKey} from '../../src/Key/CryptKey.js';
+
+const KEY = CryptKey.hexStrToBuffer('aabbccddeeff00112233445566778899aabbccddeeff00112233445566778899');
+
+/**
+ * Matches a Node style fs error with the given code
+ * @param {string} code
+ * @return {(e: unknown) => boolean}
+ */
+const hasCode = (code: string) => (e: unknown): boolean => (e as NodeJS.ErrnoException).code === code;
+
+describe('VirtualFSPromises', () => {
+
+    let baseDir: string;
+    let fsp: VirtualFSPromises;
+
+    beforeEach(async () => {
+        baseDir = await mkdtemp(join(tmpdir(), 'fspromises-test-'));
+        const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+        await cfs.init();
+        fsp = new VirtualFSPromises(cfs);
+    });
+
+    afterEach(async () => {
+        await rm(baseDir, {recursive: true, force: true});
+    });
+
+    it('writeFile / readFile round-trip, append and encodings', async () => {
+        await fsp.writeFile('/a.txt', 'hello');
+        await fsp.writeFile('/a.txt', ' world', {flag: 'a'});
+
+        assert.equal(await fsp.readFile('/a.txt', 'utf8'), 'hello world');
+        assert.ok((await fsp.readFile('/a.txt')).equals(Buffer.from('hello world')));
+
+        await fsp.writeFile('/a.txt', '6869', 'hex');
+        assert.equal(await fsp.readFile('/a.txt', {encoding: 'utf8'}), 'hi');
+    });
+
+    it('stat, lstat and mkdir -p', async () => {
+        assert.equal(await fsp.mkdir('/x/y/z', {recursive: true}), '/x');
+        assert.equal(await fsp.mkdir('/x/y', {recursive: true}), undefined);
+        await fsp.writeFile('/x/y/z/f.txt', 'abc');
+
+        const st = await fsp.stat('/x/y/z/f.txt');
+        assert.equal(st.size, 3);
+        assert.ok(st.isFile());
+        assert.ok(!st.isDirectory());
+        assert.equal(typeof st.mtimeMs, 'number');
+        assert.ok((await fsp.stat('/x')).isDirectory());
+
+        await assert.rejects(fsp.mkdir('/x'), hasCode('EEXIST'));
+        await assert.rejects(fsp.mkdir('/x/y/z/f.txt/sub', {recursive: true}), hasCode('ENOTDIR'));
+        await assert.rejects(fsp.stat('/missing'), hasCode('ENOENT'));
+    });
+
+    it('stat follows symlinks, lstat does not', async () => {
+        const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+        await cfs.init();
+        await fsp.mkdir('/dir');
+        await fsp.writeFile('/dir/target.txt', '12345');
+        await cfs.symlink('target.txt', '/dir/link');
+
+        assert.ok((await fsp.lstat('/dir/link')).isSymbolicLink());
+        assert.equal((await fsp.stat('/dir/link')).size, 5);
+        assert.equal(await fsp.readlink('/dir/link'), 'target.txt');
+    });
+
+    it('reads and writes through symlinks', async () => {
+        const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+        await cfs.init();
+        await fsp.mkdir('/dir');
+        await fsp.writeFile('/dir/target.txt', '12345');
+        await cfs.symlink('target.txt', '/dir/link');
+        await cfs.symlink('/dir/link', '/chain');
+        await cfs.symlink('new.txt', '/dir/dangling');
+        await cfs.symlink('/loop', '/loop');
+
+        assert.equal(await fsp.readFile('/chain', 'utf8'), '12345');
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of fsp.createReadStream('/dir/link', {start: 1})) {
+            chunks.push(chunk as Buffer);
+        }
+        assert.equal(Buffer.concat(chunks).toString(), '2345');
+
+        await fsp.writeFile('/dir/link', '678', {flag: 'a'});
+        assert.equal(await fsp.readFile('/dir/target.txt', 'utf8'), '12345678');
+        assert.ok((await fsp.lstat('/dir/link')).isSymbolicLink());
+
+        await fsp.writeFile('/dir/dangling', 'created');
+        assert.equal(await fsp.readFile('/dir/new.txt', 'utf8'), 'created');
+
+        await assert.rejects(fsp.readFile('/loop'), hasCode('ELOOP'));
+        await assert.rejects(fsp.stat('/loop'), hasCode('ELOOP'));
+    });
+
+    it('fails with EIO instead of looping when an entry writes no bytes', async () => {
+        const cfs = new CryptFS({baseDir: baseDir, encryptionKey: KEY});
+        await cfs.init();
+        cfs.write = async(): Promise<number> => 0;
+
+        await assert.rejects(new VirtualFSPromises(cfs).writeFile('/a.txt', 'abc'), hasCode('EIO'));
+    });
+
+    it('readdir, rename and rm', async () => {
+        await fsp.mkdir('/d/sub', {recursive: true});
+        await fsp.writeFile('/d/a.txt', 'a');
+        await fsp.writeFile('/d/sub/b.txt', 'b');
+        await fsp.rename('/d/a.txt', '/d/c.txt');
+
+        assert.deepEqual((await fsp.readdir('/d')).sort(), ['c.txt', 'sub']);
+        await assert.rejects(fsp.rm('/d'), hasCode('EISDIR'));
+
+        await fsp.rm('/d', {recursive: true});
+        assert.deepEqual(await fsp.readdir('/'), []);
+        await assert.rejects(fsp.rm('/d'), hasCode('ENOENT'));
+        await fsp.rm('/d', {force: true});
+    });
+
+    it('streams in and out, with ranges', async () => {
+        const payload = crypto.randomBytes(300 * 1024 + 11);
+
+        await pipeline(Readable.from([payload.subarray(0, 1000), payload.subarray(1000)]), fsp.createWriteStream('/big.bin'));
+
+        const read = async(options?: {start?: number; end?: number; highWaterMark?: number;}): Promise<Buffer> => {
+            const chunks: Buffer[] = [];
+
+            for await (const chunk of fsp.createReadStream('/big.bin', options)) {
+                chunks.push(chunk as Buffer);
+            }
+
+            return Buffer.concat(chunks);
+        };
+
+        assert.ok((await read()).equals(payload));
+        assert.ok((await read({start: 70000, end: 200000, highWaterMark: 4096})).equals(payload.subarray(70000, 200001)));
+
+        await pipeline(Readable.from([Buffer.from('tail')]), fsp.createWriteStream('/big.bin', {flags: 'a'}));
+        assert.equal((await fsp.stat('/big.bin')).size, payload.length + 4);
+
+        await assert.rejects(
+            async () => {
+                for await (const chunk of fsp.createReadStream('/nope')) {
+                    assert.fail(`unexpected chunk ${chunk}`);
+                }
+            },
+            hasCode('ENOENT')
+        );
+    });
+
+    it('routes through a VirtualFS tree and refuses cross-entry renames', async () => {
+        const directDir = await mkdtemp(join(tmpdir(), 'fspromises-direct-'));
+
+        try {
+            const vfs = new VirtualFS(join(baseDir, 'mnt'));
+            await vfs.register('/', new CryptFS({baseDir: baseDir, encryptionKey: KEY}));
+            await vfs.register('/plain', new DirectFS({baseDir: directDir}));
+
+            const tree = new VirtualFSPromises(vfs);
+
+            await tree.writeFile('/plain/p.txt', 'plain');
+            await tree.writeFile('/s.txt', 'secret');
+
+            assert.equal(await fsp.readFile('/s.txt', 'utf8'), 'secret');
+            assert.equal(await tree.readFile('/plain/p.txt', 'utf8'), 'plain');
+            assert.deepEqual(await tree.readdir('/plain'), ['p.txt']);
+            await assert.rejects(tree.rename('/s.txt', '/plain/s.txt'), hasCode('EXDEV'));
+        } finally {
+            await rm(directDir, {recursive: true, force: true});
+        }
+    });
+
+});
\ No newline at end of file
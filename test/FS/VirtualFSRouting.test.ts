@@ -86,6 +86,10 @@ class RecordingEntry implements VirtualFSEntry {
         this.calls.push({op: 'ftruncate', path, extra: {fd, size}});
     }
 
+    public async fallocate(path: string, fd: number, mode: number, offset: number, length: number): Promise<void> {
+        this.calls.push({op: 'fallocate', path, extra: {fd, mode, offset, length}});
+    }
+
     public async access(path: string, mode: number): Promise<void> {
         this.calls.push({op: 'access', path, extra: mode});
     }
@@ -51,4 +51,32 @@ describe('CryptKey', () => {
         });
     });
 
+
+    describe('deriveFromPassphrase', () => {
+        const params = {N: 1024, r: 8, p: 1, keyLen: 32};
+        const salt = Buffer.alloc(16, 7);
+
+        it('is deterministic for the same passphrase and salt', async () => {
+            const a = await CryptKey.deriveFromPassphrase('passphrase', salt, params);
+            const b = await CryptKey.deriveFromPassphrase('passphrase', salt, params);
+
+            assert.equal(a.length, 32);
+            assert.deepEqual(a, b);
+        });
+
+        it('depends on the salt', async () => {
+            const a = await CryptKey.deriveFromPassphrase('passphrase', salt, params);
+            const b = await CryptKey.deriveFromPassphrase('passphrase', Buffer.alloc(16, 8), params);
+
+            assert.notDeepEqual(a, b);
+        });
+
+        it('normalises the passphrase (NFC and NFD spellings match)', async () => {
+            const a = await CryptKey.deriveFromPassphrase('caf\u00e9', salt, params);
+            const b = await CryptKey.deriveFromPassphrase('cafe\u0301', salt, params);
+
+            assert.deepEqual(a, b);
+        });
+    });
+
 });
\ No newline at end of file
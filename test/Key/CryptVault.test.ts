@@ -0,0 +1,208 @@
+import {strict as assert} from 'node:assert';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {createHmac, randomBytes} from 'node:crypto';
+import {mkdtemp, readFile, rm, stat, writeFile} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {CryptKey} from '../../src/Key/CryptKey.js';
+import {CryptVault} from '../../src/Key/CryptVault.js';
+
+// Cheap scrypt cost so the suite stays fast.
+const FAST_KDF = {N: 1024, r: 8, p: 1};
+
+describe('CryptVault', () => {
+
+    let storagePath: string;
+
+    beforeEach(async () => {
+        storagePath = await mkdtemp(join(tmpdir(), 'cryptvault-test-'));
+    });
+
+    afterEach(async () => {
+        await rm(storagePath, {recursive: true, force: true});
+    });
+
+    it('init writes a salted config and returns a 32-byte key', async () => {
+        const key = await CryptVault.init(storagePath, 'correct horse', FAST_KDF);
+
+        assert.equal(key.length, 32);
+        assert.equal(await CryptVault.exists(storagePath), true);
+
+        const config = JSON.parse(await readFile(CryptVault.configPath(storagePath), 'utf8'));
+        assert.equal(config.version, CryptVault.VERSION);
+        assert.equal(config.slots.length, 1);
+        assert.equal(config.slots[0].kdf.algorithm, 'scrypt');
+        assert.equal(config.slots[0].kdf.N, FAST_KDF.N);
+        assert.equal(Buffer.from(config.slots[0].kdf.salt, 'base64').length, 32);
+        assert.ok(!JSON.stringify(config).includes(key.toString('hex')), 'key must not be stored');
+        assert.ok(!JSON.stringify(config).includes(key.toString('base64')), 'key must not be stored');
+    });
+
+    it('writes the config with mode 0600', async () => {
+        await CryptVault.init(storagePath, 'correct horse', FAST_KDF);
+
+        const st = await stat(CryptVault.configPath(storagePath));
+        // eslint-disable-next-line no-bitwise
+        assert.equal(st.mode & 0o777, 0o600);
+    });
+
+    it('unlock with the right passphrase returns the same key', async () => {
+        const key = await CryptVault.init(storagePath, 'correct horse', FAST_KDF);
+        const unlocked = await CryptVault.unlock(storagePath, 'correct horse');
+
+        assert.deepEqual(unlocked, key);
+    });
+
+    it('unlock rejects a wrong passphrase', async () => {
+        await CryptVault.init(storagePath, 'correct horse', FAST_KDF);
+
+        await assert.rejects(() => CryptVault.unlock(storagePath, 'battery staple'), /Wrong passphrase/u);
+    });
+
+    it('different vaults get different keys from the same passphrase', async () => {
+        const other = await mkdtemp(join(tmpdir(), 'cryptvault-test-'));
+        try {
+            const a = await CryptVault.init(storagePath, 'same phrase', FAST_KDF);
+            const b = await CryptVault.init(other, 'same phrase', FAST_KDF);
+
+            assert.notDeepEqual(a, b);
+        } finally {
+            await rm(other, {recursive: true, force: true});
+        }
+    });
+
+    it('init refuses to overwrite an existing config', async () => {
+        await CryptVault.init(storagePath, 'first', FAST_KDF);
+
+        await assert.rejects(() => CryptVault.init(storagePath, 'second', FAST_KDF), /already exists/u);
+    });
+
+    it('init refuses an empty passphrase', async () => {
+        await assert.rejects(() => CryptVault.init(storagePath, '', FAST_KDF), /must not be empty/u);
+    });
+
+    describe('key slots', () => {
+
+        it('addSlot lets a second passphrase unlock the same data key', async () => {
+            const key = await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            const id = await CryptVault.addSlot(storagePath, 'alice', 'bob', FAST_KDF);
+
+            assert.equal(id, 1);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'bob'), key);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'alice'), key);
+        });
+
+        it('a key file slot unlocks with the key file and not with a different one', async () => {
+            const key = await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            const keyFile = randomBytes(32);
+
+            await CryptVault.addSlot(storagePath, 'alice', {keyFile: keyFile});
+
+            assert.deepEqual(await CryptVault.unlock(storagePath, {keyFile: keyFile}), key);
+            await assert.rejects(
+                () => CryptVault.unlock(storagePath, {keyFile: randomBytes(32)}),
+                /does not open any slot/u
+            );
+        });
+
+        it('addSlot requires a secret that opens an existing slot', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+
+            await assert.rejects(() => CryptVault.addSlot(storagePath, 'mallory', 'bob', FAST_KDF), /Wrong passphrase/u);
+        });
+
+        it('removeSlot revokes access without changing the data key', async () => {
+            const key = await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            const bob = await CryptVault.addSlot(storagePath, 'alice', 'bob', FAST_KDF);
+
+            await CryptVault.removeSlot(storagePath, 'alice', bob);
+
+            await assert.rejects(() => CryptVault.unlock(storagePath, 'bob'), /Wrong passphrase/u);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'alice'), key);
+        });
+
+        it('removeSlot refuses to remove the last slot', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+
+            await assert.rejects(() => CryptVault.removeSlot(storagePath, 'alice', 0), /last key slot/u);
+        });
+
+        it('removeSlot reports unknown slot ids', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+
+            await assert.rejects(() => CryptVault.removeSlot(storagePath, 'alice', 7), /not found/u);
+        });
+
+        it('slot ids are not reused after a removal', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            await CryptVault.addSlot(storagePath, 'alice', 'bob', FAST_KDF);
+            const carol = await CryptVault.addSlot(storagePath, 'alice', 'carol', FAST_KDF);
+            await CryptVault.removeSlot(storagePath, 'alice', 1);
+
+            const dave = await CryptVault.addSlot(storagePath, 'alice', 'dave', FAST_KDF);
+
+            assert.ok(dave > carol);
+            assert.deepEqual((await CryptVault.listSlots(storagePath)).map((s) => s.id), [0, carol, dave]);
+        });
+
+        it('upgrades a version 1 config on addSlot and keeps its key', async () => {
+            const salt = randomBytes(32);
+            const v1Key = await CryptKey.deriveFromPassphrase('legacy', salt, {...FAST_KDF, keyLen: 32});
+            await writeFile(CryptVault.configPath(storagePath), JSON.stringify({
+                version: 1,
+                kdf: {...FAST_KDF, keyLen: 32, algorithm: 'scrypt', salt: salt.toString('base64')},
+                keyCheck: createHmac('sha256', v1Key).update('njsfscrypt vault key check').digest('base64')
+            }));
+
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'legacy'), v1Key);
+
+            await CryptVault.addSlot(storagePath, 'legacy', 'modern', FAST_KDF);
+
+            const config = await CryptVault.readConfig(storagePath);
+            assert.equal(config.version, 2);
+            assert.equal(config.slots!.length, 2);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'legacy'), v1Key);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'modern'), v1Key);
+        });
+
+    });
+
+    describe('key rotation', () => {
+
+        it('keeps the new data key pending until the rotation is finished', async () => {
+            const key = await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            await CryptVault.addSlot(storagePath, 'alice', 'bob', FAST_KDF);
+
+            const {oldKey, newKey} = await CryptVault.beginRotation(storagePath, 'alice', FAST_KDF);
+
+            assert.deepEqual(oldKey, key);
+            assert.equal(newKey.length, 32);
+            assert.notDeepEqual(newKey, key);
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'alice'), key);
+
+            // resuming hands out the same new key
+            assert.deepEqual((await CryptVault.beginRotation(storagePath, 'alice', FAST_KDF)).newKey, newKey);
+
+            await CryptVault.finishRotation(storagePath);
+
+            assert.deepEqual(await CryptVault.unlock(storagePath, 'alice'), newKey);
+            await assert.rejects(() => CryptVault.unlock(storagePath, 'bob'), /Wrong passphrase/u);
+        });
+
+        it('refuses slot changes while a rotation is in progress', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+            await CryptVault.beginRotation(storagePath, 'alice', FAST_KDF);
+
+            await assert.rejects(() => CryptVault.addSlot(storagePath, 'alice', 'bob', FAST_KDF), /rotation in progress/u);
+            await assert.rejects(() => CryptVault.removeSlot(storagePath, 'alice', 0), /rotation in progress/u);
+        });
+
+        it('finishRotation needs a rotation in progress', async () => {
+            await CryptVault.init(storagePath, 'alice', FAST_KDF);
+
+            await assert.rejects(() => CryptVault.finishRotation(storagePath), /No key rotation/u);
+        });
+
+    });
+
+});
\ No newline at end of file
@@ -56,4 +56,33 @@ describe('ErrorUtils.toFuseError', () => {
         assert.equal(ErrorUtils.toFuseError(undefined, Fuse.EIO), Fuse.EIO);
     });
 
+});
+
+describe('ErrorUtils.toFsError', () => {
+
+    it('names the errno of an ErrnoFuseCb and keeps its message', () => {
+        const e = ErrorUtils.toFsError(new ErrnoFuseCb(Fuse.ENOENT, 'File not found'), 'open', '/a.txt');
+
+        assert.equal(e.code, 'ENOENT');
+        assert.equal(e.errno, Fuse.ENOENT);
+        assert.equal(e.syscall, 'open');
+        assert.equal(e.path, '/a.txt');
+        assert.equal(e.message, "ENOENT: File not found, open '/a.txt'");
+    });
+
+    it('keeps the code of a node fs error but not its backing path', () => {
+        const err: NodeJS.ErrnoException = new Error("ENOTEMPTY: directory not empty, rmdir '/storage/xyz'");
+        err.code = 'ENOTEMPTY';
+
+        const e = ErrorUtils.toFsError(err, 'rmdir', '/dir');
+
+        assert.equal(e.code, 'ENOTEMPTY');
+        assert.equal(e.errno, Fuse.ENOTEMPTY);
+        assert.equal(e.message, "ENOTEMPTY, rmdir '/dir'");
+    });
+
+    it('falls back to EIO', () => {
+        assert.equal(ErrorUtils.toFsError(new Error('boom'), 'read', '/x').code, 'EIO');
+    });
+
 });
\ No newline at end of file